@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "QuestionType" AS ENUM ('SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER');
+
+-- CreateEnum
+CREATE TYPE "QuizAttemptStatus" AS ENUM ('IN_PROGRESS', 'SUBMITTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "quizzes" (
+    "id" TEXT NOT NULL,
+    "material_id" TEXT NOT NULL,
+    "pass_mark" DOUBLE PRECISION NOT NULL DEFAULT 70,
+    "time_limit" INTEGER,
+    "max_attempts" INTEGER,
+    "shuffle_questions" BOOLEAN NOT NULL DEFAULT false,
+    "shuffle_options" BOOLEAN NOT NULL DEFAULT false,
+    "show_correct_answers" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quizzes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_questions" (
+    "id" TEXT NOT NULL,
+    "quiz_id" TEXT NOT NULL,
+    "type" "QuestionType" NOT NULL,
+    "question" TEXT NOT NULL,
+    "options" JSONB,
+    "correct_answers" TEXT[],
+    "explanation" TEXT,
+    "points" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quiz_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_attempts" (
+    "id" TEXT NOT NULL,
+    "quiz_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "enrollment_id" TEXT NOT NULL,
+    "status" "QuizAttemptStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "question_order" TEXT[],
+    "answers" JSONB,
+    "score" DOUBLE PRECISION,
+    "points_earned" DOUBLE PRECISION,
+    "total_points" DOUBLE PRECISION,
+    "passed" BOOLEAN,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3),
+    "submitted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quiz_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quizzes_material_id_key" ON "quizzes"("material_id");
+
+-- CreateIndex
+CREATE INDEX "quizzes_material_id_idx" ON "quizzes"("material_id");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_quiz_id_idx" ON "quiz_questions"("quiz_id");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_order_idx" ON "quiz_questions"("order");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_quiz_id_idx" ON "quiz_attempts"("quiz_id");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_user_id_idx" ON "quiz_attempts"("user_id");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_enrollment_id_idx" ON "quiz_attempts"("enrollment_id");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_status_idx" ON "quiz_attempts"("status");
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_material_id_fkey" FOREIGN KEY ("material_id") REFERENCES "materials"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_quiz_id_fkey" FOREIGN KEY ("quiz_id") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_quiz_id_fkey" FOREIGN KEY ("quiz_id") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_enrollment_id_fkey" FOREIGN KEY ("enrollment_id") REFERENCES "enrollments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
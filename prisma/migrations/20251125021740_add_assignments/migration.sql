@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "AssignmentSubmissionStatus" AS ENUM ('SUBMITTED', 'GRADED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ASSIGNMENT_GRADED';
+
+-- CreateTable
+CREATE TABLE "assignments" (
+    "id" TEXT NOT NULL,
+    "material_id" TEXT NOT NULL,
+    "instructions" TEXT,
+    "max_score" DOUBLE PRECISION NOT NULL DEFAULT 100,
+    "passing_score" DOUBLE PRECISION NOT NULL DEFAULT 60,
+    "due_at" TIMESTAMP(3),
+    "allow_late_submission" BOOLEAN NOT NULL DEFAULT true,
+    "allow_file" BOOLEAN NOT NULL DEFAULT true,
+    "allow_text" BOOLEAN NOT NULL DEFAULT true,
+    "rubric" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assignment_submissions" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "enrollment_id" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "text_answer" TEXT,
+    "file_url" TEXT,
+    "file_path" TEXT,
+    "file_name" TEXT,
+    "file_size" INTEGER,
+    "file_mimetype" TEXT,
+    "status" "AssignmentSubmissionStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "is_late" BOOLEAN NOT NULL DEFAULT false,
+    "score" DOUBLE PRECISION,
+    "feedback" TEXT,
+    "rubric_scores" JSONB,
+    "resubmission_allowed" BOOLEAN NOT NULL DEFAULT false,
+    "graded_by" TEXT,
+    "graded_at" TIMESTAMP(3),
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "assignment_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignments_material_id_key" ON "assignments"("material_id");
+
+-- CreateIndex
+CREATE INDEX "assignments_material_id_idx" ON "assignments"("material_id");
+
+-- CreateIndex
+CREATE INDEX "assignment_submissions_assignment_id_idx" ON "assignment_submissions"("assignment_id");
+
+-- CreateIndex
+CREATE INDEX "assignment_submissions_user_id_idx" ON "assignment_submissions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "assignment_submissions_enrollment_id_idx" ON "assignment_submissions"("enrollment_id");
+
+-- CreateIndex
+CREATE INDEX "assignment_submissions_status_idx" ON "assignment_submissions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignment_submissions_assignment_id_user_id_attempt_key" ON "assignment_submissions"("assignment_id", "user_id", "attempt");
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_material_id_fkey" FOREIGN KEY ("material_id") REFERENCES "materials"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_submissions" ADD CONSTRAINT "assignment_submissions_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_submissions" ADD CONSTRAINT "assignment_submissions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_submissions" ADD CONSTRAINT "assignment_submissions_enrollment_id_fkey" FOREIGN KEY ("enrollment_id") REFERENCES "enrollments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_submissions" ADD CONSTRAINT "assignment_submissions_graded_by_fkey" FOREIGN KEY ("graded_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('SALE', 'REFUND', 'HOLD', 'HOLD_RELEASE', 'PAYOUT', 'PAYOUT_REVERSAL');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "mentor_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "mentor_id" TEXT NOT NULL,
+    "transaction_id" TEXT,
+    "payout_id" TEXT,
+    "type" "LedgerEntryType" NOT NULL,
+    "gross_amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "platform_fee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "gateway_fee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "description" TEXT,
+    "available_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mentor_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mentor_payouts" (
+    "id" TEXT NOT NULL,
+    "mentor_id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "paid_by" TEXT,
+    "cancelled_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mentor_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mentor_ledger_entries_mentor_id_idx" ON "mentor_ledger_entries"("mentor_id");
+
+-- CreateIndex
+CREATE INDEX "mentor_ledger_entries_transaction_id_idx" ON "mentor_ledger_entries"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "mentor_ledger_entries_payout_id_idx" ON "mentor_ledger_entries"("payout_id");
+
+-- CreateIndex
+CREATE INDEX "mentor_ledger_entries_type_idx" ON "mentor_ledger_entries"("type");
+
+-- CreateIndex
+CREATE INDEX "mentor_ledger_entries_available_at_idx" ON "mentor_ledger_entries"("available_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mentor_ledger_entries_transaction_id_type_key" ON "mentor_ledger_entries"("transaction_id", "type");
+
+-- CreateIndex
+CREATE INDEX "mentor_payouts_mentor_id_idx" ON "mentor_payouts"("mentor_id");
+
+-- CreateIndex
+CREATE INDEX "mentor_payouts_batch_id_idx" ON "mentor_payouts"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "mentor_payouts_status_idx" ON "mentor_payouts"("status");
+
+-- AddForeignKey
+ALTER TABLE "mentor_ledger_entries" ADD CONSTRAINT "mentor_ledger_entries_mentor_id_fkey" FOREIGN KEY ("mentor_id") REFERENCES "mentor_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentor_ledger_entries" ADD CONSTRAINT "mentor_ledger_entries_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentor_ledger_entries" ADD CONSTRAINT "mentor_ledger_entries_payout_id_fkey" FOREIGN KEY ("payout_id") REFERENCES "mentor_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentor_payouts" ADD CONSTRAINT "mentor_payouts_mentor_id_fkey" FOREIGN KEY ("mentor_id") REFERENCES "mentor_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "is_deleted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_hidden" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_locked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_pinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "moderated_at" TIMESTAMP(3),
+ADD COLUMN     "moderated_by" TEXT;
+
+-- CreateIndex
+CREATE INDEX "comments_is_pinned_idx" ON "comments"("is_pinned");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "CaptionFormat" AS ENUM ('SRT', 'VTT');
+
+-- CreateTable
+CREATE TABLE "video_captions" (
+    "id" TEXT NOT NULL,
+    "video_id" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "source_format" "CaptionFormat" NOT NULL,
+    "path" TEXT NOT NULL,
+    "cue_count" INTEGER NOT NULL DEFAULT 0,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "uploaded_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_captions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_captions_video_id_idx" ON "video_captions"("video_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_captions_video_id_language_key" ON "video_captions"("video_id", "language");
+
+-- AddForeignKey
+ALTER TABLE "video_captions" ADD CONSTRAINT "video_captions_video_id_fkey" FOREIGN KEY ("video_id") REFERENCES "videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ColorPalette" AS ENUM ('DEFAULT', 'HIGH_CONTRAST', 'COLOR_BLIND');
+
+-- CreateTable
+CREATE TABLE "accessibility_preferences" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "captions_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "caption_language" TEXT NOT NULL DEFAULT 'id',
+    "font_scale" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "dyslexia_font" BOOLEAN NOT NULL DEFAULT false,
+    "color_palette" "ColorPalette" NOT NULL DEFAULT 'DEFAULT',
+    "reduced_motion" BOOLEAN NOT NULL DEFAULT false,
+    "autoplay" BOOLEAN NOT NULL DEFAULT true,
+    "quiz_time_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accessibility_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accessibility_preferences_user_id_key" ON "accessibility_preferences"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "accessibility_preferences" ADD CONSTRAINT "accessibility_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
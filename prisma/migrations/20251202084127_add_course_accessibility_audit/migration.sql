@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "AccessibilityBadge" AS ENUM ('FULLY_CAPTIONED', 'TRANSCRIPTS_AVAILABLE', 'SCREEN_READER_FRIENDLY', 'FLEXIBLE_TIMING');
+
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "accessibility_audited_at" TIMESTAMP(3),
+ADD COLUMN     "accessibility_badges" "AccessibilityBadge"[],
+ADD COLUMN     "accessibility_score" INTEGER,
+ADD COLUMN     "thumbnail_alt" TEXT;
+
+-- AlterTable
+ALTER TABLE "materials" ADD COLUMN     "document_tagged" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "quizzes" ADD COLUMN     "allow_time_extension" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "course_accessibility_audits" (
+    "id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "badges" "AccessibilityBadge"[],
+    "checklist" JSONB NOT NULL,
+    "audited_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "course_accessibility_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "course_accessibility_audits_course_id_idx" ON "course_accessibility_audits"("course_id");
+
+-- AddForeignKey
+ALTER TABLE "course_accessibility_audits" ADD CONSTRAINT "course_accessibility_audits_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "TranscriptStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "TranscriptSource" AS ENUM ('GENERATED', 'IMPORTED');
+
+-- CreateTable
+CREATE TABLE "video_transcripts" (
+    "id" TEXT NOT NULL,
+    "video_id" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "status" "TranscriptStatus" NOT NULL DEFAULT 'PENDING',
+    "source" "TranscriptSource" NOT NULL,
+    "engine" TEXT,
+    "error_message" TEXT,
+    "edited_by" TEXT,
+    "edited_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_transcripts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transcript_segments" (
+    "id" TEXT NOT NULL,
+    "transcript_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "start_ms" INTEGER NOT NULL,
+    "end_ms" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+
+    CONSTRAINT "transcript_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_transcripts_video_id_idx" ON "video_transcripts"("video_id");
+
+-- CreateIndex
+CREATE INDEX "video_transcripts_status_idx" ON "video_transcripts"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_transcripts_video_id_language_key" ON "video_transcripts"("video_id", "language");
+
+-- CreateIndex
+CREATE INDEX "transcript_segments_transcript_id_position_idx" ON "transcript_segments"("transcript_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "video_transcripts" ADD CONSTRAINT "video_transcripts_video_id_fkey" FOREIGN KEY ("video_id") REFERENCES "videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transcript_segments" ADD CONSTRAINT "transcript_segments_transcript_id_fkey" FOREIGN KEY ("transcript_id") REFERENCES "video_transcripts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "DisabilityType" ADD VALUE 'TUNANETRA';
+
+-- CreateEnum
+CREATE TYPE "VideoVariant" AS ENUM ('STANDARD', 'AUDIO_DESCRIPTION');
+
+-- DropIndex
+DROP INDEX "video_qualities_video_id_quality_key";
+
+-- AlterTable
+ALTER TABLE "accessibility_preferences" ADD COLUMN     "audio_description" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "video_qualities" ADD COLUMN     "variant" "VideoVariant" NOT NULL DEFAULT 'STANDARD';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_qualities_video_id_quality_variant_key" ON "video_qualities"("video_id", "quality", "variant");
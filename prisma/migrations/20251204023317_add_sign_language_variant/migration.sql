@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "VideoVariant" ADD VALUE 'SIGN_LANGUAGE';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "materials" ADD COLUMN     "easy_read_summary" TEXT;
@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "AccommodationRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "AccommodationSource" AS ENUM ('INDIVIDUAL', 'COURSE_POLICY', 'DEFAULT_POLICY', 'PREFERENCE');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ACCOMMODATION_REVIEWED';
+
+-- AlterTable
+ALTER TABLE "assignment_submissions" ADD COLUMN     "accommodation_id" TEXT,
+ADD COLUMN     "accommodation_source" "AccommodationSource",
+ADD COLUMN     "effective_due_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "quiz_attempts" ADD COLUMN     "accommodation_id" TEXT,
+ADD COLUMN     "accommodation_source" "AccommodationSource",
+ADD COLUMN     "time_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "accommodation_policies" (
+    "id" TEXT NOT NULL,
+    "disability_type" "DisabilityType" NOT NULL,
+    "course_id" TEXT,
+    "time_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "extra_attempts" INTEGER NOT NULL DEFAULT 0,
+    "deadline_extension_hours" INTEGER NOT NULL DEFAULT 0,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accommodation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "accommodation_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "time_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "extra_attempts" INTEGER NOT NULL DEFAULT 0,
+    "deadline_extension_hours" INTEGER NOT NULL DEFAULT 0,
+    "reason" TEXT NOT NULL,
+    "status" "AccommodationRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "review_note" TEXT,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accommodation_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "accommodation_policies_course_id_idx" ON "accommodation_policies"("course_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accommodation_policies_disability_type_course_id_key" ON "accommodation_policies"("disability_type", "course_id");
+
+-- CreateIndex
+CREATE INDEX "accommodation_requests_user_id_idx" ON "accommodation_requests"("user_id");
+
+-- CreateIndex
+CREATE INDEX "accommodation_requests_course_id_idx" ON "accommodation_requests"("course_id");
+
+-- CreateIndex
+CREATE INDEX "accommodation_requests_status_idx" ON "accommodation_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "accommodation_policies" ADD CONSTRAINT "accommodation_policies_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accommodation_requests" ADD CONSTRAINT "accommodation_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accommodation_requests" ADD CONSTRAINT "accommodation_requests_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accommodation_requests" ADD CONSTRAINT "accommodation_requests_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
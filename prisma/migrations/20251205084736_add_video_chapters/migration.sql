@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "video_chapters" (
+    "id" TEXT NOT NULL,
+    "video_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "start_time" INTEGER NOT NULL,
+    "thumbnail" TEXT,
+    "is_suggested" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_chapters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_chapters_video_id_idx" ON "video_chapters"("video_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_chapters_video_id_start_time_key" ON "video_chapters"("video_id", "start_time");
+
+-- AddForeignKey
+ALTER TABLE "video_chapters" ADD CONSTRAINT "video_chapters_video_id_fkey" FOREIGN KEY ("video_id") REFERENCES "videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN     "hls_path" TEXT;
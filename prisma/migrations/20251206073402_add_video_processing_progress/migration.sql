@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN     "processing_heartbeat" TIMESTAMP(3),
+ADD COLUMN     "processing_progress" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "UploadSessionStatus" AS ENUM ('ACTIVE', 'ASSEMBLING', 'COMPLETED', 'ABORTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "upload_sessions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "original_name" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "total_size" INTEGER NOT NULL,
+    "chunk_size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "status" "UploadSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "video_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "upload_chunks" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "offset" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "upload_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_sessions_video_id_key" ON "upload_sessions"("video_id");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_user_id_idx" ON "upload_sessions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_status_expires_at_idx" ON "upload_sessions"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "upload_chunks_session_id_idx" ON "upload_chunks"("session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_chunks_session_id_index_key" ON "upload_chunks"("session_id", "index");
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_video_id_fkey" FOREIGN KEY ("video_id") REFERENCES "videos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_chunks" ADD CONSTRAINT "upload_chunks_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "upload_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Backfill: preferences created before audio description existed
+UPDATE "accessibility_preferences" AS p
+SET "audio_description" = true
+FROM "users" AS u
+WHERE u."id" = p."user_id"
+  AND u."disability_type" IN ('LOW_VISION', 'TUNANETRA');
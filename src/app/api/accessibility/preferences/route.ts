@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { updateAccessibilityPreferencesSchema } from "@/lib/validation";
+import accessibilityService from "@/services/accessibility.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Preferensi aksesibilitas user
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const preferences = await accessibilityService.getPreferences(user.userId);
+
+  return successResponse(
+    preferences,
+    "Accessibility preferences retrieved successfully"
+  );
+}
+
+// Ubah preferensi aksesibilitas
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(
+    updateAccessibilityPreferencesSchema,
+    body
+  );
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const data = validation.data;
+
+  const preferences = await accessibilityService.updatePreferences(
+    user.userId,
+    {
+      captions_enabled: data.captionsEnabled,
+      caption_language: data.captionLanguage,
+      font_scale: data.fontScale,
+      dyslexia_font: data.dyslexiaFont,
+      color_palette: data.colorPalette,
+      reduced_motion: data.reducedMotion,
+      autoplay: data.autoplay,
+      audio_description: data.audioDescription,
+    }
+  );
+
+  return successResponse(
+    preferences,
+    "Accessibility preferences updated successfully"
+  );
+}
+
+// Kembalikan ke default sesuai jenis disabilitas
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const preferences = await accessibilityService.resetPreferences(user.userId);
+
+  return successResponse(
+    preferences,
+    "Accessibility preferences reset to defaults"
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
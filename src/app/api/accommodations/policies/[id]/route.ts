@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import accommodationService from "@/services/accommodation.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Hapus kebijakan akomodasi
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await accommodationService.deletePolicy(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(result, "Accommodation policy deleted successfully");
+}
+
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
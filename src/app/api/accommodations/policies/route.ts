@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import {
+  accommodationPolicySchema,
+  accommodationPoliciesQuerySchema,
+} from "@/lib/validation";
+import accommodationService from "@/services/accommodation.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Kebijakan akomodasi default (admin), ?courseId= untuk override kursus
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { searchParams } = new URL(request.url);
+
+  // Validate input
+  const validation = await validateData(accommodationPoliciesQuerySchema, {
+    courseId: searchParams.get("courseId") || undefined,
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const policies = await accommodationService.getPolicies(
+    user.userId,
+    user.role,
+    validation.data.courseId
+  );
+
+  return successResponse(policies, "Accommodation policies retrieved");
+}
+
+// Simpan kebijakan per jenis disabilitas (tanpa courseId = default admin)
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(accommodationPolicySchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const policy = await accommodationService.upsertPolicy(
+    user.userId,
+    user.role,
+    {
+      disability_type: validation.data.disabilityType,
+      course_id: validation.data.courseId,
+      time_multiplier: validation.data.timeMultiplier,
+      extra_attempts: validation.data.extraAttempts,
+      deadline_extension_hours: validation.data.deadlineExtensionHours,
+    }
+  );
+
+  return successResponse(policy, "Accommodation policy saved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { reviewAccommodationSchema } from "@/lib/validation";
+import accommodationService from "@/services/accommodation.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Setujui atau tolak permintaan akomodasi (mentor kursus / admin)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(reviewAccommodationSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const result = await accommodationService.reviewRequest(
+    user.userId,
+    user.role,
+    id,
+    {
+      status: validation.data.status,
+      note: validation.data.note,
+      time_multiplier: validation.data.timeMultiplier,
+      extra_attempts: validation.data.extraAttempts,
+      deadline_extension_hours: validation.data.deadlineExtensionHours,
+    }
+  );
+
+  return successResponse(result, "Accommodation request reviewed");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { requestAccommodationSchema } from "@/lib/validation";
+import accommodationService from "@/services/accommodation.service";
+import {
+  successResponse,
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Daftar permintaan akomodasi milik user
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const requests = await accommodationService.getUserRequests(user.userId);
+
+  return successResponse(requests, "Accommodation requests retrieved");
+}
+
+// Ajukan akomodasi individual untuk satu kursus
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(requestAccommodationSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const accommodationRequest = await accommodationService.requestAccommodation(
+    user.userId,
+    validation.data.courseId,
+    {
+      reason: validation.data.reason,
+      time_multiplier: validation.data.timeMultiplier,
+      extra_attempts: validation.data.extraAttempts,
+      deadline_extension_hours: validation.data.deadlineExtensionHours,
+    }
+  );
+
+  return createdResponse(
+    accommodationRequest,
+    "Accommodation request submitted successfully"
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
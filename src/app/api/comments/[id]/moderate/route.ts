@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { moderateCommentSchema } from "@/lib/validation";
+import commentService from "@/services/comment.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Pin, sembunyikan, atau kunci thread (mentor kursus / admin)
+async function patchHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(moderateCommentSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const comment = await commentService.moderateComment(
+    id,
+    user.userId,
+    user.role,
+    {
+      is_pinned: validation.data.isPinned,
+      is_hidden: validation.data.isHidden,
+      is_locked: validation.data.isLocked,
+    }
+  );
+
+  return successResponse(comment, "Comment moderated successfully");
+}
+
+export const PATCH = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(patchHandler)))
+);
@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { updateCommentSchema } from "@/lib/validation";
+import commentService from "@/services/comment.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Edit komentar sendiri
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(updateCommentSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const comment = await commentService.updateComment(
+    id,
+    user.userId,
+    user.role,
+    validation.data.content
+  );
+
+  return successResponse(comment, "Comment updated successfully");
+}
+
+// Hapus komentar (penulis, mentor kursus, atau admin)
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await commentService.deleteComment(
+    id,
+    user.userId,
+    user.role
+  );
+
+  return successResponse(result, "Comment deleted successfully");
+}
+
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { createCommentSchema } from "@/lib/validation";
+import commentService from "@/services/comment.service";
+import {
+  paginatedResponse,
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData, validatePagination } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Daftar diskusi (thread) pada satu materi
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { searchParams } = new URL(request.url);
+  const materialId = searchParams.get("materialId");
+
+  if (!materialId) {
+    return errorResponse("materialId is required", HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const { page, limit } = validatePagination(
+    searchParams.get("page"),
+    searchParams.get("limit")
+  );
+
+  const result = await commentService.getMaterialComments(
+    user.userId,
+    user.role,
+    materialId,
+    { page, limit }
+  );
+
+  return paginatedResponse(
+    result.data,
+    result.meta,
+    "Comments retrieved successfully"
+  );
+}
+
+// Buat komentar atau balasan
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(createCommentSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const comment = await commentService.createComment(user.userId, user.role, {
+    material_id: validation.data.materialId,
+    content: validation.data.content,
+    parent_id: validation.data.parentId,
+  });
+
+  return createdResponse(comment, "Comment created successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import accessibilityAuditService from "@/services/accessibility-audit.service";
+import { successResponse, paginatedResponse } from "@/utils/response.util";
+import { validatePagination } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Jalankan audit aksesibilitas kursus (mentor/admin)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await accessibilityAuditService.auditCourse(
+    id,
+    user.userId,
+    user.role
+  );
+
+  return successResponse(result, "Accessibility audit completed");
+}
+
+// Riwayat audit aksesibilitas
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+  const { page, limit } = validatePagination(
+    searchParams.get("page"),
+    searchParams.get("limit")
+  );
+
+  const result = await accessibilityAuditService.getAuditHistory(
+    id,
+    user.userId,
+    user.role,
+    { page, limit }
+  );
+
+  return paginatedResponse(
+    result.data,
+    result.meta,
+    "Accessibility audits retrieved successfully"
+  );
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { accommodationRequestsQuerySchema } from "@/lib/validation";
+import accommodationService from "@/services/accommodation.service";
+import {
+  paginatedResponse,
+  validationErrorResponse,
+} from "@/utils/response.util";
+import { validateData, validatePagination } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Antrian permintaan akomodasi kursus (mentor kursus / admin)
+// ?status=PENDING|APPROVED|REJECTED, default PENDING
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  // Validate input
+  const validation = await validateData(accommodationRequestsQuerySchema, {
+    status: searchParams.get("status") || undefined,
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const { page, limit } = validatePagination(
+    searchParams.get("page"),
+    searchParams.get("limit")
+  );
+
+  const result = await accommodationService.getCourseRequests(
+    user.userId,
+    user.role,
+    id,
+    { status: validation.data.status, page, limit }
+  );
+
+  return paginatedResponse(
+    result.data,
+    result.meta,
+    "Accommodation requests retrieved"
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
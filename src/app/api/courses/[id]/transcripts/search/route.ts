@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { searchTranscriptsSchema } from "@/lib/validation";
+import transcriptService from "@/services/transcript.service";
+import {
+  paginatedResponse,
+  validationErrorResponse,
+} from "@/utils/response.util";
+import { validateData, validatePagination } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Cari teks di seluruh transkrip kursus (?q=)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  // Validate input
+  const validation = await validateData(searchTranscriptsSchema, {
+    q: searchParams.get("q"),
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const { page, limit } = validatePagination(
+    searchParams.get("page"),
+    searchParams.get("limit")
+  );
+
+  const result = await transcriptService.searchCourseTranscripts(
+    user.userId,
+    user.role,
+    id,
+    validation.data.q,
+    { page, limit }
+  );
+
+  return paginatedResponse(
+    result.data,
+    result.meta,
+    "Transcript matches retrieved successfully"
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
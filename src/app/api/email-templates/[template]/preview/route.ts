@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import emailTemplateService from "@/services/email-template.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Pratinjau template dengan data contoh (admin)
+// ?locale=id|en, ?format=html|text untuk melihat hasil mentah
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { template } = await context.params;
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format");
+
+  const email = await emailTemplateService.previewTemplate(
+    user.role,
+    template,
+    searchParams.get("locale") || undefined
+  );
+
+  if (format === "html" || format === "text") {
+    const isHtml = format === "html";
+
+    return new NextResponse(isHtml ? email.html : email.text, {
+      status: 200,
+      headers: {
+        "Content-Type": `text/${isHtml ? "html" : "plain"}; charset=utf-8`,
+        "Content-Language": email.locale,
+      },
+    });
+  }
+
+  return successResponse(email, "Email template rendered successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import emailTemplateService from "@/services/email-template.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Daftar template email dan bahasa yang tersedia (admin)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const templates = emailTemplateService.listTemplates(user.role);
+
+  return successResponse(templates, "Email templates retrieved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
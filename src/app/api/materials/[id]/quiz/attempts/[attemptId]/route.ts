@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import quizService from "@/services/quiz.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Hasil percobaan kuis yang sudah dinilai
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, attemptId } = await context.params;
+
+  const result = await quizService.getAttemptResult(
+    user.userId,
+    attemptId,
+    id
+  );
+
+  return successResponse(result, "Quiz result retrieved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { submitQuizAttemptSchema } from "@/lib/validation";
+import quizService from "@/services/quiz.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Kumpulkan jawaban kuis (dinilai di server)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, attemptId } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(submitQuizAttemptSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const result = await quizService.submitAttempt(
+    user.userId,
+    attemptId,
+    validation.data.answers.map((item) => ({
+      question_id: item.questionId,
+      answer: item.answer,
+    })),
+    id
+  );
+
+  return successResponse(result, "Quiz submitted successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
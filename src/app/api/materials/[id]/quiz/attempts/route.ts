@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import quizService from "@/services/quiz.service";
+import { successResponse, createdResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Riwayat percobaan kuis milik user
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const attempts = await quizService.getUserAttempts(user.userId, id);
+
+  return successResponse(attempts, "Quiz attempts retrieved successfully");
+}
+
+// Mulai percobaan kuis baru
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const attempt = await quizService.startAttempt(user.userId, id);
+
+  return createdResponse(attempt, "Quiz attempt started successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import quizService from "@/services/quiz.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Kuis lengkap dengan kunci jawaban (mentor kursus atau admin)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const quiz = await quizService.getQuizForManagement(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(quiz, "Quiz retrieved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
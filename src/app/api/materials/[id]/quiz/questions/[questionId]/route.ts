@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { updateQuizQuestionSchema } from "@/lib/validation";
+import quizService from "@/services/quiz.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Ubah soal kuis (mentor kursus atau admin)
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, questionId } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(updateQuizQuestionSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const question = await quizService.updateQuestion(
+    user.userId,
+    user.role,
+    questionId,
+    {
+      question: validation.data.question,
+      options: validation.data.options,
+      correct_answers: validation.data.correctAnswers,
+      explanation: validation.data.explanation,
+      points: validation.data.points,
+      order: validation.data.order,
+    },
+    id
+  );
+
+  return successResponse(question, "Question updated successfully");
+}
+
+// Hapus soal kuis
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, questionId } = await context.params;
+
+  const result = await quizService.deleteQuestion(
+    user.userId,
+    user.role,
+    questionId,
+    id
+  );
+
+  return successResponse(result, "Question deleted successfully");
+}
+
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
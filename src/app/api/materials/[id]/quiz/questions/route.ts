@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { createQuizQuestionSchema } from "@/lib/validation";
+import quizService from "@/services/quiz.service";
+import {
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Tambah soal ke bank soal kuis (mentor kursus atau admin)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(createQuizQuestionSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const question = await quizService.addQuestion(user.userId, user.role, id, {
+    type: validation.data.type,
+    question: validation.data.question,
+    options: validation.data.options,
+    correct_answers: validation.data.correctAnswers,
+    explanation: validation.data.explanation,
+    points: validation.data.points,
+    order: validation.data.order,
+  });
+
+  return createdResponse(question, "Question added successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
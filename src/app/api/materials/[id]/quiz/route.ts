@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import { quizSettingsSchema } from "@/lib/validation";
+import quizService from "@/services/quiz.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Kuis untuk siswa (tanpa kunci jawaban)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const quiz = await quizService.getQuizForStudent(user.userId, id);
+
+  return successResponse(quiz, "Quiz retrieved successfully");
+}
+
+// Simpan pengaturan kuis (mentor kursus atau admin)
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(quizSettingsSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const quiz = await quizService.upsertQuizSettings(
+    user.userId,
+    user.role,
+    id,
+    {
+      pass_mark: validation.data.passMark,
+      time_limit: validation.data.timeLimit,
+      max_attempts: validation.data.maxAttempts,
+      shuffle_questions: validation.data.shuffleQuestions,
+      shuffle_options: validation.data.shuffleOptions,
+      show_correct_answers: validation.data.showCorrectAnswers,
+      allow_time_extension: validation.data.allowTimeExtension,
+    }
+  );
+
+  return successResponse(quiz, "Quiz settings saved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
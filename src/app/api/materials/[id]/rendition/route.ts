@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { materialRenditionSchema } from "@/lib/validation";
+import documentRenditionService from "@/services/document-rendition.service";
+import {
+  successResponse,
+  validationErrorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Konten materi (easy-read otomatis untuk disleksia/kognitif)
+// ?format=STANDARD|EASY_READ untuk override, ?lineSpacing= spasi baris
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  // Validate input
+  const validation = await validateData(materialRenditionSchema, {
+    format: searchParams.get("format") || undefined,
+    lineSpacing: searchParams.get("lineSpacing") || undefined,
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const rendition = await documentRenditionService.getMaterialRendition(
+    user.userId,
+    user.role,
+    id,
+    {
+      format: validation.data.format,
+      line_spacing: validation.data.lineSpacing,
+    }
+  );
+
+  return successResponse(rendition, "Material retrieved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
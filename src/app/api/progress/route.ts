@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { updateProgressSchema } from "@/lib/validation";
+import progressService from "@/services/progress.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Simpan posisi video / tandai materi selesai
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(updateProgressSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const { materialId, watchedDuration, lastPosition, isCompleted } =
+    validation.data;
+
+  const result = await progressService.updateProgress(user.userId, {
+    material_id: materialId,
+    watched_duration: watchedDuration,
+    last_position: lastPosition,
+    is_completed: isCompleted,
+  });
+
+  return successResponse(result, "Progress updated successfully");
+}
+
+// Progres user pada satu kursus
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { searchParams } = new URL(request.url);
+  const courseId = searchParams.get("courseId");
+
+  if (!courseId) {
+    return errorResponse("courseId is required", HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const result = await progressService.getCourseProgress(
+    user.userId,
+    courseId
+  );
+
+  return successResponse(result, "Progress retrieved successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { createTransactionSchema } from "@/lib/validation";
+import transactionService from "@/services/transaction.service";
+import {
+  successResponse,
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData, validatePagination } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Checkout: buat transaksi PENDING dan kembalikan Snap token
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(createTransactionSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const result = await transactionService.checkout(
+    user.userId,
+    validation.data
+  );
+
+  return createdResponse(result, "Checkout created successfully");
+}
+
+// Riwayat transaksi user
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { searchParams } = new URL(request.url);
+  const { page, limit } = validatePagination(
+    searchParams.get("page"),
+    searchParams.get("limit")
+  );
+
+  const result = await transactionService.getUserTransactions(user.userId, {
+    page,
+    limit,
+    status: searchParams.get("status") || undefined,
+  });
+
+  return successResponse(result, "Transactions retrieved successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
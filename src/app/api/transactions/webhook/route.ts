@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import transactionService from "@/services/transaction.service";
+import { successResponse, errorResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Midtrans HTTP notification (server-to-server, diverifikasi lewat signature)
+async function handler(request: NextRequest) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  const result = await transactionService.handlePaymentNotification(body);
+
+  return successResponse(result, "Notification processed");
+}
+
+export const POST = errorHandler(loggingMiddleware(handler));
@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import videoUploadService from "@/services/video-upload.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Gabungkan chunk, verifikasi checksum, buat video dan masukkan ke antrian
+// processing. Aman dipanggil ulang bila antrian sempat gagal.
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const video = await videoUploadService.completeUpload(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(
+    video,
+    "Upload completed, video queued for processing",
+    HTTP_STATUS.ACCEPTED
+  );
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import videoUploadService from "@/services/video-upload.service";
+import { videoConfig } from "@/config/video.config";
+import { successResponse, errorResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Status sesi upload: rentang byte yang sudah diterima dan offset berikutnya
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const status = await videoUploadService.getUploadStatus(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(status, "Upload status retrieved");
+}
+
+// Kirim satu chunk (body biner) dengan header
+// Content-Range: bytes <start>-<end>/<total>
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Without Content-Length the size guard cannot run before reading
+  const header = request.headers.get("content-length");
+  if (!header) {
+    return errorResponse(
+      "Content-Length header is required",
+      HTTP_STATUS.LENGTH_REQUIRED
+    );
+  }
+
+  const length = Number(header);
+  if (!Number.isInteger(length) || length < 0) {
+    return errorResponse("Invalid Content-Length", HTTP_STATUS.BAD_REQUEST);
+  }
+
+  if (length > videoConfig.upload.chunkSize) {
+    return errorResponse(
+      `Chunk too large. Max chunk size: ${videoConfig.upload.chunkSize} bytes`,
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+
+  const status = await videoUploadService.uploadChunk(
+    user.userId,
+    user.role,
+    id,
+    request.headers.get("content-range"),
+    data
+  );
+
+  return successResponse(status, "Chunk uploaded");
+}
+
+// Batalkan upload dan hapus chunk yang sudah diterima
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await videoUploadService.abortUpload(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(result, "Upload aborted");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { initiateVideoUploadSchema } from "@/lib/validation";
+import videoUploadService from "@/services/video-upload.service";
+import {
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Mulai sesi upload video bertahap (resumable, per chunk)
+// checksum = SHA-256 (hex) file utuh, diverifikasi saat complete
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(initiateVideoUploadSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const session = await videoUploadService.initiateUpload(
+    user.userId,
+    user.role,
+    {
+      filename: validation.data.filename,
+      mime_type: validation.data.mimeType,
+      size: validation.data.size,
+      checksum: validation.data.checksum,
+    }
+  );
+
+  return createdResponse(session, "Upload session created");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
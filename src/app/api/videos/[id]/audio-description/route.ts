@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { videoVariantSchema } from "@/lib/validation";
+import audioDescriptionService from "@/services/audio-description.service";
+import streamingService from "@/services/streaming.service";
+import { parseMultipartUpload, removeUploadedFile } from "@/lib/upload";
+import { videoConfig } from "@/config/video.config";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Daftar varian video (standar / audio deskripsi), ?variant= untuk override
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  // Validate input
+  const validation = await validateData(videoVariantSchema, {
+    variant: searchParams.get("variant") || undefined,
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const variants = await streamingService.getVideoVariants(
+    id,
+    user.userId,
+    validation.data.variant
+  );
+
+  return successResponse(variants, "Video variants retrieved successfully");
+}
+
+// Unggah audio deskripsi (multipart: file audio atau video bernarasi)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Streamed to a temp file, the service moves it into place
+  const { file } = await parseMultipartUpload(request, {
+    maxFileSize: videoConfig.audioDescription.maxFileSize,
+    storage: "disk",
+  });
+  if (!file) {
+    return errorResponse(
+      "Audio description file is required",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  let result;
+  try {
+    result = await audioDescriptionService.uploadAudioDescription(
+      user.userId,
+      user.role,
+      id,
+      file
+    );
+  } finally {
+    await removeUploadedFile(file);
+  }
+
+  return successResponse(
+    result,
+    "Audio description processing started",
+    HTTP_STATUS.ACCEPTED
+  );
+}
+
+// Hapus varian audio deskripsi
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await audioDescriptionService.removeAudioDescription(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(result, "Audio description removed successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
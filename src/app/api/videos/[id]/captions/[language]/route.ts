@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import captionService from "@/services/caption.service";
+import streamingService from "@/services/streaming.service";
+import courseAccessService from "@/services/course-access.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Kirim file WebVTT untuk elemen <track>
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, language } = await context.params;
+
+  await courseAccessService.getAccessibleVideo(id, user.userId, user.role);
+  const track = await streamingService.getCaptionTrack(id, language);
+
+  return new NextResponse(track.content, {
+    status: 200,
+    headers: track.headers,
+  });
+}
+
+// Hapus track caption
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id, language } = await context.params;
+
+  const result = await captionService.deleteCaption(
+    user.userId,
+    user.role,
+    id,
+    language
+  );
+
+  return successResponse(result, "Caption deleted successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { uploadCaptionSchema } from "@/lib/validation";
+import captionService from "@/services/caption.service";
+import streamingService from "@/services/streaming.service";
+import courseAccessService from "@/services/course-access.service";
+import { parseMultipartUpload } from "@/lib/upload";
+import { videoConfig } from "@/config/video.config";
+import {
+  successResponse,
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Daftar track caption untuk player
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  await courseAccessService.getAccessibleVideo(id, user.userId, user.role);
+  const tracks = await streamingService.getCaptionTracks(id, user.userId);
+
+  return successResponse(tracks, "Captions retrieved successfully");
+}
+
+// Unggah caption SRT/WebVTT (multipart: file, language, label, isDefault)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const { file, fields } = await parseMultipartUpload(request, {
+    maxFileSize: videoConfig.captions.maxFileSize,
+  });
+  if (!file) {
+    return errorResponse("Caption file is required", HTTP_STATUS.BAD_REQUEST);
+  }
+
+  // Validate input
+  const validation = await validateData(uploadCaptionSchema, {
+    language: fields.language,
+    label: fields.label || undefined,
+    isDefault:
+      fields.isDefault === undefined ? undefined : fields.isDefault === "true",
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const { language, label, isDefault: is_default } = validation.data;
+
+  const caption = await captionService.uploadCaption(
+    user.userId,
+    user.role,
+    id,
+    file,
+    { language, label, is_default }
+  );
+
+  return createdResponse(caption, "Caption uploaded successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { updateVideoChaptersSchema } from "@/lib/validation";
+import videoChapterService from "@/services/video-chapter.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Daftar chapter video (termasuk saran otomatis)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const chapters = await videoChapterService.getChapters(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(chapters, "Chapters retrieved successfully");
+}
+
+// Ganti seluruh chapter (judul dan waktu mulai dalam detik)
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(updateVideoChaptersSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const chapters = await videoChapterService.replaceChapters(
+    user.userId,
+    user.role,
+    id,
+    validation.data.chapters.map((chapter) => ({
+      title: chapter.title,
+      start_time: chapter.startTime,
+    }))
+  );
+
+  return successResponse(chapters, "Chapters saved successfully");
+}
+
+// Hapus semua chapter
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await videoChapterService.deleteChapters(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(result, "Chapters deleted successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
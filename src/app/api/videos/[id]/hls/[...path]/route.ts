@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import streamingService from "@/services/streaming.service";
+import { NotFoundError } from "@/utils/error.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Playlist HLS (master.m3u8, {kualitas}/index.m3u8) dan segmen .ts
+// ?token= ditambahkan ke setiap URI di playlist agar segmen ikut divalidasi
+async function getHandler(
+  request: NextRequest,
+  context?: { params: Promise<{ id: string; path: string[] }> }
+) {
+  const params = await context?.params;
+  if (!params) throw new NotFoundError("HLS file not found");
+  const { id, path } = params;
+  const token = new URL(request.url).searchParams.get("token");
+
+  await streamingService.verifyStreamAccess(id, token, "hls");
+
+  const info = await streamingService.getHlsFile(
+    id,
+    path.join("/"),
+    token ?? undefined
+  );
+
+  return new NextResponse(
+    Readable.toWeb(info.stream) as ReadableStream<Uint8Array>,
+    {
+      status: 200,
+      headers: streamingService.getHlsResponse(info),
+    }
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(getHandler))
+);
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import videoChapterService from "@/services/video-chapter.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Data player: chapter, posisi lanjut tonton, caption dan transkrip interaktif
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const player = await videoChapterService.getPlayerData(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(player, "Player data retrieved successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
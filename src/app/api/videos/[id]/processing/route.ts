@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import videoService from "@/services/video.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Status processing video: progress per kualitas, percobaan, dan error job
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const status = await videoService.getProcessingStatus(
+    id,
+    user.userId,
+    user.role
+  );
+
+  return successResponse(status, "Processing status retrieved");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
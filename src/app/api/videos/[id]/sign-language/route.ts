@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import signLanguageService from "@/services/sign-language.service";
+import { parseMultipartUpload, removeUploadedFile } from "@/lib/upload";
+import { videoConfig } from "@/config/video.config";
+import { successResponse, errorResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Unggah video juru bahasa isyarat (multipart: file)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Streamed to a temp file, the service moves it into place
+  const { file } = await parseMultipartUpload(request, {
+    maxFileSize: videoConfig.signLanguage.maxFileSize,
+    storage: "disk",
+  });
+  if (!file) {
+    return errorResponse(
+      "Interpreter video file is required",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  let result;
+  try {
+    result = await signLanguageService.uploadInterpreterVideo(
+      user.userId,
+      user.role,
+      id,
+      file
+    );
+  } finally {
+    await removeUploadedFile(file);
+  }
+
+  return successResponse(
+    result,
+    "Sign-language overlay processing started",
+    HTTP_STATUS.ACCEPTED
+  );
+}
+
+// Hapus varian overlay bahasa isyarat
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const result = await signLanguageService.removeSignLanguage(
+    user.userId,
+    user.role,
+    id
+  );
+
+  return successResponse(result, "Sign-language overlay removed successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
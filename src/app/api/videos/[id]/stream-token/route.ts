@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { streamTokenSchema } from "@/lib/validation";
+import streamingService from "@/services/streaming.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Terbitkan URL stream bertanda tangan yang berlaku singkat
+// (peserta terdaftar, materi gratis, mentor kursus atau admin).
+// Tanpa format: HLS bila tersedia, selain itu MP4.
+// Kirim streamId lama saat memperbarui token agar tidak dihitung dua kali.
+// Hanya streamId yang masih aktif dipakai ulang; token lama tidak berlaku.
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(streamTokenSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const stream = await streamingService.issueStreamToken(
+    id,
+    user.userId,
+    user.role,
+    {
+      format: validation.data.format,
+      quality: validation.data.quality,
+      variant: validation.data.variant,
+      streamId: validation.data.streamId,
+    }
+  );
+
+  return successResponse(stream, "Stream URL issued");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
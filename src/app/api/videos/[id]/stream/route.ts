@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import streamingService from "@/services/streaming.service";
+import type { VideoQuality } from "@/types/video.types";
+import { NotFoundError } from "@/utils/error.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Streaming MP4 dengan dukungan Range (fallback bila HLS tidak tersedia)
+// ?token= dari /stream-token atau data player; token menentukan kualitas
+// dan varian, divalidasi pada setiap request Range
+async function getHandler(
+  request: NextRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  const params = await context?.params;
+  if (!params) throw new NotFoundError("Video not found");
+  const { id } = params;
+  const { searchParams } = new URL(request.url);
+
+  const stream = await streamingService.verifyStreamAccess(
+    id,
+    searchParams.get("token"),
+    "mp4"
+  );
+
+  const info = await streamingService.streamVideo(
+    id,
+    stream.quality as VideoQuality,
+    request.headers.get("range") || undefined,
+    stream.variant
+  );
+  const { headers, statusCode } = streamingService.getStreamResponse(info);
+
+  return new NextResponse(
+    Readable.toWeb(info.stream) as ReadableStream<Uint8Array>,
+    {
+      status: statusCode,
+      headers: Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key, String(value)])
+      ),
+    }
+  );
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(getHandler))
+);
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { importTranscriptSchema } from "@/lib/validation";
+import transcriptService from "@/services/transcript.service";
+import { parseMultipartUpload } from "@/lib/upload";
+import { videoConfig } from "@/config/video.config";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Impor transkrip dari file SRT/WebVTT (multipart: file, language)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  const { file, fields } = await parseMultipartUpload(request, {
+    maxFileSize: videoConfig.captions.maxFileSize,
+  });
+  if (!file) {
+    return errorResponse(
+      "Transcript file is required",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(importTranscriptSchema, {
+    language: fields.language,
+  });
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const transcript = await transcriptService.importTranscript(
+    user.userId,
+    user.role,
+    id,
+    validation.data.language,
+    file
+  );
+
+  return successResponse(transcript, "Transcript imported successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
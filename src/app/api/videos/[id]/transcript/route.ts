@@ -0,0 +1,153 @@
+import { NextRequest } from "next/server";
+import {
+  generateTranscriptSchema,
+  updateTranscriptSchema,
+} from "@/lib/validation";
+import transcriptService from "@/services/transcript.service";
+import courseAccessService from "@/services/course-access.service";
+import {
+  successResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Ambil transkrip video (?language=)
+async function getHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  await courseAccessService.getAccessibleVideo(id, user.userId, user.role);
+  const transcript = await transcriptService.getTranscript(
+    id,
+    searchParams.get("language") || undefined
+  );
+
+  return successResponse(transcript, "Transcript retrieved successfully");
+}
+
+// Mulai transkripsi otomatis
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Body opsional
+  let body = {};
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(generateTranscriptSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const transcript = await transcriptService.generateTranscript(
+    user.userId,
+    user.role,
+    id,
+    validation.data.language
+  );
+
+  return successResponse(
+    transcript,
+    "Transcription started",
+    HTTP_STATUS.ACCEPTED
+  );
+}
+
+// Simpan hasil edit transkrip oleh mentor
+async function putHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+
+  // Parse request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(updateTranscriptSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const transcript = await transcriptService.updateTranscript(
+    user.userId,
+    user.role,
+    id,
+    validation.data.language,
+    validation.data.segments
+  );
+
+  return successResponse(transcript, "Transcript updated successfully");
+}
+
+// Hapus transkrip (?language=)
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+  const language = searchParams.get("language");
+
+  if (!language) {
+    return errorResponse("language is required", HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const result = await transcriptService.deleteTranscript(
+    user.userId,
+    user.role,
+    id,
+    language
+  );
+
+  return successResponse(result, "Transcript deleted successfully");
+}
+
+export const GET = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(getHandler)))
+);
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
+export const PUT = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(putHandler)))
+);
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { enrollFromWishlistSchema } from "@/lib/validation";
+import wishlistService from "@/services/wishlist.service";
+import {
+  successResponse,
+  createdResponse,
+  validationErrorResponse,
+  errorResponse,
+} from "@/utils/response.util";
+import { validateData } from "@/utils/validation.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+import { HTTP_STATUS } from "@/lib/constants";
+
+// Enroll langsung dari wishlist (gratis) atau mulai checkout (berbayar)
+async function postHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { courseId } = await context.params;
+
+  // Body opsional untuk kursus gratis
+  let body = {};
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return errorResponse(
+      "Invalid JSON in request body",
+      HTTP_STATUS.BAD_REQUEST
+    );
+  }
+
+  // Validate input
+  const validation = await validateData(enrollFromWishlistSchema, body);
+  if (!validation.success) {
+    return validationErrorResponse(validation.errors);
+  }
+
+  const result = await wishlistService.enrollFromWishlist(
+    user.userId,
+    courseId,
+    validation.data
+  );
+
+  if (result.enrolled) {
+    return createdResponse(result, "Enrolled successfully");
+  }
+
+  return successResponse(result, "Checkout created successfully");
+}
+
+export const POST = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(postHandler)))
+);
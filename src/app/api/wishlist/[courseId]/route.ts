@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import wishlistService from "@/services/wishlist.service";
+import { successResponse } from "@/utils/response.util";
+import { errorHandler } from "@/middlewares/error.middleware";
+import {
+  requireAuth,
+  AuthHandlerContext,
+  AuthenticatedUser,
+} from "@/middlewares/auth.middleware";
+import { corsMiddleware } from "@/middlewares/cors.middleware";
+import { loggingMiddleware } from "@/middlewares/logging.middleware";
+
+// Hapus kursus dari wishlist
+async function deleteHandler(
+  request: NextRequest,
+  context: AuthHandlerContext,
+  user: AuthenticatedUser
+) {
+  const { courseId } = await context.params;
+
+  const result = await wishlistService.removeFromWishlist(
+    user.userId,
+    courseId
+  );
+
+  return successResponse(result, "Course removed from wishlist");
+}
+
+export const DELETE = errorHandler(
+  loggingMiddleware(corsMiddleware(requireAuth(deleteHandler)))
+);
@@ -22,10 +22,24 @@ export const emailConfig = {
     address: 'support@lmsplatform.com',
   },
 
-  // Email Templates Path
+  // Email Templates Path ({locale}/{template}.html + layout.html)
   templates: {
     path: './src/templates/emails',
-    engine: 'handlebars',
+    engine: 'builtin', // {{var}} escaped, {{{var}}} raw, {{#if var}}...{{/if}}
+    locales: ['id', 'en'],
+    defaultLocale: 'en',
+    cache: process.env.NODE_ENV === 'production',
+    // Palette checked against WCAG AA contrast (4.5:1)
+    theme: {
+      text: '#1F2937',
+      muted: '#4B5563',
+      background: '#FFFFFF',
+      pageBackground: '#F3F4F6',
+      primary: '#4338CA',
+      primaryText: '#FFFFFF',
+      noticeBackground: '#FEF3C7',
+      noticeText: '#78350F',
+    },
   },
 
   // Email Queue Settings
@@ -61,6 +61,13 @@ export const paymentConfig = {
     adminApprovalRequired: true,
   },
 
+  // Mentor Payout Settings
+  payout: {
+    minimumAmount: 100000, // 100,000 IDR
+    holdDays: 7, // Earnings available after refund window closes
+    batchTimeout: 30000, // Max duration of the payout batch transaction (ms)
+  },
+
   // Security
   security: {
     enableSignature: true,
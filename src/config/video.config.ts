@@ -4,7 +4,12 @@ export const videoConfig = {
     enabled: true,
     autoProcess: true,
     maxConcurrent: 2, // Process max 2 videos at a time
-    timeout: 10 * 60 * 1000, // 10 minutes
+    timeout: 10 * 60 * 1000, // 10 minutes without progress = stuck
+    attempts: 3, // Retries on failure (exponential backoff)
+    backoffDelay: 60 * 1000, // 1 minute, doubled on each retry
+    recoveryInterval: 5 * 60 * 1000, // Check for stuck videos every 5 minutes
+    progressInterval: 5 * 1000, // Persist progress at most every 5 seconds
+    workerEnabled: process.env.VIDEO_WORKER_ENABLED !== 'false',
   },
 
   // Video Resolutions
@@ -74,6 +79,48 @@ export const videoConfig = {
     times: [10, 50, 90], // 10%, 50%, 90% of video duration
   },
 
+  // Caption Settings (SRT/WebVTT, served as WebVTT)
+  captions: {
+    maxFileSize: 2 * 1024 * 1024, // 2MB
+    allowedFormats: ['srt', 'vtt'],
+    directory: 'videos/captions',
+    requiredForPublish: false, // true = block publishing when captions are missing
+  },
+
+  // Audio Description Settings
+  audioDescription: {
+    maxFileSize: 500 * 1024 * 1024, // 500MB (full video upload)
+    allowedAudioFormats: ['mp3', 'm4a', 'aac', 'wav'],
+  },
+
+  // Sign Language Overlay Settings (picture-in-picture interpreter)
+  signLanguage: {
+    maxFileSize: 500 * 1024 * 1024, // 500MB
+    position: 'bottomright', // topleft, topright, bottomleft, bottomright
+    scale: 0.3, // Overlay width relative to the video width
+  },
+
+  // Chapter Settings (jump targets for keyboard/switch users)
+  chapters: {
+    maxChapters: 50,
+    minLength: 5, // seconds between chapter starts
+    restartThreshold: 10, // seconds before the end treated as finished
+  },
+
+  // Transcription Settings (local offline engine by default)
+  transcription: {
+    enabled: true,
+    engine: 'whisper', // whisper = whisper.cpp CLI, none = import only
+    defaultLanguage: 'id',
+    sampleRate: 16000, // whisper.cpp expects 16kHz mono WAV
+    timeout: 30 * 60 * 1000, // 30 minutes
+    whisper: {
+      binary: 'whisper-cli',
+      model: 'models/ggml-base.bin',
+      threads: 2,
+    },
+  },
+
   // Quality Settings
   quality: {
     default: '720p',
@@ -89,9 +136,24 @@ export const videoConfig = {
 
     // HLS Settings (for adaptive streaming)
     hls: {
-      enabled: false,
-      segmentDuration: 10, // seconds
+      enabled: true,
+      segmentDuration: 6, // seconds, short segments switch faster on mobile
       playlistType: 'vod',
+      directory: 'videos/hls',
+      masterPlaylist: 'master.m3u8',
+    },
+
+    // Signed stream URLs (<video> and HLS players cannot send auth headers)
+    token: {
+      secret:
+        process.env.STREAM_TOKEN_SECRET ||
+        process.env.JWT_ACCESS_SECRET ||
+        'dev-stream-secret',
+      expiresIn: 15 * 60, // seconds, the player requests a new token before expiry
+      maxConcurrentStreams: parseInt(process.env.STREAM_MAX_CONCURRENT || '0', 10), // 0 = unlimited
+      leaseDuration: 60, // seconds a stream stays active after its last request
+      redisTimeout: 2000, // ms to wait for Redis before lease checks give up
+      failOpen: process.env.STREAM_LEASE_FAIL_OPEN === 'true', // serve unchecked while Redis is down
     },
   },
 
@@ -100,6 +162,16 @@ export const videoConfig = {
     chunkSize: 5 * 1024 * 1024, // 5MB chunks for resumable upload
     maxFileSize: 500 * 1024 * 1024, // 500MB max
     allowedFormats: ['mp4', 'webm', 'ogg', 'mov', 'avi'],
+    allowedMimeTypes: [
+      'video/mp4',
+      'video/webm',
+      'video/ogg',
+      'video/quicktime',
+      'video/x-msvideo',
+    ],
+    sessionTtl: 24 * 60 * 60 * 1000, // Unfinished sessions expire after 24 hours
+    assemblyTimeout: 30 * 60 * 1000, // ASSEMBLING longer than this was interrupted
+    chunkDirectory: 'videos/temp/uploads', // One subdirectory per session
   },
 
   // Storage Settings
@@ -0,0 +1,15 @@
+import { videoConfig } from "@/config/video.config";
+
+/**
+ * Next.js server startup hook
+ * Starts the background video worker in the Node.js runtime
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    videoConfig.processing.workerEnabled
+  ) {
+    const { startVideoWorker } = await import("@/workers/video.worker");
+    startVideoWorker();
+  }
+}
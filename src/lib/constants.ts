@@ -18,6 +18,33 @@ export const USER_STATUS = {
   INACTIVE: 'INACTIVE',
 } as const;
 
+// Disability Types
+export const DISABILITY_TYPE = {
+  BUTA_WARNA: 'BUTA_WARNA',
+  DISLEKSIA: 'DISLEKSIA',
+  KOGNITIF: 'KOGNITIF',
+  LOW_VISION: 'LOW_VISION',
+  MENTOR: 'MENTOR',
+  MOTORIK: 'MOTORIK',
+  TUNANETRA: 'TUNANETRA',
+  TUNARUNGU: 'TUNARUNGU',
+} as const;
+
+// Color Palettes
+export const COLOR_PALETTE = {
+  DEFAULT: 'DEFAULT',
+  HIGH_CONTRAST: 'HIGH_CONTRAST',
+  COLOR_BLIND: 'COLOR_BLIND',
+} as const;
+
+// Accessibility Badges
+export const ACCESSIBILITY_BADGE = {
+  FULLY_CAPTIONED: 'FULLY_CAPTIONED',
+  TRANSCRIPTS_AVAILABLE: 'TRANSCRIPTS_AVAILABLE',
+  SCREEN_READER_FRIENDLY: 'SCREEN_READER_FRIENDLY',
+  FLEXIBLE_TIMING: 'FLEXIBLE_TIMING',
+} as const;
+
 // Mentor Status
 export const MENTOR_STATUS = {
   PENDING: 'PENDING',
@@ -49,6 +76,48 @@ export const MATERIAL_TYPE = {
   ASSIGNMENT: 'ASSIGNMENT',
 } as const;
 
+// Material Renditions
+export const MATERIAL_RENDITION = {
+  STANDARD: 'STANDARD',
+  EASY_READ: 'EASY_READ',
+} as const;
+
+// Quiz Question Types
+export const QUESTION_TYPE = {
+  SINGLE_CHOICE: 'SINGLE_CHOICE',
+  MULTIPLE_CHOICE: 'MULTIPLE_CHOICE',
+  TRUE_FALSE: 'TRUE_FALSE',
+  SHORT_ANSWER: 'SHORT_ANSWER',
+} as const;
+
+// Quiz Attempt Status
+export const QUIZ_ATTEMPT_STATUS = {
+  IN_PROGRESS: 'IN_PROGRESS',
+  SUBMITTED: 'SUBMITTED',
+  EXPIRED: 'EXPIRED',
+} as const;
+
+// Assignment Submission Status
+export const ASSIGNMENT_SUBMISSION_STATUS = {
+  SUBMITTED: 'SUBMITTED',
+  GRADED: 'GRADED',
+} as const;
+
+// Accommodation Request Status
+export const ACCOMMODATION_REQUEST_STATUS = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+} as const;
+
+// Accommodation Sources (most specific first)
+export const ACCOMMODATION_SOURCE = {
+  INDIVIDUAL: 'INDIVIDUAL',
+  COURSE_POLICY: 'COURSE_POLICY',
+  DEFAULT_POLICY: 'DEFAULT_POLICY',
+  PREFERENCE: 'PREFERENCE',
+} as const;
+
 // Video Status
 export const VIDEO_STATUS = {
   UPLOADING: 'UPLOADING',
@@ -57,6 +126,29 @@ export const VIDEO_STATUS = {
   FAILED: 'FAILED',
 } as const;
 
+// Upload Session Status (resumable chunked upload)
+export const UPLOAD_SESSION_STATUS = {
+  ACTIVE: 'ACTIVE',
+  ASSEMBLING: 'ASSEMBLING',
+  COMPLETED: 'COMPLETED',
+  ABORTED: 'ABORTED',
+  EXPIRED: 'EXPIRED',
+} as const;
+
+// Transcript Status
+export const TRANSCRIPT_STATUS = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+} as const;
+
+// Transcript Sources
+export const TRANSCRIPT_SOURCE = {
+  GENERATED: 'GENERATED',
+  IMPORTED: 'IMPORTED',
+} as const;
+
 // Video Quality
 export const VIDEO_QUALITY = {
   Q360P: '360p',
@@ -65,6 +157,13 @@ export const VIDEO_QUALITY = {
   Q1080P: '1080p',
 } as const;
 
+// Video Variant
+export const VIDEO_VARIANT = {
+  STANDARD: 'STANDARD',
+  AUDIO_DESCRIPTION: 'AUDIO_DESCRIPTION',
+  SIGN_LANGUAGE: 'SIGN_LANGUAGE',
+} as const;
+
 // Transaction Status
 export const TRANSACTION_STATUS = {
   PENDING: 'PENDING',
@@ -74,6 +173,37 @@ export const TRANSACTION_STATUS = {
   CANCELLED: 'CANCELLED',
 } as const;
 
+// Refund Request Status
+export const REFUND_STATUS = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  FAILED: 'FAILED',
+} as const;
+
+// Mentor Ledger Entry Types
+export const LEDGER_ENTRY_TYPE = {
+  SALE: 'SALE',
+  REFUND: 'REFUND',
+  HOLD: 'HOLD',
+  HOLD_RELEASE: 'HOLD_RELEASE',
+  PAYOUT: 'PAYOUT',
+  PAYOUT_REVERSAL: 'PAYOUT_REVERSAL',
+} as const;
+
+// Mentor Payout Status
+export const PAYOUT_STATUS = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+// Coupon Types
+export const COUPON_TYPE = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED: 'FIXED',
+} as const;
+
 // Payment Methods
 export const PAYMENT_METHOD = {
   CREDIT_CARD: 'CREDIT_CARD',
@@ -109,6 +239,8 @@ export const NOTIFICATION_TYPE = {
   MENTOR_APPROVED: 'MENTOR_APPROVED',
   MENTOR_REJECTED: 'MENTOR_REJECTED',
   SYSTEM_ANNOUNCEMENT: 'SYSTEM_ANNOUNCEMENT',
+  ASSIGNMENT_GRADED: 'ASSIGNMENT_GRADED',
+  ACCOMMODATION_REVIEWED: 'ACCOMMODATION_REVIEWED',
 } as const;
 
 // Notification Status
@@ -200,6 +332,7 @@ export const EMAIL_TEMPLATES = {
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
+  ACCEPTED: 202,
   NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
@@ -211,6 +344,8 @@ export const HTTP_STATUS = {
   INTERNAL_SERVER_ERROR: 500,
   SERVICE_UNAVAILABLE: 503,
   PAYMENT_REQUIRED: 402,
+  LENGTH_REQUIRED: 411,
+  PAYLOAD_TOO_LARGE: 413,
 } as const;
 
 // Error Messages
@@ -334,6 +469,7 @@ export const REGEX_PATTERNS = {
   PHONE: /^\+?[1-9]\d{1,14}$/,
   URL: /^(https?:\/\/)?([\da-z\.-]+)\.([a-z\.]{2,6})([\/\w \.-]*)*\/?$/,
   SLUG: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  LANGUAGE_CODE: /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, // BCP-47, e.g. id, en-US
 } as const;
 
 // Date Formats
@@ -350,13 +486,30 @@ const allConstants = {
   APP_CONSTANTS,
   USER_ROLES,
   USER_STATUS,
+  DISABILITY_TYPE,
+  COLOR_PALETTE,
+  ACCESSIBILITY_BADGE,
   MENTOR_STATUS,
   COURSE_STATUS,
   COURSE_LEVEL,
   MATERIAL_TYPE,
+  MATERIAL_RENDITION,
+  QUESTION_TYPE,
+  QUIZ_ATTEMPT_STATUS,
+  ASSIGNMENT_SUBMISSION_STATUS,
+  ACCOMMODATION_REQUEST_STATUS,
+  ACCOMMODATION_SOURCE,
   VIDEO_STATUS,
+  UPLOAD_SESSION_STATUS,
+  TRANSCRIPT_STATUS,
+  TRANSCRIPT_SOURCE,
   VIDEO_QUALITY,
+  VIDEO_VARIANT,
   TRANSACTION_STATUS,
+  REFUND_STATUS,
+  LEDGER_ENTRY_TYPE,
+  PAYOUT_STATUS,
+  COUPON_TYPE,
   PAYMENT_METHOD,
   ENROLLMENT_STATUS,
   CERTIFICATE_STATUS,
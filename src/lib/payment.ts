@@ -1,4 +1,5 @@
 import axios from "axios";
+import crypto from "crypto";
 import { paymentConfig } from "@/config/payment.config";
 import { generateOrderId } from "@/utils/crypto.util";
 
@@ -26,6 +27,7 @@ interface PaymentNotification {
   orderId: string;
   transactionStatus: string;
   fraudStatus?: string;
+  statusCode?: string;
   grossAmount: string;
   paymentType?: string;
   transactionTime?: string;
@@ -135,20 +137,25 @@ export class MidtransPayment {
   async verifyNotification(
     notification: PaymentNotification
   ): Promise<boolean> {
-    const { orderId, grossAmount, signatureKey } = notification;
+    const { orderId, statusCode, grossAmount, signatureKey } = notification;
 
-    // Create signature
-    const serverKey = this.serverKey;
-    const crypto = await import("crypto");
+    if (!signatureKey || !statusCode) {
+      return false;
+    }
+
+    // Midtrans signature: SHA512(order_id + status_code + gross_amount + server_key)
     const hash = crypto
       .createHash("sha512")
-      .update(
-        `${orderId}${notification.transactionStatus}${grossAmount}${serverKey}`
-      )
+      .update(`${orderId}${statusCode}${grossAmount}${this.serverKey}`)
       .digest("hex");
 
-    // Verify signature
-    return hash === signatureKey;
+    // Verify signature (constant time)
+    const expected = Buffer.from(hash);
+    const received = Buffer.from(signatureKey);
+    if (expected.length !== received.length) {
+      return false;
+    }
+    return crypto.timingSafeEqual(expected, received);
   }
 
   /**
@@ -171,6 +178,7 @@ export class MidtransPayment {
         orderId: response.data.order_id,
         transactionStatus: response.data.transaction_status,
         fraudStatus: response.data.fraud_status,
+        statusCode: response.data.status_code,
         grossAmount: response.data.gross_amount,
         paymentType: response.data.payment_type,
         transactionTime: response.data.transaction_time,
@@ -266,7 +274,18 @@ export class MidtransPayment {
 /**
  * Payment Status Mapper
  */
-export function mapTransactionStatus(midtransStatus: string): string {
+export function mapTransactionStatus(
+  midtransStatus: string,
+  fraudStatus?: string
+): string {
+  // Captured card payments flagged by fraud detection are not settled yet
+  if (midtransStatus === "capture" && fraudStatus === "challenge") {
+    return "PENDING";
+  }
+  if (midtransStatus === "capture" && fraudStatus === "deny") {
+    return "FAILED";
+  }
+
   const statusMap: Record<string, string> = {
     capture: "PAID",
     settlement: "PAID",
@@ -281,6 +300,22 @@ export function mapTransactionStatus(midtransStatus: string): string {
   return statusMap[midtransStatus] || "PENDING";
 }
 
+/**
+ * Normalize raw Midtrans notification body (snake_case) to PaymentNotification
+ */
+export function parsePaymentNotification(body: any): PaymentNotification {
+  return {
+    orderId: body?.order_id,
+    transactionStatus: body?.transaction_status,
+    fraudStatus: body?.fraud_status,
+    statusCode: body?.status_code,
+    grossAmount: body?.gross_amount,
+    paymentType: body?.payment_type,
+    transactionTime: body?.transaction_time,
+    signatureKey: body?.signature_key,
+  };
+}
+
 /**
  * Validate payment notification
  */
@@ -292,7 +327,9 @@ export function validatePaymentNotification(
     data !== null &&
     typeof data.orderId === "string" &&
     typeof data.transactionStatus === "string" &&
-    typeof data.grossAmount === "string"
+    typeof data.grossAmount === "string" &&
+    typeof data.statusCode === "string" &&
+    typeof data.signatureKey === "string"
   );
 }
 
@@ -0,0 +1,95 @@
+import { Queue, type Job, type JobsOptions } from "bullmq";
+import { videoConfig } from "@/config/video.config";
+import { getRedisConnection } from "./redis";
+import type { VideoQueueJobData } from "@/types/video.types";
+
+export const QUEUE_NAMES = {
+  VIDEO_PROCESSING: "video-processing",
+} as const;
+
+// Job names handled by the video worker
+export const VIDEO_JOBS = {
+  PROCESS: "process-video", // Transcoding, HLS packaging and thumbnails
+  TRANSCRIBE: "transcribe-video", // Automatic transcript of one language
+  AUDIO_DESCRIPTION: "audio-description", // Audio-described renditions
+  SIGN_LANGUAGE: "sign-language", // Interpreter overlay renditions
+} as const;
+
+// Job states that count as queued or running
+const PENDING_STATES = ["active", "waiting", "delayed", "prioritized"];
+
+export const videoJobOptions: JobsOptions = {
+  attempts: videoConfig.processing.attempts,
+  backoff: {
+    type: "exponential",
+    delay: videoConfig.processing.backoffDelay,
+  },
+  removeOnComplete: { age: 24 * 60 * 60 }, // seconds
+  removeOnFail: { age: 7 * 24 * 60 * 60 },
+};
+
+let videoQueue: Queue<VideoQueueJobData> | null = null;
+
+/**
+ * Get video processing queue (connects on first use)
+ */
+export function getVideoQueue(): Queue<VideoQueueJobData> {
+  if (!videoQueue) {
+    videoQueue = new Queue<VideoQueueJobData>(QUEUE_NAMES.VIDEO_PROCESSING, {
+      connection: getRedisConnection(),
+      defaultJobOptions: videoJobOptions,
+    });
+  }
+
+  return videoQueue;
+}
+
+/**
+ * Job ID of a video, one queued job per video at a time
+ */
+export function getVideoJobId(videoId: string): string {
+  return `video-${videoId}`;
+}
+
+/**
+ * Job ID of a pipeline job (e.g. transcript ID for transcription)
+ */
+export function getPipelineJobId(name: string, id: string): string {
+  return `${name}-${id}`;
+}
+
+/**
+ * Get queued or running job by ID, null when there is none
+ */
+export async function getPendingJob(
+  jobId: string
+): Promise<Job<VideoQueueJobData> | null> {
+  const job = await getVideoQueue().getJob(jobId);
+  if (!job) return null;
+
+  const state = await job.getState();
+  return PENDING_STATES.includes(state) ? job : null;
+}
+
+/**
+ * Add job unless the same job is still pending
+ * A finished or failed job with the same ID is replaced
+ */
+export async function addUniqueJob(
+  name: string,
+  data: VideoQueueJobData,
+  jobId: string
+): Promise<{ job: Job<VideoQueueJobData>; added: boolean }> {
+  const queue = getVideoQueue();
+  const existing = await queue.getJob(jobId);
+
+  if (existing) {
+    if (PENDING_STATES.includes(await existing.getState())) {
+      return { job: existing, added: false };
+    }
+    await existing.remove();
+  }
+
+  const job = await queue.add(name, data, { jobId });
+  return { job, added: true };
+}
@@ -0,0 +1,51 @@
+import IORedis from "ioredis";
+import { logError } from "@/utils/logger.util";
+
+let connection: IORedis | null = null;
+
+/**
+ * Get shared Redis connection (created on first use)
+ * BullMQ workers require maxRetriesPerRequest: null
+ */
+export function getRedisConnection(): IORedis {
+  if (!connection) {
+    connection = new IORedis(
+      process.env.REDIS_URL || "redis://localhost:6379",
+      { maxRetriesPerRequest: null }
+    );
+
+    connection.on("error", (error) => {
+      logError("Redis connection error", error);
+    });
+  }
+
+  return connection;
+}
+
+/**
+ * Get shared Redis connection once it is ready, waiting up to timeout ms
+ * (the lazily created connection is still connecting on first use)
+ */
+export async function getReadyRedisConnection(
+  timeout: number
+): Promise<IORedis> {
+  const redis = getRedisConnection();
+  if (redis.status === "ready") return redis;
+
+  await new Promise<void>((resolve, reject) => {
+    const onReady = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      redis.off("ready", onReady);
+      reject(new Error(`Redis not ready after ${timeout}ms`));
+    }, timeout);
+
+    redis.once("ready", onReady);
+  });
+
+  return redis;
+}
+
+export default getRedisConnection;
@@ -0,0 +1,42 @@
+import { videoConfig } from '@/config/video.config';
+import { generateHMAC, verifyHMAC } from '@/utils/crypto.util';
+import type { StreamTokenPayload } from '@/types/video.types';
+
+/**
+ * Sign stream token: base64url(JSON payload).hex(HMAC-SHA256)
+ */
+export function signStreamToken(payload: StreamTokenPayload): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${generateHMAC(data, videoConfig.streaming.token.secret)}`;
+}
+
+/**
+ * Verify stream token signature and expiry
+ * Returns null for malformed, tampered or expired tokens
+ */
+export function verifyStreamToken(token: string): StreamTokenPayload | null {
+  const [data, signature] = token.split('.');
+
+  if (!data || !signature) {
+    return null;
+  }
+
+  try {
+    // verifyHMAC throws when the signature length differs
+    if (!verifyHMAC(data, signature, videoConfig.streaming.token.secret)) {
+      return null;
+    }
+
+    const payload = JSON.parse(
+      Buffer.from(data, 'base64url').toString('utf8')
+    ) as StreamTokenPayload;
+
+    if (payload.expiresAt * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
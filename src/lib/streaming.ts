@@ -1,13 +1,34 @@
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import { storageConfig } from '@/config/storage.config';
-import type { VideoStreamInfo, VideoQuality } from '@/types/video.types';
+import { videoConfig } from '@/config/video.config';
+import type {
+  VideoStreamInfo,
+  VideoQuality,
+  VideoVariant,
+} from '@/types/video.types';
+
+const VARIANT_SUFFIXES: Record<VideoVariant, string> = {
+  STANDARD: '',
+  AUDIO_DESCRIPTION: '-ad',
+  SIGN_LANGUAGE: '-sl',
+};
+
+// master.m3u8, {quality}/index.m3u8 and {quality}/segment_NNN.ts only
+const HLS_FILE_PATTERN =
+  /^(?:master\.m3u8|(?:360p|480p|720p|1080p)\/(?:index\.m3u8|segment_\d+\.ts))$/;
+
+const HLS_MIME_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
 
 /**
  * Video Stream Response
  */
-interface VideoStreamResponse extends VideoStreamInfo {
-  stream: fs.ReadStream;
+export interface VideoStreamResponse extends VideoStreamInfo {
+  stream: Readable;
 }
 
 /**
@@ -60,35 +81,119 @@ export class VideoStreaming {
   }
 
   /**
-   * Get available qualities for video
+   * Get video path for specific quality and variant
    */
-  async getAvailableQualities(videoId: string): Promise<VideoQuality[]> {
-    const qualities: VideoQuality[] = [];
-    const processedDir = path.join(storageConfig.local.basePath, 'videos', 'processed');
-
-    // Check each quality directory
-    for (const quality of ['360p', '480p', '720p', '1080p'] as VideoQuality[]) {
-      const qualityPath = path.join(processedDir, quality, `${videoId}.mp4`);
-
-      try {
-        await fs.promises.access(qualityPath);
-        qualities.push(quality);
-      } catch {
-        // Quality not available
-      }
+  getVideoPath(
+    videoId: string,
+    quality?: VideoQuality,
+    variant: VideoVariant = 'STANDARD'
+  ): string {
+    if (quality) {
+      // Alternate variants live next to the standard renditions
+      const filename = `${videoId}${VARIANT_SUFFIXES[variant]}.mp4`;
+      return path.join('videos', 'processed', quality, filename);
     }
+    return path.join('videos', 'originals', `${videoId}.mp4`);
+  }
+
+  /**
+   * Get HLS directory of a video (relative to storage base path)
+   */
+  getHlsDirectory(videoId: string): string {
+    return path.join(videoConfig.streaming.hls.directory, videoId);
+  }
 
-    return qualities;
+  /**
+   * Check file is a servable HLS file (blocks path traversal)
+   */
+  isHlsFile(file: string): boolean {
+    return HLS_FILE_PATTERN.test(file);
   }
 
   /**
-   * Get video path for specific quality
+   * Check whether the master playlist exists
    */
-  getVideoPath(videoId: string, quality?: VideoQuality): string {
-    if (quality) {
-      return path.join('videos', 'processed', quality, `${videoId}.mp4`);
+  async hasHls(videoId: string): Promise<boolean> {
+    try {
+      await fs.promises.access(
+        path.join(
+          storageConfig.local.basePath,
+          this.getHlsDirectory(videoId),
+          videoConfig.streaming.hls.masterPlaylist
+        )
+      );
+      return true;
+    } catch {
+      return false;
     }
-    return path.join('videos', 'originals', `${videoId}.mp4`);
+  }
+
+  /**
+   * Get HLS playlist or segment stream
+   */
+  async getHlsStream(
+    videoId: string,
+    file: string,
+    query?: string
+  ): Promise<VideoStreamResponse> {
+    if (!this.isHlsFile(file)) {
+      throw new Error(`Invalid HLS file: ${file}`);
+    }
+
+    const filePath = path.join(this.getHlsDirectory(videoId), file);
+    const fullPath = path.join(storageConfig.local.basePath, filePath);
+
+    // Playlists are small, rewrite their URIs to carry the query
+    if (query && file.endsWith('.m3u8')) {
+      const content = await fs.promises.readFile(fullPath, 'utf-8');
+      const playlist = Buffer.from(this.appendQueryToPlaylist(content, query));
+
+      return {
+        path: filePath,
+        size: playlist.length,
+        mimetype: HLS_MIME_TYPES['.m3u8'],
+        stream: Readable.from(playlist),
+      };
+    }
+
+    const stat = await fs.promises.stat(fullPath);
+
+    return {
+      path: filePath,
+      size: stat.size,
+      mimetype: HLS_MIME_TYPES[path.extname(file)],
+      stream: fs.createReadStream(fullPath),
+    };
+  }
+
+  /**
+   * Append a query string to every URI line of a playlist
+   */
+  appendQueryToPlaylist(content: string, query: string): string {
+    return content
+      .split('\n')
+      .map((line) => {
+        const uri = line.trim();
+        if (!uri || uri.startsWith('#')) return line;
+        return `${uri}${uri.includes('?') ? '&' : '?'}${query}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Get headers for HLS responses
+   * Playlists are revalidated, segments never change once packaged
+   */
+  getHlsHeaders(info: VideoStreamInfo): Record<string, string> {
+    const isPlaylist = info.path.endsWith('.m3u8');
+
+    return {
+      'Content-Type': info.mimetype,
+      'Content-Length': info.size.toString(),
+      'Cache-Control': isPlaylist
+        ? 'private, no-cache'
+        : 'private, max-age=31536000, immutable',
+    };
   }
 
   /**
@@ -0,0 +1,157 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { videoConfig } from "@/config/video.config";
+import type {
+  CaptionCue,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from "@/types/video.types";
+
+/**
+ * Transcription Engine Interface
+ */
+export interface ITranscriptionEngine {
+  readonly name: string;
+  transcribe(
+    audioPath: string,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult>;
+}
+
+interface WhisperJsonOutput {
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+/**
+ * whisper.cpp Engine (local, offline)
+ * Expects 16kHz mono WAV input
+ */
+export class WhisperCppEngine implements ITranscriptionEngine {
+  readonly name = "whisper.cpp";
+
+  async transcribe(
+    audioPath: string,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    const { binary, model, threads } = videoConfig.transcription.whisper;
+    const outputBase = audioPath.replace(/\.[^.]+$/, "");
+    const args = [
+      "-m",
+      model,
+      "-f",
+      audioPath,
+      "-l",
+      options.language,
+      "-t",
+      threads.toString(),
+      "-oj",
+      "-of",
+      outputBase,
+    ];
+
+    await this.run(binary, args);
+
+    const jsonPath = `${outputBase}.json`;
+    try {
+      const output: WhisperJsonOutput = JSON.parse(
+        await fs.readFile(jsonPath, "utf-8")
+      );
+
+      const segments: CaptionCue[] = (output.transcription || [])
+        .map((item) => ({
+          start: item.offsets.from,
+          end: item.offsets.to,
+          text: item.text.trim(),
+        }))
+        .filter((segment) => segment.text.length > 0);
+
+      return { language: options.language, segments };
+    } finally {
+      await fs.rm(jsonPath, { force: true });
+    }
+  }
+
+  private run(binary: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(binary, args);
+      let stderr = "";
+
+      const timer = setTimeout(() => {
+        child.kill("SIGKILL");
+        reject(new Error("Transcription timed out"));
+      }, videoConfig.transcription.timeout);
+
+      child.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(`Transcription failed. Error: ${stderr.slice(-500)}`)
+          );
+        }
+      });
+
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+}
+
+/**
+ * Disabled Engine (transcripts can only be imported)
+ */
+export class DisabledTranscriptionEngine implements ITranscriptionEngine {
+  readonly name = "none";
+
+  async transcribe(): Promise<TranscriptionResult> {
+    throw new Error("Automatic transcription is not configured");
+  }
+}
+
+/**
+ * Transcription Engine Factory
+ */
+export class TranscriptionEngineFactory {
+  private static instance: ITranscriptionEngine;
+
+  static getInstance(): ITranscriptionEngine {
+    if (!this.instance) {
+      switch (videoConfig.transcription.engine) {
+        case "whisper":
+          this.instance = new WhisperCppEngine();
+          break;
+        default:
+          this.instance = new DisabledTranscriptionEngine();
+          break;
+      }
+    }
+    return this.instance;
+  }
+}
+
+/**
+ * Temporary WAV path for transcription input
+ */
+export function getTranscriptionAudioPath(videoId: string): string {
+  return path.join(
+    process.cwd(),
+    "uploads",
+    videoConfig.storage.tempDirectory,
+    `${videoId}-transcript.wav`
+  );
+}
+
+export const transcriptionEngine = TranscriptionEngineFactory.getInstance();
+
+export default transcriptionEngine;
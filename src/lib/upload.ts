@@ -1,7 +1,39 @@
 import multer from 'multer';
+import busboy from 'busboy';
 import path from 'path';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline, finished } from 'stream/promises';
 import { storageConfig } from '@/config/storage.config';
-import { generateUniqueFilename } from '@/utils/file.util';
+import { HTTP_STATUS } from '@/lib/constants';
+import { AppError } from '@/utils/error.util';
+import {
+  generateUniqueFilename,
+  ensureDirectoryExists,
+  formatFileSize,
+} from '@/utils/file.util';
+import type { MulterFile } from '@/services/upload.service';
+
+/**
+ * Multipart upload parsed from a route handler request
+ */
+export interface MultipartUpload {
+  file: MulterFile | null;
+  fields: Record<string, string>;
+}
+
+/**
+ * Multipart parse options
+ */
+export interface MultipartOptions {
+  maxFileSize: number;
+  storage?: 'memory' | 'disk'; // disk streams the file to the temp directory (file.path)
+  fieldName?: string;
+}
+
+// Room for boundaries and text fields on top of the file itself
+const MULTIPART_OVERHEAD = 1024 * 1024;
 
 /**
  * Multer Storage Configuration for Local Storage
@@ -163,3 +195,139 @@ export function uploadMultipleHandler(
       });
     });
 }
+
+/**
+ * Parse multipart request in an App Router handler (multer needs Express).
+ * Content-Length is checked before reading and the file is streamed, so a
+ * large upload never sits in memory when storage is 'disk'.
+ */
+export async function parseMultipartUpload(
+  request: Request,
+  options: MultipartOptions
+): Promise<MultipartUpload> {
+  const { maxFileSize, storage = 'memory', fieldName = 'file' } = options;
+  const tooLarge = () =>
+    new AppError(
+      `File too large. Max size: ${formatFileSize(maxFileSize)}`,
+      HTTP_STATUS.PAYLOAD_TOO_LARGE
+    );
+
+  const contentLength = request.headers.get('content-length');
+  if (!contentLength) {
+    throw new AppError('Content-Length header is required', HTTP_STATUS.LENGTH_REQUIRED);
+  }
+  if (Number(contentLength) > maxFileSize + MULTIPART_OVERHEAD) {
+    throw tooLarge();
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: Object.fromEntries(request.headers),
+      limits: { fileSize: maxFileSize, files: 1 },
+    });
+  } catch {
+    throw new AppError('Invalid multipart form data', HTTP_STATUS.BAD_REQUEST);
+  }
+
+  if (!request.body) {
+    throw new AppError('Invalid multipart form data', HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const tempDirectory = path.join(
+    storageConfig.local.basePath,
+    storageConfig.local.directories.videos.temp
+  );
+  if (storage === 'disk') {
+    await ensureDirectoryExists(tempDirectory);
+  }
+
+  const body = Readable.fromWeb(request.body as never);
+
+  return new Promise<MultipartUpload>((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let file: MulterFile | null = null;
+    let source: Readable | null = null;
+    let written: Promise<void> = Promise.resolve();
+    let failed = false;
+
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      body.unpipe(parser);
+      body.resume();
+      source?.destroy();
+      reject(error);
+
+      const partial = file;
+      if (partial) {
+        void written.catch(() => undefined).then(() => removeUploadedFile(partial));
+      }
+    };
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (name !== fieldName || file) {
+        stream.resume();
+        return;
+      }
+
+      const entry: MulterFile = {
+        fieldname: name,
+        originalname: info.filename,
+        encoding: info.encoding,
+        mimetype: info.mimeType,
+        size: 0,
+        destination: '',
+        filename: '',
+        path: '',
+        buffer: Buffer.alloc(0),
+      };
+      file = entry;
+      source = stream;
+
+      stream.on('data', (chunk: Buffer) => {
+        entry.size += chunk.length;
+      });
+      stream.on('limit', () => fail(tooLarge()));
+
+      if (storage === 'disk') {
+        entry.destination = tempDirectory;
+        entry.filename = generateUniqueFilename(info.filename);
+        entry.path = path.join(tempDirectory, entry.filename);
+        written = pipeline(stream, createWriteStream(entry.path));
+      } else {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        written = finished(stream).then(() => {
+          entry.buffer = Buffer.concat(chunks);
+        });
+      }
+    });
+
+    parser.on('error', () =>
+      fail(new AppError('Invalid multipart form data', HTTP_STATUS.BAD_REQUEST))
+    );
+
+    parser.on('close', () => {
+      written.then(() => {
+        if (!failed) resolve({ file, fields });
+      }, fail);
+    });
+
+    body.on('error', fail);
+    body.pipe(parser);
+  });
+}
+
+/**
+ * Remove file written by parseMultipartUpload (no-op once moved away)
+ */
+export async function removeUploadedFile(file: MulterFile): Promise<void> {
+  if (file.path) {
+    await fs.rm(file.path, { force: true });
+  }
+}
@@ -23,6 +23,7 @@ export const registerSchema = z.object({
       "LOW_VISION",
       "MENTOR",
       "MOTORIK",
+      "TUNANETRA",
       "TUNARUNGU",
     ])
     .optional(),
@@ -74,6 +75,7 @@ export const updateProfileSchema = z.object({
       "LOW_VISION",
       "MENTOR",
       "MOTORIK",
+      "TUNANETRA",
       "TUNARUNGU",
     ])
     .optional(),
@@ -93,6 +95,17 @@ export const updateProfilePictureSchema = z.object({
   file: z.any(), // Will be validated by multer middleware
 });
 
+export const updateAccessibilityPreferencesSchema = z.object({
+  captionsEnabled: z.boolean().optional(),
+  captionLanguage: z.string().regex(REGEX_PATTERNS.LANGUAGE_CODE).optional(),
+  fontScale: z.number().min(1).max(2).optional(),
+  dyslexiaFont: z.boolean().optional(),
+  colorPalette: z.enum(["DEFAULT", "HIGH_CONTRAST", "COLOR_BLIND"]).optional(),
+  reducedMotion: z.boolean().optional(),
+  autoplay: z.boolean().optional(),
+  audioDescription: z.boolean().optional(),
+});
+
 // ========================================
 // MENTOR SCHEMAS
 // ========================================
@@ -148,6 +161,7 @@ export const createCourseSchema = z.object({
     .min(1, "At least one learning outcome required"),
   targetAudience: z.array(z.string()).optional().default([]),
   tags: z.array(z.string()).optional().default([]),
+  thumbnailAlt: z.string().max(250).optional(),
 });
 
 export const updateCourseSchema = createCourseSchema.partial();
@@ -197,6 +211,8 @@ export const createMaterialSchema = z.object({
   type: z.enum(["VIDEO", "DOCUMENT", "QUIZ", "ASSIGNMENT"]),
   content: z.string().optional(),
   documentUrl: z.string().url().optional(),
+  documentTagged: z.boolean().optional(),
+  easyReadSummary: z.string().max(5000).nullable().optional(),
   duration: z.number().int().min(0).optional(),
   order: z.number().int().min(0).optional(),
   isFree: z.boolean().default(false),
@@ -206,6 +222,11 @@ export const updateMaterialSchema = createMaterialSchema
   .partial()
   .omit({ sectionId: true });
 
+export const materialRenditionSchema = z.object({
+  format: z.enum(["STANDARD", "EASY_READ"]).optional(),
+  lineSpacing: z.coerce.number().min(1).max(3).optional(),
+});
+
 export const reorderMaterialsSchema = z.object({
   materials: z.array(
     z.object({
@@ -215,6 +236,195 @@ export const reorderMaterialsSchema = z.object({
   ),
 });
 
+// ========================================
+// QUIZ SCHEMAS
+// ========================================
+
+export const quizSettingsSchema = z.object({
+  passMark: z.number().min(0).max(100).default(70),
+  timeLimit: z.number().int().min(1).nullable().optional(),
+  maxAttempts: z.number().int().min(1).nullable().optional(),
+  shuffleQuestions: z.boolean().default(false),
+  shuffleOptions: z.boolean().default(false),
+  showCorrectAnswers: z.boolean().default(true),
+  allowTimeExtension: z.boolean().default(true),
+});
+
+export const createQuizQuestionSchema = z
+  .object({
+    type: z.enum([
+      "SINGLE_CHOICE",
+      "MULTIPLE_CHOICE",
+      "TRUE_FALSE",
+      "SHORT_ANSWER",
+    ]),
+    question: z.string().min(1).max(2000),
+    options: z
+      .array(
+        z.object({
+          id: z.string().min(1).max(50),
+          text: z.string().min(1).max(500),
+        })
+      )
+      .optional(),
+    correctAnswers: z.array(z.string().min(1).max(500)).min(1),
+    explanation: z.string().max(2000).optional(),
+    points: z.number().positive().default(1),
+    order: z.number().int().min(0).optional(),
+  })
+  .refine(
+    (data) =>
+      data.type === "SHORT_ANSWER" ||
+      data.type === "TRUE_FALSE" ||
+      (data.options !== undefined && data.options.length >= 2),
+    {
+      message: "Choice questions require at least two options",
+      path: ["options"],
+    }
+  )
+  .refine(
+    (data) =>
+      data.type === "SHORT_ANSWER" ||
+      data.type === "MULTIPLE_CHOICE" ||
+      data.correctAnswers.length === 1,
+    {
+      message: "This question type accepts exactly one correct answer",
+      path: ["correctAnswers"],
+    }
+  );
+
+export const updateQuizQuestionSchema = z.object({
+  question: z.string().min(1).max(2000).optional(),
+  options: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(50),
+        text: z.string().min(1).max(500),
+      })
+    )
+    .optional(),
+  correctAnswers: z.array(z.string().min(1).max(500)).min(1).optional(),
+  explanation: z.string().max(2000).optional(),
+  points: z.number().positive().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+export const submitQuizAttemptSchema = z.object({
+  answers: z.array(
+    z.object({
+      questionId: z.string().uuid(),
+      answer: z.union([z.string(), z.array(z.string())]),
+    })
+  ),
+});
+
+// ========================================
+// ASSIGNMENT SCHEMAS
+// ========================================
+
+export const assignmentSettingsSchema = z
+  .object({
+    instructions: z.string().max(10000).optional(),
+    maxScore: z.number().positive().default(100),
+    passingScore: z.number().min(0).default(60),
+    dueAt: z.string().datetime().nullable().optional(),
+    allowLateSubmission: z.boolean().default(true),
+    allowFile: z.boolean().default(true),
+    allowText: z.boolean().default(true),
+    rubric: z
+      .array(
+        z.object({
+          id: z.string().min(1).max(50),
+          criterion: z.string().min(1).max(200),
+          description: z.string().max(1000).optional(),
+          maxPoints: z.number().positive(),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => data.passingScore <= data.maxScore, {
+    message: "Passing score cannot exceed max score",
+    path: ["passingScore"],
+  })
+  .refine((data) => data.allowFile || data.allowText, {
+    message: "At least one submission type must be allowed",
+    path: ["allowText"],
+  });
+
+export const submitAssignmentSchema = z.object({
+  textAnswer: z.string().max(50000).optional(),
+});
+
+export const gradeSubmissionSchema = z.object({
+  score: z.number().min(0).optional(),
+  feedback: z.string().max(5000).optional(),
+  rubricScores: z
+    .array(
+      z.object({
+        criterionId: z.string().min(1).max(50),
+        points: z.number().min(0),
+        comment: z.string().max(1000).optional(),
+      })
+    )
+    .optional(),
+  resubmissionAllowed: z.boolean().default(false),
+});
+
+// ========================================
+// ACCOMMODATION SCHEMAS
+// ========================================
+
+const accommodationFields = {
+  timeMultiplier: z.number().min(1).max(3).optional(),
+  extraAttempts: z.number().int().min(0).max(10).optional(),
+  deadlineExtensionHours: z.number().int().min(0).max(336).optional(),
+};
+
+export const accommodationPolicySchema = z.object({
+  disabilityType: z.enum([
+    "BUTA_WARNA",
+    "DISLEKSIA",
+    "KOGNITIF",
+    "LOW_VISION",
+    "MOTORIK",
+    "TUNANETRA",
+    "TUNARUNGU",
+  ]),
+  courseId: z.string().uuid().nullable().optional(), // null = admin default
+  ...accommodationFields,
+});
+
+export const accommodationPoliciesQuerySchema = z.object({
+  courseId: z.string().uuid().optional(),
+});
+
+export const requestAccommodationSchema = z
+  .object({
+    courseId: z.string().uuid(),
+    reason: z.string().min(10).max(1000),
+    ...accommodationFields,
+  })
+  .refine(
+    (data) =>
+      (data.timeMultiplier ?? 1) > 1 ||
+      (data.extraAttempts ?? 0) > 0 ||
+      (data.deadlineExtensionHours ?? 0) > 0,
+    {
+      message: "Request at least one accommodation",
+      path: ["timeMultiplier"],
+    }
+  );
+
+export const reviewAccommodationSchema = z.object({
+  status: z.enum(["APPROVED", "REJECTED"]),
+  note: z.string().max(1000).optional(),
+  ...accommodationFields, // Mentor may adjust what is granted
+});
+
+export const accommodationRequestsQuerySchema = z.object({
+  status: z.enum(["PENDING", "APPROVED", "REJECTED"]).optional(),
+});
+
 // ========================================
 // VIDEO SCHEMAS
 // ========================================
@@ -223,11 +433,86 @@ export const uploadVideoSchema = z.object({
   file: z.any(), // Validated by multer
 });
 
+export const initiateVideoUploadSchema = z.object({
+  filename: z.string().min(1, "Filename is required").max(255),
+  mimeType: z.string().min(1, "MIME type is required"),
+  size: z.number().int().positive("Size must be greater than 0"),
+  checksum: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/i, "Checksum must be a SHA-256 hex digest"),
+});
+
 export const updateVideoProgressSchema = z.object({
   watchedDuration: z.number().int().min(0),
   lastPosition: z.number().int().min(0),
 });
 
+const languageCodeSchema = z
+  .string()
+  .regex(
+    REGEX_PATTERNS.LANGUAGE_CODE,
+    "Language must be a language code (e.g. id, en, id-ID)"
+  );
+
+export const uploadCaptionSchema = z.object({
+  language: languageCodeSchema,
+  label: z.string().min(1).max(50).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const generateTranscriptSchema = z.object({
+  language: languageCodeSchema.optional(),
+});
+
+export const importTranscriptSchema = z.object({
+  language: languageCodeSchema,
+});
+
+export const updateTranscriptSchema = z.object({
+  language: languageCodeSchema,
+  segments: z
+    .array(
+      z.object({
+        start: z.number().int().min(0), // milliseconds
+        end: z.number().int().min(1),
+        text: z.string().trim().min(1).max(1000),
+      })
+    )
+    .min(1)
+    .max(5000),
+});
+
+export const searchTranscriptsSchema = z.object({
+  q: z.string().trim().min(2).max(100),
+});
+
+export const updateVideoChaptersSchema = z.object({
+  chapters: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1).max(200),
+        startTime: z.number().int().min(0), // seconds
+      })
+    )
+    .min(1)
+    .max(50),
+});
+
+export const videoVariantSchema = z.object({
+  variant: z
+    .enum(["STANDARD", "AUDIO_DESCRIPTION", "SIGN_LANGUAGE"])
+    .optional(),
+});
+
+export const streamVideoSchema = videoVariantSchema.extend({
+  quality: z.enum(["360p", "480p", "720p", "1080p"]).optional(),
+});
+
+export const streamTokenSchema = streamVideoSchema.extend({
+  format: z.enum(["mp4", "hls"]).optional(),
+  streamId: z.string().uuid().optional(),
+});
+
 // ========================================
 // ENROLLMENT SCHEMAS
 // ========================================
@@ -274,6 +559,20 @@ export const updateCommentSchema = z.object({
   content: z.string().min(1).max(1000),
 });
 
+export const moderateCommentSchema = z
+  .object({
+    isPinned: z.boolean().optional(),
+    isHidden: z.boolean().optional(),
+    isLocked: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      data.isPinned !== undefined ||
+      data.isHidden !== undefined ||
+      data.isLocked !== undefined,
+    { message: "At least one moderation flag is required" }
+  );
+
 // ========================================
 // TRANSACTION SCHEMAS
 // ========================================
@@ -286,12 +585,119 @@ export const createTransactionSchema = z.object({
     "E_WALLET",
     "VIRTUAL_ACCOUNT",
   ]),
+  couponCode: z.string().trim().min(1).max(32).optional(),
+});
+
+export const requestRefundSchema = z.object({
+  transactionId: z.string().uuid(),
+  reason: z.string().min(10).max(1000),
+});
+
+export const reviewRefundSchema = z.object({
+  note: z.string().max(1000).optional(),
+});
+
+export const createPayoutBatchSchema = z.object({
+  minimumAmount: z.number().min(0).optional(),
+});
+
+export const markPayoutPaidSchema = z.object({
+  reference: z.string().min(1).max(200),
+  notes: z.string().max(1000).optional(),
+});
+
+export const ledgerHoldSchema = z.object({
+  mentorId: z.string().uuid(),
+  amount: z.number().positive(),
+  reason: z.string().min(3).max(500),
 });
 
 export const verifyTransactionSchema = z.object({
   orderId: z.string(),
 });
 
+// ========================================
+// WISHLIST SCHEMAS
+// ========================================
+
+export const addToWishlistSchema = z.object({
+  courseId: z.string().uuid(),
+});
+
+export const enrollFromWishlistSchema = z.object({
+  paymentMethod: z
+    .enum(["CREDIT_CARD", "BANK_TRANSFER", "E_WALLET", "VIRTUAL_ACCOUNT"])
+    .optional(),
+  couponCode: z.string().trim().min(1).max(32).optional(),
+});
+
+// ========================================
+// COUPON SCHEMAS
+// ========================================
+
+const couponFields = {
+  description: z.string().max(500).optional(),
+  value: z.number().positive(),
+  maxDiscount: z.number().positive().nullable().optional(),
+  minPurchase: z.number().min(0).nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const createCouponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3)
+      .max(32)
+      .regex(
+        /^[A-Za-z0-9_-]+$/,
+        "Code may only contain letters, numbers, dashes and underscores"
+      ),
+    type: z.enum(["PERCENTAGE", "FIXED"]),
+    courseId: z.string().uuid().optional(),
+    ...couponFields,
+  })
+  .refine((data) => data.type !== "PERCENTAGE" || data.value <= 100, {
+    message: "Percentage discount cannot exceed 100",
+    path: ["value"],
+  })
+  .refine(
+    (data) =>
+      !data.startsAt ||
+      !data.expiresAt ||
+      new Date(data.startsAt) < new Date(data.expiresAt),
+    {
+      message: "Expiry must be after the start date",
+      path: ["expiresAt"],
+    }
+  );
+
+export const updateCouponSchema = z
+  .object({
+    ...couponFields,
+    value: couponFields.value.optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startsAt ||
+      !data.expiresAt ||
+      new Date(data.startsAt) < new Date(data.expiresAt),
+    {
+      message: "Expiry must be after the start date",
+      path: ["expiresAt"],
+    }
+  );
+
+export const applyCouponSchema = z.object({
+  courseId: z.string().uuid(),
+  couponCode: z.string().trim().min(1).max(32),
+});
+
 // ========================================
 // CERTIFICATE SCHEMAS
 // ========================================
@@ -330,6 +736,28 @@ export const searchCoursesSchema = z.object({
   maxPrice: z.number().min(0).optional(),
   isFree: z.boolean().optional(),
   rating: z.number().min(0).max(5).optional(),
+  accessibilityBadges: z
+    .array(
+      z.enum([
+        "FULLY_CAPTIONED",
+        "TRANSCRIPTS_AVAILABLE",
+        "SCREEN_READER_FRIENDLY",
+        "FLEXIBLE_TIMING",
+      ])
+    )
+    .optional(),
+  disabilityType: z
+    .enum([
+      "BUTA_WARNA",
+      "DISLEKSIA",
+      "KOGNITIF",
+      "LOW_VISION",
+      "MENTOR",
+      "MOTORIK",
+      "TUNANETRA",
+      "TUNARUNGU",
+    ])
+    .optional(),
   sortBy: z.enum(["price", "rating", "students", "createdAt"]).optional(),
   sortOrder: z.enum(["asc", "desc"]).optional(),
   page: z.number().int().min(1).optional(),
@@ -386,6 +814,7 @@ const validationSchemas = {
   verifyEmailSchema,
   updateProfileSchema,
   updateProfilePictureSchema,
+  updateAccessibilityPreferencesSchema,
   applyMentorSchema,
   updateMentorProfileSchema,
   createCourseSchema,
@@ -398,16 +827,50 @@ const validationSchemas = {
   createMaterialSchema,
   updateMaterialSchema,
   reorderMaterialsSchema,
+  materialRenditionSchema,
+  quizSettingsSchema,
+  createQuizQuestionSchema,
+  updateQuizQuestionSchema,
+  submitQuizAttemptSchema,
+  assignmentSettingsSchema,
+  submitAssignmentSchema,
+  gradeSubmissionSchema,
+  accommodationPolicySchema,
+  accommodationPoliciesQuerySchema,
+  requestAccommodationSchema,
+  reviewAccommodationSchema,
+  accommodationRequestsQuerySchema,
   uploadVideoSchema,
+  initiateVideoUploadSchema,
   updateVideoProgressSchema,
+  uploadCaptionSchema,
+  generateTranscriptSchema,
+  importTranscriptSchema,
+  updateTranscriptSchema,
+  searchTranscriptsSchema,
+  updateVideoChaptersSchema,
+  videoVariantSchema,
+  streamVideoSchema,
+  streamTokenSchema,
   enrollCourseSchema,
   updateProgressSchema,
   createReviewSchema,
   updateReviewSchema,
   createCommentSchema,
   updateCommentSchema,
+  moderateCommentSchema,
   createTransactionSchema,
+  requestRefundSchema,
+  reviewRefundSchema,
+  createPayoutBatchSchema,
+  markPayoutPaidSchema,
+  ledgerHoldSchema,
   verifyTransactionSchema,
+  addToWishlistSchema,
+  enrollFromWishlistSchema,
+  createCouponSchema,
+  updateCouponSchema,
+  applyCouponSchema,
   generateCertificateSchema,
   verifyCertificateSchema,
   updateNotificationSettingsSchema,
@@ -11,8 +11,9 @@ export interface AuthenticatedUser {
   role: string;
 }
 
+// Next.js menyerahkan params rute dinamis sebagai Promise
 export interface AuthHandlerContext {
-  params: { [key: string]: string };
+  params: Promise<{ [key: string]: string }>;
 }
 
 export async function authMiddleware(
@@ -84,9 +85,9 @@ export function requireAuth(
   ) => Promise<NextResponse>
 ): (
   request: NextRequest,
-  context: AuthHandlerContext
+  context?: AuthHandlerContext
 ) => Promise<NextResponse> {
-  return async (request: NextRequest, context: AuthHandlerContext) => {
+  return async (request: NextRequest, context?: AuthHandlerContext) => {
     const authResult = await authMiddleware(request);
 
     if (authResult instanceof NextResponse) {
@@ -95,7 +96,11 @@ export function requireAuth(
     }
 
     console.log("✅ Auth successful, proceeding to handler");
-    return handler(request, context, authResult.user);
+    return handler(
+      request,
+      context ?? { params: Promise.resolve({}) },
+      authResult.user
+    );
   };
 }
 
@@ -5,16 +5,16 @@ import { logHttp, logError } from '@/utils/logger.util';
  * Logging Middleware
  * Logs all API requests and responses
  */
-export function loggingMiddleware(
-  handler: (request: NextRequest) => Promise<NextResponse>
-): (request: NextRequest) => Promise<NextResponse> {
-  return async (request: NextRequest) => {
+export function loggingMiddleware<T = any>(
+  handler: (request: NextRequest, context?: T) => Promise<NextResponse>
+): (request: NextRequest, context?: T) => Promise<NextResponse> {
+  return async (request: NextRequest, context?: T) => {
     const startTime = Date.now();
     const { method, url } = request;
 
     try {
-      // Execute handler
-      const response = await handler(request);
+      // Execute handler (forward route context so dynamic params survive)
+      const response = await handler(request, context);
 
       // Calculate duration
       const duration = Date.now() - startTime;
@@ -0,0 +1,441 @@
+import prisma from "@/lib/prisma";
+import { NotFoundError, ForbiddenError } from "@/utils/error.util";
+import {
+  USER_ROLES,
+  MATERIAL_TYPE,
+  ACCESSIBILITY_BADGE,
+  DISABILITY_TYPE,
+  TRANSCRIPT_STATUS,
+} from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+type AccessibilityBadge =
+  (typeof ACCESSIBILITY_BADGE)[keyof typeof ACCESSIBILITY_BADGE];
+
+type CheckKey =
+  | "captions"
+  | "transcript"
+  | "document_tagged"
+  | "image_alt"
+  | "time_accommodation"
+  | "thumbnail_alt";
+
+/**
+ * Single accessibility check result
+ */
+interface AuditCheck {
+  key: CheckKey;
+  label: string;
+  passed: boolean;
+}
+
+/**
+ * Per-material checklist entry
+ */
+interface MaterialChecklist {
+  material_id: string;
+  title: string;
+  type: string;
+  section_title: string;
+  passed: boolean;
+  checks: AuditCheck[];
+}
+
+/**
+ * Audit History Filters
+ */
+interface AuditHistoryFilters {
+  page?: number;
+  limit?: number;
+}
+
+const CHECK_LABELS: Record<CheckKey, string> = {
+  captions: "Video has captions",
+  transcript: "Video has a transcript",
+  document_tagged: "Document is tagged for screen readers",
+  image_alt: "Images have alt text",
+  time_accommodation: "Quiz allows extended time",
+  thumbnail_alt: "Course thumbnail has alt text",
+};
+
+export const ACCESSIBILITY_BADGE_LABELS: Record<AccessibilityBadge, string> = {
+  FULLY_CAPTIONED: "Fully captioned",
+  TRANSCRIPTS_AVAILABLE: "Transcripts available",
+  SCREEN_READER_FRIENDLY: "Screen-reader friendly",
+  FLEXIBLE_TIMING: "Flexible timing",
+};
+
+// Badges that matter most for each disability type (listing filter)
+const DISABILITY_BADGES: Record<string, AccessibilityBadge[]> = {
+  [DISABILITY_TYPE.TUNARUNGU]: [
+    ACCESSIBILITY_BADGE.FULLY_CAPTIONED,
+    ACCESSIBILITY_BADGE.TRANSCRIPTS_AVAILABLE,
+  ],
+  [DISABILITY_TYPE.TUNANETRA]: [ACCESSIBILITY_BADGE.SCREEN_READER_FRIENDLY],
+  [DISABILITY_TYPE.LOW_VISION]: [ACCESSIBILITY_BADGE.SCREEN_READER_FRIENDLY],
+  [DISABILITY_TYPE.DISLEKSIA]: [ACCESSIBILITY_BADGE.FLEXIBLE_TIMING],
+  [DISABILITY_TYPE.KOGNITIF]: [ACCESSIBILITY_BADGE.FLEXIBLE_TIMING],
+  [DISABILITY_TYPE.MOTORIK]: [ACCESSIBILITY_BADGE.FLEXIBLE_TIMING],
+};
+
+/**
+ * Accessibility Audit Service
+ * Inspects course materials and derives accessibility score and badges
+ */
+export class AccessibilityAuditService {
+  /**
+   * Run audit on request of the course mentor or an admin
+   */
+  async auditCourse(course_id: string, user_id: string, user_role: string) {
+    await this.getManageableCourse(course_id, user_id, user_role);
+    return this.runAudit(course_id, user_id);
+  }
+
+  /**
+   * Re-run audit in the background after course content changed, so
+   * listing badges follow material, caption and transcript edits.
+   * Only courses audited before are refreshed, errors are only logged.
+   */
+  refreshAudit(target: { course_id: string } | { video_id: string }) {
+    const refresh = async () => {
+      const course =
+        "course_id" in target
+          ? await prisma.course.findUnique({
+              where: { id: target.course_id },
+              select: { id: true, accessibility_audited_at: true },
+            })
+          : (
+              await prisma.video.findUnique({
+                where: { id: target.video_id },
+                select: {
+                  material: {
+                    select: {
+                      section: {
+                        select: {
+                          course: {
+                            select: {
+                              id: true,
+                              accessibility_audited_at: true,
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              })
+            )?.material?.section.course;
+
+      if (!course?.accessibility_audited_at) return;
+
+      await this.runAudit(course.id);
+    };
+
+    void refresh().catch((error) =>
+      logError("Failed to refresh accessibility audit", error)
+    );
+  }
+
+  /**
+   * Inspect every material, store the result and update course badges
+   */
+  async runAudit(course_id: string, audited_by: string | null = null) {
+    const course = await prisma.course.findUnique({
+      where: { id: course_id },
+      select: {
+        id: true,
+        thumbnail: true,
+        thumbnail_alt: true,
+        sections: {
+          orderBy: { order: "asc" },
+          select: {
+            title: true,
+            materials: {
+              orderBy: { order: "asc" },
+              select: {
+                id: true,
+                title: true,
+                type: true,
+                content: true,
+                document_tagged: true,
+                video: {
+                  select: {
+                    _count: {
+                      select: {
+                        captions: true,
+                        transcripts: {
+                          where: { status: TRANSCRIPT_STATUS.COMPLETED },
+                        },
+                      },
+                    },
+                  },
+                },
+                quiz: {
+                  select: {
+                    time_limit: true,
+                    allow_time_extension: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!course) {
+      throw new NotFoundError("Course not found");
+    }
+
+    const checklist: MaterialChecklist[] = [];
+
+    for (const section of course.sections) {
+      for (const material of section.materials) {
+        const checks = this.checkMaterial(material);
+        if (checks.length === 0) continue;
+
+        checklist.push({
+          material_id: material.id,
+          title: material.title,
+          type: material.type,
+          section_title: section.title,
+          passed: checks.every((check) => check.passed),
+          checks,
+        });
+      }
+    }
+
+    const course_checks: AuditCheck[] = course.thumbnail
+      ? [this.check("thumbnail_alt", !!course.thumbnail_alt?.trim())]
+      : [];
+
+    const allChecks = [
+      ...course_checks,
+      ...checklist.flatMap((item) => item.checks),
+    ];
+    const passedChecks = allChecks.filter((check) => check.passed).length;
+    const score =
+      allChecks.length > 0
+        ? Math.round((passedChecks / allChecks.length) * 100)
+        : 100;
+    const badges = this.deriveBadges(course_checks, checklist);
+    const now = new Date();
+
+    const audit = await prisma.courseAccessibilityAudit.create({
+      data: {
+        course_id,
+        score,
+        badges,
+        checklist: { course_checks, materials: checklist },
+        audited_by,
+      },
+    });
+
+    await prisma.course.update({
+      where: { id: course_id },
+      data: {
+        accessibility_score: score,
+        accessibility_badges: badges,
+        accessibility_audited_at: now,
+      },
+    });
+
+    logInfo("Course accessibility audited", { course_id, score, badges });
+
+    return {
+      id: audit.id,
+      course_id,
+      score,
+      badges: badges.map((badge) => ({
+        key: badge,
+        label: ACCESSIBILITY_BADGE_LABELS[badge],
+      })),
+      total_checks: allChecks.length,
+      passed_checks: passedChecks,
+      course_checks,
+      materials: checklist,
+      audited_at: audit.created_at,
+    };
+  }
+
+  /**
+   * Get previous audits of a course
+   */
+  async getAuditHistory(
+    course_id: string,
+    user_id: string,
+    user_role: string,
+    filters: AuditHistoryFilters = {}
+  ) {
+    const { page = 1, limit = 10 } = filters;
+    const skip = (page - 1) * limit;
+
+    await this.getManageableCourse(course_id, user_id, user_role);
+
+    const [audits, total] = await Promise.all([
+      prisma.courseAccessibilityAudit.findMany({
+        where: { course_id },
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+      }),
+      prisma.courseAccessibilityAudit.count({ where: { course_id } }),
+    ]);
+
+    return {
+      data: audits,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get badges relevant to a disability type
+   */
+  getBadgesForDisability(disability_type: string): AccessibilityBadge[] {
+    return DISABILITY_BADGES[disability_type] ?? [];
+  }
+
+  /**
+   * Run checks that apply to the material type
+   */
+  private checkMaterial(material: any): AuditCheck[] {
+    const checks: AuditCheck[] = [];
+
+    switch (material.type) {
+      case MATERIAL_TYPE.VIDEO:
+        checks.push(
+          this.check("captions", (material.video?._count.captions ?? 0) > 0)
+        );
+        checks.push(
+          this.check(
+            "transcript",
+            (material.video?._count.transcripts ?? 0) > 0
+          )
+        );
+        break;
+
+      case MATERIAL_TYPE.DOCUMENT:
+        checks.push(this.check("document_tagged", material.document_tagged));
+        break;
+
+      case MATERIAL_TYPE.QUIZ:
+        // Untimed quizzes need no extension
+        checks.push(
+          this.check(
+            "time_accommodation",
+            !material.quiz?.time_limit || material.quiz.allow_time_extension
+          )
+        );
+        break;
+    }
+
+    if (material.type !== MATERIAL_TYPE.VIDEO && material.content) {
+      const images = this.countImages(material.content);
+      if (images.total > 0) {
+        checks.push(this.check("image_alt", images.missingAlt === 0));
+      }
+    }
+
+    return checks;
+  }
+
+  /**
+   * Count images (HTML and Markdown) and those without alt text
+   */
+  private countImages(content: string) {
+    let total = 0;
+    let missingAlt = 0;
+
+    for (const [tag] of content.matchAll(/<img\b[^>]*>/gi)) {
+      total++;
+      if (!/\balt\s*=\s*("[^"]*\S[^"]*"|'[^']*\S[^']*')/i.test(tag)) {
+        missingAlt++;
+      }
+    }
+
+    for (const [, alt] of content.matchAll(/!\[([^\]]*)\]\([^)]*\)/g)) {
+      total++;
+      if (!alt.trim()) missingAlt++;
+    }
+
+    return { total, missingAlt };
+  }
+
+  /**
+   * Derive badges from check results
+   */
+  private deriveBadges(
+    course_checks: AuditCheck[],
+    checklist: MaterialChecklist[]
+  ): AccessibilityBadge[] {
+    const allChecks = [
+      ...course_checks,
+      ...checklist.flatMap((item) => item.checks),
+    ];
+    const byKey = (keys: CheckKey[]) =>
+      allChecks.filter((check) => keys.includes(check.key));
+    const allPassed = (checks: AuditCheck[]) =>
+      checks.length > 0 && checks.every((check) => check.passed);
+
+    const badges: AccessibilityBadge[] = [];
+
+    if (allPassed(byKey(["captions"]))) {
+      badges.push(ACCESSIBILITY_BADGE.FULLY_CAPTIONED);
+    }
+
+    if (allPassed(byKey(["transcript"]))) {
+      badges.push(ACCESSIBILITY_BADGE.TRANSCRIPTS_AVAILABLE);
+    }
+
+    if (allPassed(byKey(["document_tagged", "image_alt", "thumbnail_alt"]))) {
+      badges.push(ACCESSIBILITY_BADGE.SCREEN_READER_FRIENDLY);
+    }
+
+    if (allPassed(byKey(["time_accommodation"]))) {
+      badges.push(ACCESSIBILITY_BADGE.FLEXIBLE_TIMING);
+    }
+
+    return badges;
+  }
+
+  /**
+   * Build check result with its label
+   */
+  private check(key: CheckKey, passed: boolean): AuditCheck {
+    return { key, label: CHECK_LABELS[key], passed };
+  }
+
+  /**
+   * Get course the user is allowed to audit (course mentor or admin)
+   */
+  private async getManageableCourse(
+    course_id: string,
+    user_id: string,
+    user_role: string
+  ) {
+    const course = await prisma.course.findUnique({
+      where: { id: course_id },
+      include: { mentor: true },
+    });
+
+    if (!course) {
+      throw new NotFoundError("Course not found");
+    }
+
+    if (user_role !== USER_ROLES.ADMIN && course.mentor.user_id !== user_id) {
+      throw new ForbiddenError(
+        "You do not have permission to audit this course"
+      );
+    }
+
+    return course;
+  }
+}
+
+const accessibilityAuditService = new AccessibilityAuditService();
+export default accessibilityAuditService;
@@ -0,0 +1,215 @@
+import prisma from "@/lib/prisma";
+import { NotFoundError } from "@/utils/error.util";
+import { COLOR_PALETTE, DISABILITY_TYPE } from "@/lib/constants";
+
+type ColorPalette = (typeof COLOR_PALETTE)[keyof typeof COLOR_PALETTE];
+
+/**
+ * Accessibility Preference Data
+ */
+export interface AccessibilityPreferenceData {
+  captions_enabled: boolean;
+  caption_language: string;
+  font_scale: number;
+  dyslexia_font: boolean;
+  color_palette: ColorPalette;
+  reduced_motion: boolean;
+  autoplay: boolean;
+  audio_description: boolean;
+  quiz_time_multiplier: number;
+}
+
+/**
+ * Accessibility Preference Update Data (user editable)
+ */
+type UpdatePreferenceData = Partial<
+  Omit<AccessibilityPreferenceData, "quiz_time_multiplier">
+>;
+
+const BASE_PREFERENCES: AccessibilityPreferenceData = {
+  captions_enabled: false,
+  caption_language: "id",
+  font_scale: 1,
+  dyslexia_font: false,
+  color_palette: COLOR_PALETTE.DEFAULT,
+  reduced_motion: false,
+  autoplay: true,
+  audio_description: false,
+  quiz_time_multiplier: 1,
+};
+
+// Starting point per disability type, users can adjust afterwards
+const DISABILITY_DEFAULTS: Record<
+  string,
+  Partial<AccessibilityPreferenceData>
+> = {
+  [DISABILITY_TYPE.TUNARUNGU]: {
+    captions_enabled: true,
+    autoplay: false,
+  },
+  [DISABILITY_TYPE.TUNANETRA]: {
+    autoplay: false,
+    audio_description: true,
+    reduced_motion: true,
+    quiz_time_multiplier: 1.5,
+  },
+  [DISABILITY_TYPE.LOW_VISION]: {
+    font_scale: 1.5,
+    color_palette: COLOR_PALETTE.HIGH_CONTRAST,
+    autoplay: false,
+    audio_description: true,
+    quiz_time_multiplier: 1.5,
+  },
+  [DISABILITY_TYPE.BUTA_WARNA]: {
+    color_palette: COLOR_PALETTE.COLOR_BLIND,
+  },
+  [DISABILITY_TYPE.DISLEKSIA]: {
+    font_scale: 1.25,
+    dyslexia_font: true,
+    quiz_time_multiplier: 1.5,
+  },
+  [DISABILITY_TYPE.KOGNITIF]: {
+    font_scale: 1.25,
+    reduced_motion: true,
+    autoplay: false,
+    quiz_time_multiplier: 1.5,
+  },
+  [DISABILITY_TYPE.MOTORIK]: {
+    autoplay: false,
+    quiz_time_multiplier: 1.5,
+  },
+};
+
+const preferenceSelect = {
+  captions_enabled: true,
+  caption_language: true,
+  font_scale: true,
+  dyslexia_font: true,
+  color_palette: true,
+  reduced_motion: true,
+  autoplay: true,
+  audio_description: true,
+  quiz_time_multiplier: true,
+  updated_at: true,
+};
+
+/**
+ * Accessibility Service
+ * Handles per-user accessibility preferences used to adapt content delivery
+ */
+export class AccessibilityService {
+  /**
+   * Get default preferences for a disability type
+   */
+  getDefaultPreferences(
+    disabilityType?: string | null
+  ): AccessibilityPreferenceData {
+    return {
+      ...BASE_PREFERENCES,
+      ...(disabilityType ? DISABILITY_DEFAULTS[disabilityType] : {}),
+    };
+  }
+
+  /**
+   * Get user preferences (created from disability defaults when missing)
+   */
+  async getPreferences(userId: string) {
+    const preferences = await prisma.accessibilityPreference.findUnique({
+      where: { user_id: userId },
+      select: preferenceSelect,
+    });
+
+    if (preferences) return preferences;
+
+    return this.createDefaultPreferences(userId);
+  }
+
+  /**
+   * Create preferences seeded from the user's disability type
+   */
+  async createDefaultPreferences(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { disability_type: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const defaults = this.getDefaultPreferences(user.disability_type);
+
+    return prisma.accessibilityPreference.upsert({
+      where: { user_id: userId },
+      create: {
+        user_id: userId,
+        ...defaults,
+      },
+      update: {},
+      select: preferenceSelect,
+    });
+  }
+
+  /**
+   * Update user preferences
+   */
+  async updatePreferences(userId: string, data: UpdatePreferenceData) {
+    await this.getPreferences(userId);
+
+    return prisma.accessibilityPreference.update({
+      where: { user_id: userId },
+      data,
+      select: preferenceSelect,
+    });
+  }
+
+  /**
+   * Reset preferences to the defaults of the current disability type
+   */
+  async resetPreferences(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { disability_type: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const defaults = this.getDefaultPreferences(user.disability_type);
+
+    return prisma.accessibilityPreference.upsert({
+      where: { user_id: userId },
+      create: {
+        user_id: userId,
+        ...defaults,
+      },
+      update: defaults,
+      select: preferenceSelect,
+    });
+  }
+
+  /**
+   * Set quiz time multiplier (admin only, grants extra time)
+   */
+  async setQuizTimeMultiplier(userId: string, multiplier: number) {
+    await this.getPreferences(userId);
+
+    return prisma.accessibilityPreference.update({
+      where: { user_id: userId },
+      data: { quiz_time_multiplier: multiplier },
+      select: preferenceSelect,
+    });
+  }
+
+  /**
+   * Get quiz time multiplier of a user
+   */
+  async getQuizTimeMultiplier(userId: string): Promise<number> {
+    const preferences = await this.getPreferences(userId);
+    return preferences.quiz_time_multiplier;
+  }
+}
+
+const accessibilityService = new AccessibilityService();
+export default accessibilityService;
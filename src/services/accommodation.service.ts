@@ -0,0 +1,483 @@
+import prisma from "@/lib/prisma";
+import accessibilityService from "./accessibility.service";
+import notificationService from "./notification.service";
+import courseAccessService from "./course-access.service";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from "@/utils/error.util";
+import {
+  USER_ROLES,
+  ACCOMMODATION_REQUEST_STATUS,
+  ACCOMMODATION_SOURCE,
+} from "@/lib/constants";
+import { logError, logInfo } from "@/utils/logger.util";
+
+type AccommodationSource =
+  (typeof ACCOMMODATION_SOURCE)[keyof typeof ACCOMMODATION_SOURCE];
+
+/**
+ * Accommodation Values
+ */
+interface AccommodationValues {
+  time_multiplier?: number;
+  extra_attempts?: number;
+  deadline_extension_hours?: number;
+}
+
+/**
+ * Accommodation Policy Data
+ */
+interface PolicyData extends AccommodationValues {
+  disability_type: string;
+  course_id?: string | null;
+}
+
+/**
+ * Accommodation Request Data
+ */
+interface RequestAccommodationData extends AccommodationValues {
+  reason: string;
+}
+
+/**
+ * Accommodation Review Data
+ */
+interface ReviewAccommodationData extends AccommodationValues {
+  status: "APPROVED" | "REJECTED";
+  note?: string;
+}
+
+/**
+ * Accommodation Request Filters
+ */
+interface RequestFilters {
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Accommodation applied to a timed activity
+ */
+export interface AppliedAccommodation {
+  source: AccommodationSource | null;
+  accommodation_id: string | null;
+  time_multiplier: number;
+  extra_attempts: number;
+  deadline_extension_hours: number;
+}
+
+const NO_ACCOMMODATION: AppliedAccommodation = {
+  source: null,
+  accommodation_id: null,
+  time_multiplier: 1,
+  extra_attempts: 0,
+  deadline_extension_hours: 0,
+};
+
+/**
+ * Accommodation Service
+ * Resolves extra time, attempts and deadline extensions for assessments
+ */
+export class AccommodationService {
+  /**
+   * Resolve the accommodation a learner gets in a course
+   * Approved individual request > course policy > admin default > preference
+   */
+  async resolveAccommodation(
+    user_id: string,
+    course_id: string
+  ): Promise<AppliedAccommodation> {
+    const request = await prisma.accommodationRequest.findFirst({
+      where: {
+        user_id,
+        course_id,
+        status: ACCOMMODATION_REQUEST_STATUS.APPROVED,
+      },
+      orderBy: { reviewed_at: "desc" },
+    });
+
+    if (request) {
+      return this.toApplied(ACCOMMODATION_SOURCE.INDIVIDUAL, request);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: user_id },
+      select: { disability_type: true },
+    });
+
+    if (user?.disability_type) {
+      const policies = await prisma.accommodationPolicy.findMany({
+        where: {
+          disability_type: user.disability_type,
+          OR: [{ course_id }, { course_id: null }],
+        },
+      });
+
+      const coursePolicy = policies.find((p: any) => p.course_id === course_id);
+      if (coursePolicy) {
+        return this.toApplied(ACCOMMODATION_SOURCE.COURSE_POLICY, coursePolicy);
+      }
+
+      const defaultPolicy = policies.find((p: any) => p.course_id === null);
+      if (defaultPolicy) {
+        return this.toApplied(
+          ACCOMMODATION_SOURCE.DEFAULT_POLICY,
+          defaultPolicy
+        );
+      }
+    }
+
+    // Fall back to the multiplier kept in accessibility preferences
+    const multiplier = await accessibilityService.getQuizTimeMultiplier(
+      user_id
+    );
+
+    return multiplier > 1
+      ? {
+          ...NO_ACCOMMODATION,
+          source: ACCOMMODATION_SOURCE.PREFERENCE,
+          time_multiplier: multiplier,
+        }
+      : NO_ACCOMMODATION;
+  }
+
+  /**
+   * Get admin defaults, plus overrides when a course is given
+   */
+  async getPolicies(user_id: string, user_role: string, course_id?: string) {
+    const defaults = await prisma.accommodationPolicy.findMany({
+      where: { course_id: null },
+      orderBy: { disability_type: "asc" },
+    });
+
+    if (!course_id) {
+      return { defaults };
+    }
+
+    await this.getManageableCourse(user_id, user_role, course_id);
+
+    const overrides = await prisma.accommodationPolicy.findMany({
+      where: { course_id },
+      orderBy: { disability_type: "asc" },
+    });
+
+    return { defaults, overrides };
+  }
+
+  /**
+   * Create or update a policy
+   * Defaults (no course) are admin only, course overrides need manage access
+   */
+  async upsertPolicy(user_id: string, user_role: string, data: PolicyData) {
+    const course_id = data.course_id ?? null;
+
+    if (course_id) {
+      await this.getManageableCourse(user_id, user_role, course_id);
+    } else if (user_role !== USER_ROLES.ADMIN) {
+      throw new ForbiddenError(
+        "Only admins can manage default accommodation policies"
+      );
+    }
+
+    const values = {
+      time_multiplier: data.time_multiplier ?? 1,
+      extra_attempts: data.extra_attempts ?? 0,
+      deadline_extension_hours: data.deadline_extension_hours ?? 0,
+    };
+
+    // Unique index does not cover NULL course_id, so look up first
+    const existing = await prisma.accommodationPolicy.findFirst({
+      where: { disability_type: data.disability_type, course_id },
+      select: { id: true },
+    });
+
+    const policy = existing
+      ? await prisma.accommodationPolicy.update({
+          where: { id: existing.id },
+          data: values,
+        })
+      : await prisma.accommodationPolicy.create({
+          data: {
+            disability_type: data.disability_type,
+            course_id,
+            created_by: user_id,
+            ...values,
+          },
+        });
+
+    logInfo("Accommodation policy saved", {
+      policyId: policy.id,
+      disabilityType: data.disability_type,
+      courseId: course_id,
+    });
+
+    return policy;
+  }
+
+  /**
+   * Delete a policy
+   */
+  async deletePolicy(user_id: string, user_role: string, policy_id: string) {
+    const policy = await prisma.accommodationPolicy.findUnique({
+      where: { id: policy_id },
+    });
+
+    if (!policy) {
+      throw new NotFoundError("Accommodation policy not found");
+    }
+
+    if (policy.course_id) {
+      await this.getManageableCourse(user_id, user_role, policy.course_id);
+    } else if (user_role !== USER_ROLES.ADMIN) {
+      throw new ForbiddenError(
+        "Only admins can manage default accommodation policies"
+      );
+    }
+
+    await prisma.accommodationPolicy.delete({
+      where: { id: policy_id },
+    });
+
+    return { id: policy_id };
+  }
+
+  /**
+   * Request an individual accommodation for a course
+   */
+  async requestAccommodation(
+    user_id: string,
+    course_id: string,
+    data: RequestAccommodationData
+  ) {
+    await courseAccessService.getActiveEnrollment(user_id, course_id);
+
+    const pending = await prisma.accommodationRequest.findFirst({
+      where: {
+        user_id,
+        course_id,
+        status: ACCOMMODATION_REQUEST_STATUS.PENDING,
+      },
+      select: { id: true },
+    });
+
+    if (pending) {
+      throw new ConflictError(
+        "An accommodation request for this course is already pending"
+      );
+    }
+
+    return prisma.accommodationRequest.create({
+      data: {
+        user_id,
+        course_id,
+        reason: data.reason,
+        time_multiplier: data.time_multiplier ?? 1,
+        extra_attempts: data.extra_attempts ?? 0,
+        deadline_extension_hours: data.deadline_extension_hours ?? 0,
+        status: ACCOMMODATION_REQUEST_STATUS.PENDING,
+      },
+    });
+  }
+
+  /**
+   * Get user's accommodation requests
+   */
+  async getUserRequests(user_id: string) {
+    return prisma.accommodationRequest.findMany({
+      where: { user_id },
+      orderBy: { created_at: "desc" },
+      include: {
+        course: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get accommodation requests of a course for review
+   */
+  async getCourseRequests(
+    user_id: string,
+    user_role: string,
+    course_id: string,
+    filters: RequestFilters = {}
+  ) {
+    await this.getManageableCourse(user_id, user_role, course_id);
+
+    const {
+      page = 1,
+      limit = 20,
+      status = ACCOMMODATION_REQUEST_STATUS.PENDING,
+    } = filters;
+    const skip = (page - 1) * limit;
+
+    const where = { course_id, status };
+
+    const [requests, total] = await Promise.all([
+      prisma.accommodationRequest.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "asc" },
+        include: {
+          user: {
+            select: {
+              id: true,
+              full_name: true,
+              email: true,
+              disability_type: true,
+            },
+          },
+        },
+      }),
+      prisma.accommodationRequest.count({ where }),
+    ]);
+
+    return {
+      data: requests,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Approve or reject a request (mentor of the course or admin)
+   */
+  async reviewRequest(
+    user_id: string,
+    user_role: string,
+    request_id: string,
+    data: ReviewAccommodationData
+  ) {
+    const request = await prisma.accommodationRequest.findUnique({
+      where: { id: request_id },
+    });
+
+    if (!request) {
+      throw new NotFoundError("Accommodation request not found");
+    }
+
+    const course = await this.getManageableCourse(
+      user_id,
+      user_role,
+      request.course_id
+    );
+
+    const approved = data.status === ACCOMMODATION_REQUEST_STATUS.APPROVED;
+
+    // Claim the request so it cannot be reviewed twice
+    const { count } = await prisma.accommodationRequest.updateMany({
+      where: {
+        id: request_id,
+        status: ACCOMMODATION_REQUEST_STATUS.PENDING,
+      },
+      data: {
+        status: data.status,
+        review_note: data.note,
+        reviewed_by: user_id,
+        reviewed_at: new Date(),
+        ...(approved && data.time_multiplier !== undefined && {
+          time_multiplier: data.time_multiplier,
+        }),
+        ...(approved && data.extra_attempts !== undefined && {
+          extra_attempts: data.extra_attempts,
+        }),
+        ...(approved && data.deadline_extension_hours !== undefined && {
+          deadline_extension_hours: data.deadline_extension_hours,
+        }),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        "Accommodation request has already been reviewed"
+      );
+    }
+
+    // Notify student (failure should not roll back the review)
+    try {
+      await notificationService.notifyAccommodationReviewed(
+        request.user_id,
+        course.title,
+        approved,
+        request_id
+      );
+    } catch (error) {
+      logError("Failed to send accommodation review notification", error);
+    }
+
+    return prisma.accommodationRequest.findUnique({
+      where: { id: request_id },
+    });
+  }
+
+  /**
+   * Map policy or request record to applied accommodation
+   */
+  private toApplied(
+    source: AccommodationSource,
+    record: {
+      id: string;
+      time_multiplier: number;
+      extra_attempts: number;
+      deadline_extension_hours: number;
+    }
+  ): AppliedAccommodation {
+    return {
+      source,
+      accommodation_id: record.id,
+      time_multiplier: record.time_multiplier,
+      extra_attempts: record.extra_attempts,
+      deadline_extension_hours: record.deadline_extension_hours,
+    };
+  }
+
+  /**
+   * Get course and check manage permission
+   */
+  private async getManageableCourse(
+    user_id: string,
+    user_role: string,
+    course_id: string
+  ) {
+    const course = await prisma.course.findUnique({
+      where: { id: course_id },
+      select: {
+        id: true,
+        title: true,
+        mentor: {
+          select: { user_id: true },
+        },
+      },
+    });
+
+    if (!course) {
+      throw new NotFoundError("Course not found");
+    }
+
+    if (
+      user_role !== USER_ROLES.ADMIN &&
+      course.mentor.user_id !== user_id
+    ) {
+      throw new ForbiddenError(
+        "You do not have permission to manage accommodations for this course"
+      );
+    }
+
+    return course;
+  }
+}
+
+const accommodationService = new AccommodationService();
+export default accommodationService;
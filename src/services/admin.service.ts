@@ -2,6 +2,8 @@ import prisma from "@/lib/prisma";
 import { hashPassword } from "@/utils/crypto.util";
 import { AppError, NotFoundError } from "@/utils/error.util";
 import { HTTP_STATUS } from "@/lib/constants";
+import refundService from "./refund.service";
+import ledgerService from "./ledger.service";
 
 /**
  * Admin Service
@@ -338,10 +340,14 @@ export class AdminService {
       })
     );
 
+    // Cross-check gateway totals against the mentor ledger
+    const reconciliation = await ledgerService.getReconciliation(dateRange);
+
     return {
       transactions,
       revenue_by_date: revenueByDate,
       revenue_by_course: courseRevenue,
+      reconciliation,
     };
   }
 
@@ -546,6 +552,74 @@ export class AdminService {
 
     return updated;
   }
+
+  /**
+   * Get refund request queue
+   */
+  async getRefundQueue(
+    filters: {
+      page?: number;
+      limit?: number;
+      status?: string;
+    } = {}
+  ) {
+    return refundService.getRefundQueue(filters);
+  }
+
+  /**
+   * Approve refund request
+   */
+  async approveRefund(refundRequestId: string, adminId: string, note?: string) {
+    return refundService.approveRefund(refundRequestId, adminId, note);
+  }
+
+  /**
+   * Reject refund request
+   */
+  async rejectRefund(refundRequestId: string, adminId: string, note?: string) {
+    return refundService.rejectRefund(refundRequestId, adminId, note);
+  }
+
+  /**
+   * Create payout batch for mentors with available balance
+   */
+  async createPayoutBatch(adminId: string, minimumAmount?: number) {
+    return ledgerService.createPayoutBatch(adminId, { minimumAmount });
+  }
+
+  /**
+   * Get mentor payouts
+   */
+  async getPayouts(
+    filters: {
+      page?: number;
+      limit?: number;
+      status?: string;
+      batch_id?: string;
+      mentor_id?: string;
+    } = {}
+  ) {
+    return ledgerService.getPayouts(filters);
+  }
+
+  /**
+   * Mark payout as paid
+   */
+  async markPayoutPaid(
+    payoutId: string,
+    adminId: string,
+    reference: string,
+    notes?: string
+  ) {
+    return ledgerService.markPayoutPaid(payoutId, adminId, reference, notes);
+  }
+
+  /**
+   * Export payouts as CSV
+   */
+  async exportPayoutsCsv(filters: { status?: string; batch_id?: string } = {}) {
+    return ledgerService.exportPayoutsCsv(filters);
+  }
 }
 
 const adminService = new AdminService();
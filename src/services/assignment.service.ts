@@ -0,0 +1,645 @@
+import prisma from "@/lib/prisma";
+import progressService from "./progress.service";
+import uploadService, { type MulterFile } from "./upload.service";
+import notificationService from "./notification.service";
+import accommodationService from "./accommodation.service";
+import courseAccessService from "./course-access.service";
+import {
+  NotFoundError,
+  ForbiddenError,
+  AppError,
+  ConflictError,
+  ValidationError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  USER_ROLES,
+  MATERIAL_TYPE,
+  ASSIGNMENT_SUBMISSION_STATUS,
+} from "@/lib/constants";
+import { logError } from "@/utils/logger.util";
+
+/**
+ * Rubric Criterion
+ */
+interface RubricCriterion {
+  id: string;
+  criterion: string;
+  description?: string;
+  max_points: number;
+}
+
+/**
+ * Rubric Score
+ */
+interface RubricScore {
+  criterion_id: string;
+  points: number;
+  comment?: string;
+}
+
+/**
+ * Assignment Settings Data
+ */
+interface AssignmentSettingsData {
+  instructions?: string;
+  max_score?: number;
+  passing_score?: number;
+  due_at?: Date | null;
+  allow_late_submission?: boolean;
+  allow_file?: boolean;
+  allow_text?: boolean;
+  rubric?: RubricCriterion[];
+}
+
+/**
+ * Assignment Submission Data
+ */
+interface SubmitAssignmentData {
+  text_answer?: string;
+  file?: MulterFile;
+}
+
+/**
+ * Grade Submission Data
+ */
+interface GradeSubmissionData {
+  score?: number;
+  feedback?: string;
+  rubric_scores?: RubricScore[];
+  resubmission_allowed?: boolean;
+}
+
+/**
+ * Grading Queue Options
+ */
+interface GradingQueueOptions {
+  page?: number;
+  limit?: number;
+  course_id?: string;
+  status?: string;
+}
+
+/**
+ * Assignment Service
+ * Handles assignment settings, student submissions and mentor grading
+ */
+export class AssignmentService {
+  /**
+   * Create or update assignment settings for an ASSIGNMENT material
+   */
+  async upsertAssignment(
+    user_id: string,
+    user_role: string,
+    material_id: string,
+    data: AssignmentSettingsData
+  ) {
+    await this.getManageableMaterial(user_id, user_role, material_id);
+
+    const existing = await prisma.assignment.findUnique({
+      where: { material_id },
+    });
+
+    const maxScore = data.max_score ?? existing?.max_score ?? 100;
+    const passingScore = data.passing_score ?? existing?.passing_score ?? 60;
+
+    if (passingScore > maxScore) {
+      throw new ValidationError("Passing score cannot exceed max score");
+    }
+
+    if (data.rubric) {
+      const rubricTotal = data.rubric.reduce(
+        (sum, criterion) => sum + criterion.max_points,
+        0
+      );
+      if (rubricTotal > maxScore) {
+        throw new ValidationError("Rubric points cannot exceed max score");
+      }
+    }
+
+    const assignment = await prisma.assignment.upsert({
+      where: { material_id },
+      create: {
+        material_id,
+        instructions: data.instructions,
+        max_score: maxScore,
+        passing_score: passingScore,
+        due_at: data.due_at ?? null,
+        allow_late_submission: data.allow_late_submission ?? true,
+        allow_file: data.allow_file ?? true,
+        allow_text: data.allow_text ?? true,
+        rubric: data.rubric,
+      },
+      update: {
+        ...(data.instructions !== undefined && {
+          instructions: data.instructions,
+        }),
+        max_score: maxScore,
+        passing_score: passingScore,
+        ...(data.due_at !== undefined && { due_at: data.due_at }),
+        ...(data.allow_late_submission !== undefined && {
+          allow_late_submission: data.allow_late_submission,
+        }),
+        ...(data.allow_file !== undefined && { allow_file: data.allow_file }),
+        ...(data.allow_text !== undefined && { allow_text: data.allow_text }),
+        ...(data.rubric !== undefined && { rubric: data.rubric }),
+      },
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Get assignment by material ID
+   */
+  async getAssignment(material_id: string) {
+    const assignment = await prisma.assignment.findUnique({
+      where: { material_id },
+      include: {
+        material: {
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            section_id: true,
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      throw new NotFoundError("Assignment not found");
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Submit assignment (file upload and/or text answer)
+   */
+  async submitAssignment(
+    user_id: string,
+    material_id: string,
+    data: SubmitAssignmentData
+  ) {
+    const assignment = await prisma.assignment.findUnique({
+      where: { material_id },
+      include: {
+        material: {
+          include: {
+            section: {
+              select: { course_id: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      throw new NotFoundError("Assignment not found");
+    }
+
+    const enrollment = await courseAccessService.getActiveEnrollment(
+      user_id,
+      assignment.material.section.course_id
+    );
+
+    const textAnswer = data.text_answer?.trim();
+
+    if (!textAnswer && !data.file) {
+      throw new ValidationError(
+        "Submission must include a file or text answer"
+      );
+    }
+
+    if (data.file && !assignment.allow_file) {
+      throw new ValidationError("File submissions are not allowed");
+    }
+
+    if (textAnswer && !assignment.allow_text) {
+      throw new ValidationError("Text submissions are not allowed");
+    }
+
+    // Deadline extension from the learner's accommodation
+    const accommodation = await accommodationService.resolveAccommodation(
+      user_id,
+      assignment.material.section.course_id
+    );
+    const extended = Boolean(
+      assignment.due_at && accommodation.deadline_extension_hours > 0
+    );
+    const effectiveDueAt = assignment.due_at
+      ? new Date(
+          new Date(assignment.due_at).getTime() +
+            accommodation.deadline_extension_hours * 60 * 60 * 1000
+        )
+      : null;
+
+    const now = new Date();
+    const isLate = effectiveDueAt ? now > effectiveDueAt : false;
+
+    if (isLate && !assignment.allow_late_submission) {
+      throw new AppError(
+        "The deadline for this assignment has passed",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // Check previous submission
+    const latest = await prisma.assignmentSubmission.findFirst({
+      where: { assignment_id: assignment.id, user_id },
+      orderBy: { attempt: "desc" },
+    });
+
+    if (latest) {
+      if (latest.status === ASSIGNMENT_SUBMISSION_STATUS.SUBMITTED) {
+        throw new ConflictError(
+          "Your previous submission is still awaiting grading"
+        );
+      }
+
+      if (!latest.resubmission_allowed) {
+        throw new ForbiddenError("Resubmission is not allowed");
+      }
+    }
+
+    // Upload after all checks pass so rejected submissions leave no files
+    const uploaded = data.file
+      ? await uploadService.uploadDocument(data.file)
+      : null;
+
+    const submission = await prisma.assignmentSubmission.create({
+      data: {
+        assignment_id: assignment.id,
+        user_id,
+        enrollment_id: enrollment.id,
+        attempt: (latest?.attempt ?? 0) + 1,
+        text_answer: textAnswer || null,
+        file_url: uploaded?.url,
+        file_path: uploaded?.path,
+        file_name: data.file?.originalname,
+        file_size: uploaded?.size,
+        file_mimetype: uploaded?.mimetype,
+        status: ASSIGNMENT_SUBMISSION_STATUS.SUBMITTED,
+        is_late: isLate,
+        effective_due_at: effectiveDueAt,
+        accommodation_source: extended ? accommodation.source : null,
+        accommodation_id: extended ? accommodation.accommodation_id : null,
+        submitted_at: now,
+      },
+    });
+
+    await prisma.enrollment.update({
+      where: { id: enrollment.id },
+      data: { last_accessed_at: now },
+    });
+
+    return submission;
+  }
+
+  /**
+   * Get user's submissions for an assignment material
+   */
+  async getUserSubmissions(user_id: string, material_id: string) {
+    const assignment = await prisma.assignment.findUnique({
+      where: { material_id },
+      select: { id: true },
+    });
+
+    if (!assignment) {
+      throw new NotFoundError("Assignment not found");
+    }
+
+    return prisma.assignmentSubmission.findMany({
+      where: { assignment_id: assignment.id, user_id },
+      orderBy: { attempt: "desc" },
+    });
+  }
+
+  /**
+   * Get submission by ID (owner, course mentor or admin)
+   */
+  async getSubmissionById(
+    user_id: string,
+    user_role: string,
+    submission_id: string
+  ) {
+    const submission = await prisma.assignmentSubmission.findUnique({
+      where: { id: submission_id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            full_name: true,
+            email: true,
+            avatar_url: true,
+          },
+        },
+        assignment: {
+          include: {
+            material: {
+              include: {
+                section: {
+                  include: {
+                    course: {
+                      include: { mentor: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundError("Submission not found");
+    }
+
+    const isOwner = submission.user_id === user_id;
+    const isCourseMentor =
+      submission.assignment.material.section.course.mentor.user_id === user_id;
+
+    if (user_role !== USER_ROLES.ADMIN && !isOwner && !isCourseMentor) {
+      throw new ForbiddenError(
+        "You do not have permission to view this submission"
+      );
+    }
+
+    return submission;
+  }
+
+  /**
+   * Get grading queue scoped to the mentor's courses
+   */
+  async getGradingQueue(
+    user_id: string,
+    user_role: string,
+    options: GradingQueueOptions = {}
+  ) {
+    const {
+      page = 1,
+      limit = 10,
+      course_id,
+      status = ASSIGNMENT_SUBMISSION_STATUS.SUBMITTED,
+    } = options;
+    const skip = (page - 1) * limit;
+
+    const courseFilter: Record<string, unknown> = {};
+
+    if (course_id) {
+      courseFilter.id = course_id;
+    }
+
+    // Mentors only see submissions for their own courses
+    if (user_role !== USER_ROLES.ADMIN) {
+      courseFilter.mentor = { user_id };
+    }
+
+    const where = {
+      status,
+      assignment: {
+        material: {
+          section: {
+            course: courseFilter,
+          },
+        },
+      },
+    };
+
+    const [submissions, total] = await Promise.all([
+      prisma.assignmentSubmission.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { submitted_at: "asc" },
+        include: {
+          user: {
+            select: {
+              id: true,
+              full_name: true,
+              email: true,
+              avatar_url: true,
+            },
+          },
+          assignment: {
+            select: {
+              id: true,
+              max_score: true,
+              passing_score: true,
+              due_at: true,
+              material: {
+                select: {
+                  id: true,
+                  title: true,
+                  section: {
+                    select: {
+                      course: {
+                        select: {
+                          id: true,
+                          title: true,
+                          slug: true,
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.assignmentSubmission.count({ where }),
+    ]);
+
+    return {
+      data: submissions,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Grade submission
+   */
+  async gradeSubmission(
+    user_id: string,
+    user_role: string,
+    submission_id: string,
+    data: GradeSubmissionData
+  ) {
+    const submission = await prisma.assignmentSubmission.findUnique({
+      where: { id: submission_id },
+      include: {
+        assignment: {
+          include: {
+            material: {
+              include: {
+                section: {
+                  include: {
+                    course: {
+                      include: { mentor: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundError("Submission not found");
+    }
+
+    const assignment = submission.assignment;
+
+    // Check permission
+    if (
+      user_role !== USER_ROLES.ADMIN &&
+      assignment.material.section.course.mentor.user_id !== user_id
+    ) {
+      throw new ForbiddenError(
+        "You do not have permission to grade this submission"
+      );
+    }
+
+    const rubric = (assignment.rubric as RubricCriterion[] | null) || [];
+    let score = data.score;
+
+    if (data.rubric_scores && data.rubric_scores.length > 0) {
+      const criteria = new Map(rubric.map((c) => [c.id, c]));
+
+      for (const item of data.rubric_scores) {
+        const criterion = criteria.get(item.criterion_id);
+        if (!criterion) {
+          throw new ValidationError(
+            `Unknown rubric criterion: ${item.criterion_id}`
+          );
+        }
+        if (item.points > criterion.max_points) {
+          throw new ValidationError(
+            `Points for "${criterion.criterion}" exceed the maximum of ${criterion.max_points}`
+          );
+        }
+      }
+
+      // Total score comes from the rubric; an explicit score must match it
+      const rubricTotal = data.rubric_scores.reduce(
+        (sum, item) => sum + item.points,
+        0
+      );
+
+      if (score !== undefined && Math.abs(score - rubricTotal) > 1e-6) {
+        throw new ValidationError(
+          `Score must equal the rubric total of ${rubricTotal}`
+        );
+      }
+
+      score = rubricTotal;
+    }
+
+    if (score === undefined) {
+      throw new ValidationError("Score or rubric scores are required");
+    }
+
+    if (score > assignment.max_score) {
+      throw new ValidationError(
+        `Score cannot exceed the maximum of ${assignment.max_score}`
+      );
+    }
+
+    const gradedAt = new Date();
+
+    const graded = await prisma.assignmentSubmission.update({
+      where: { id: submission_id },
+      data: {
+        status: ASSIGNMENT_SUBMISSION_STATUS.GRADED,
+        score,
+        feedback: data.feedback,
+        rubric_scores: data.rubric_scores,
+        resubmission_allowed: data.resubmission_allowed ?? false,
+        graded_by: user_id,
+        graded_at: gradedAt,
+      },
+    });
+
+    if (score >= assignment.passing_score) {
+      await progressService.markMaterialCompleted(
+        submission.enrollment_id,
+        assignment.material_id,
+        submission.user_id,
+        gradedAt
+      );
+    }
+
+    // Notify student (failure should not roll back the grade)
+    try {
+      await notificationService.notifyAssignmentGraded(
+        submission.user_id,
+        assignment.material.title,
+        score,
+        submission_id
+      );
+    } catch (error) {
+      logError("Failed to send assignment graded notification", error);
+    }
+
+    return graded;
+  }
+
+  /**
+   * Get ASSIGNMENT material and check manage permission
+   */
+  private async getManageableMaterial(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      include: {
+        section: {
+          include: {
+            course: {
+              include: {
+                mentor: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!material) {
+      throw new NotFoundError("Material not found");
+    }
+
+    if (
+      user_role !== USER_ROLES.ADMIN &&
+      material.section.course.mentor.user_id !== user_id
+    ) {
+      throw new ForbiddenError(
+        "You do not have permission to manage this assignment"
+      );
+    }
+
+    if (material.type !== MATERIAL_TYPE.ASSIGNMENT) {
+      throw new AppError(
+        "Material is not an assignment",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    return material;
+  }
+}
+
+const assignmentService = new AssignmentService();
+export default assignmentService;
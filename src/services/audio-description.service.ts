@@ -0,0 +1,291 @@
+import path from "path";
+import fs from "fs/promises";
+import prisma from "@/lib/prisma";
+import { storage } from "@/lib/storage";
+import {
+  addUniqueJob,
+  getPendingJob,
+  getPipelineJobId,
+  VIDEO_JOBS,
+} from "@/lib/queue";
+import { videoStreaming } from "@/lib/streaming";
+import { videoConfig } from "@/config/video.config";
+import videoProcessor from "@/utils/video-processor.util";
+import {
+  ensureDirectoryExists,
+  getFileExtension,
+  formatFileSize,
+} from "@/utils/file.util";
+import type { MulterFile } from "./upload.service";
+import videoRenditionService from "./video-rendition.service";
+import courseAccessService from "./course-access.service";
+import type {
+  VideoQuality,
+  AudioDescriptionJobData,
+} from "@/types/video.types";
+import { NotFoundError, AppError, ConflictError } from "@/utils/error.util";
+import { HTTP_STATUS, VIDEO_STATUS, VIDEO_VARIANT } from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+type SourceKind = AudioDescriptionJobData["kind"];
+
+/**
+ * Audio Description Service
+ * Handles audio-described renditions of videos for blind/low vision learners
+ */
+export class AudioDescriptionService {
+  /**
+   * Attach audio description (narrated audio track or full narrated video)
+   */
+  async uploadAudioDescription(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    file: MulterFile
+  ) {
+    const video = await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage audio description for this video"
+    );
+
+    if (video.status !== VIDEO_STATUS.COMPLETED) {
+      throw new AppError(
+        "Video must finish processing before adding audio description",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (await this.isProcessing(video_id)) {
+      throw new ConflictError("Audio description is already being processed");
+    }
+
+    if (file.size > videoConfig.audioDescription.maxFileSize) {
+      throw new AppError(
+        `Audio description file too large. Max size: ${formatFileSize(
+          videoConfig.audioDescription.maxFileSize
+        )}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const extension = getFileExtension(file.originalname).replace(".", "");
+    const kind = this.getSourceKind(extension);
+
+    if (!kind) {
+      throw new AppError(
+        `Unsupported file format. Allowed: ${[
+          ...videoConfig.audioDescription.allowedAudioFormats,
+          ...videoConfig.upload.allowedFormats,
+        ].join(", ")}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const renditions = await videoRenditionService.getRenditions(
+      video_id,
+      VIDEO_VARIANT.STANDARD
+    );
+
+    if (renditions.length === 0) {
+      throw new AppError(
+        "Video has no processed renditions",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // The upload was streamed to a temp file, move it next to the job
+    const sourcePath = path.join(
+      videoConfig.storage.tempDirectory,
+      `${video_id}-ad-source.${extension}`
+    );
+    const sourceFullPath = path.join(process.cwd(), "uploads", sourcePath);
+    await fs.rename(file.path, sourceFullPath);
+
+    // Encoding every rendition takes a while, the video worker runs it
+    try {
+      await addUniqueJob(
+        VIDEO_JOBS.AUDIO_DESCRIPTION,
+        {
+          videoId: video_id,
+          sourcePath,
+          kind,
+          renditions: renditions.map((rendition) => ({
+            quality: rendition.quality,
+            path: rendition.path,
+          })),
+        },
+        getPipelineJobId(VIDEO_JOBS.AUDIO_DESCRIPTION, video_id)
+      );
+    } catch (error) {
+      await fs.rm(sourceFullPath, { force: true });
+      throw error;
+    }
+
+    return {
+      video_id,
+      variant: VIDEO_VARIANT.AUDIO_DESCRIPTION,
+      source: kind,
+      qualities: renditions.map((rendition) => rendition.quality),
+      status: VIDEO_STATUS.PROCESSING,
+    };
+  }
+
+  /**
+   * Produce one audio-described file per standard rendition (worker job)
+   */
+  async processAudioDescription(
+    video_id: string,
+    source_path: string,
+    kind: SourceKind,
+    renditions: Array<{ quality: VideoQuality; path: string }>
+  ) {
+    const sourceFullPath = path.join(process.cwd(), "uploads", source_path);
+    let produced = 0;
+
+    try {
+      for (const rendition of renditions) {
+        const outputPath = videoStreaming.getVideoPath(
+          video_id,
+          rendition.quality,
+          VIDEO_VARIANT.AUDIO_DESCRIPTION
+        );
+        const fullOutputPath = path.join(process.cwd(), "uploads", outputPath);
+
+        try {
+          await ensureDirectoryExists(path.dirname(fullOutputPath));
+
+          if (kind === "audio") {
+            await videoProcessor.muxAudioTrack(
+              path.join(process.cwd(), "uploads", rendition.path),
+              sourceFullPath,
+              fullOutputPath
+            );
+          } else {
+            await videoProcessor.convertToQuality(
+              sourceFullPath,
+              fullOutputPath,
+              rendition.quality
+            );
+          }
+
+          await videoRenditionService.recordRendition(
+            video_id,
+            rendition.quality,
+            VIDEO_VARIANT.AUDIO_DESCRIPTION,
+            outputPath
+          );
+
+          produced++;
+        } catch (error) {
+          logError(
+            `Failed to produce audio description ${rendition.quality}`,
+            error
+          );
+          // Continue with other qualities
+        }
+      }
+
+      logInfo("Audio description processed", {
+        videoId: video_id,
+        source: kind,
+        qualities: produced,
+      });
+    } finally {
+      await fs.rm(sourceFullPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove audio-described renditions of a video
+   */
+  async removeAudioDescription(
+    user_id: string,
+    user_role: string,
+    video_id: string
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage audio description for this video"
+    );
+
+    if (await this.isProcessing(video_id)) {
+      throw new ConflictError("Audio description is still being processed");
+    }
+
+    const renditions = await prisma.videoQuality_Model.findMany({
+      where: { video_id, variant: VIDEO_VARIANT.AUDIO_DESCRIPTION },
+      select: { path: true },
+    });
+
+    if (renditions.length === 0) {
+      throw new NotFoundError("Audio description not found");
+    }
+
+    await prisma.videoQuality_Model.deleteMany({
+      where: { video_id, variant: VIDEO_VARIANT.AUDIO_DESCRIPTION },
+    });
+
+    for (const rendition of renditions) {
+      try {
+        await storage.delete(rendition.path);
+      } catch (error) {
+        logError(`Failed to delete file: ${rendition.path}`, error);
+      }
+    }
+
+    return { video_id, deleted: true };
+  }
+
+  /**
+   * Check whether the video has audio-described renditions
+   */
+  async hasAudioDescription(video_id: string): Promise<boolean> {
+    const count = await prisma.videoQuality_Model.count({
+      where: { video_id, variant: VIDEO_VARIANT.AUDIO_DESCRIPTION },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Check whether audio-described renditions are being produced
+   */
+  async isProcessing(video_id: string): Promise<boolean> {
+    try {
+      return !!(await getPendingJob(
+        getPipelineJobId(VIDEO_JOBS.AUDIO_DESCRIPTION, video_id)
+      ));
+    } catch (error) {
+      logError("Failed to check audio description job", error);
+      return false;
+    }
+  }
+
+  /**
+   * Detect whether the upload is an audio track or a narrated video
+   */
+  private getSourceKind(extension: string): SourceKind | null {
+    const { allowedAudioFormats } = videoConfig.audioDescription;
+
+    if ((allowedAudioFormats as readonly string[]).includes(extension)) {
+      return "audio";
+    }
+
+    if (
+      (videoConfig.upload.allowedFormats as readonly string[]).includes(
+        extension
+      )
+    ) {
+      return "video";
+    }
+
+    return null;
+  }
+}
+
+const audioDescriptionService = new AudioDescriptionService();
+export default audioDescriptionService;
@@ -11,6 +11,7 @@ import {
   verifyRefreshToken,
 } from "@/lib/auth";
 import emailService, { EmailResult } from "./email.service";
+import accessibilityService from "./accessibility.service";
 import {
   AppError,
   UnauthorizedError,
@@ -104,6 +105,10 @@ export class AuthService {
           role,
           status: USER_STATUS.ACTIVE,
           email_verified: false,
+          accessibility_preference: {
+            create:
+              accessibilityService.getDefaultPreferences(disability_type),
+          },
         },
         select: {
           id: true,
@@ -111,6 +116,7 @@ export class AuthService {
           full_name: true,
           disability_type: true,
           role: true,
+          language: true,
         },
       });
 
@@ -136,7 +142,8 @@ export class AuthService {
       this.sendVerificationEmailAsync(
         user.email,
         user.full_name,
-        verificationToken
+        verificationToken,
+        user.language
       );
 
       // Generate tokens
@@ -348,7 +355,8 @@ export class AuthService {
       console.log("📧 Sending welcome email...");
       this.sendWelcomeEmailAsync(
         verificationToken.user.email,
-        verificationToken.user.full_name
+        verificationToken.user.full_name,
+        verificationToken.user.language
       );
 
       console.log(
@@ -419,7 +427,8 @@ export class AuthService {
         await emailService.sendPasswordResetEmail(
           user.email,
           user.full_name,
-          resetToken
+          resetToken,
+          user.language
         );
 
       if (!emailResult.success) {
@@ -634,7 +643,8 @@ export class AuthService {
       const emailResult: EmailResult = await emailService.sendVerificationEmail(
         user.email,
         user.full_name,
-        verificationToken
+        verificationToken,
+        user.language
       );
 
       if (!emailResult.success) {
@@ -685,6 +695,9 @@ export class AuthService {
         throw new NotFoundError("User not found");
       }
 
+      const accessibilityPreferences =
+        await accessibilityService.getPreferences(user.id);
+
       console.log("✅ User data retrieved successfully for:", userId);
 
       return {
@@ -700,6 +713,7 @@ export class AuthService {
         email_verified: user.email_verified,
         created_at: user.created_at,
         last_login: user.last_login,
+        accessibility_preferences: accessibilityPreferences,
       };
     } catch (error) {
       console.error("❌ Get current user failed:", error);
@@ -727,10 +741,11 @@ export class AuthService {
   private async sendVerificationEmailAsync(
     to: string,
     userName: string,
-    token: string
+    token: string,
+    locale?: string
   ): Promise<void> {
     try {
-      await emailService.sendVerificationEmail(to, userName, token);
+      await emailService.sendVerificationEmail(to, userName, token, locale);
     } catch (error) {
       console.error("❌ Async verification email failed:", error);
       // Don't throw error, just log it
@@ -742,10 +757,11 @@ export class AuthService {
    */
   private async sendWelcomeEmailAsync(
     to: string,
-    userName: string
+    userName: string,
+    locale?: string
   ): Promise<void> {
     try {
-      await emailService.sendWelcomeEmail(to, userName);
+      await emailService.sendWelcomeEmail(to, userName, locale);
     } catch (error) {
       console.error("❌ Async welcome email failed:", error);
       // Don't throw error, just log it
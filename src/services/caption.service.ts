@@ -0,0 +1,260 @@
+import path from "path";
+import prisma from "@/lib/prisma";
+import { storage } from "@/lib/storage";
+import { videoConfig } from "@/config/video.config";
+import type { MulterFile } from "./upload.service";
+import courseAccessService from "./course-access.service";
+import accessibilityAuditService from "./accessibility-audit.service";
+import {
+  detectCaptionFormat,
+  normalizeCaptionText,
+  validateCaption,
+  srtToVtt,
+} from "@/utils/caption.util";
+import { formatFileSize } from "@/utils/file.util";
+import { NotFoundError, AppError, ValidationError } from "@/utils/error.util";
+import { HTTP_STATUS, MATERIAL_TYPE } from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Caption Upload Data
+ */
+interface UploadCaptionData {
+  language: string;
+  label?: string;
+  is_default?: boolean;
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  id: "Bahasa Indonesia",
+  en: "English",
+};
+
+/**
+ * Caption Service
+ * Handles caption/subtitle tracks (SRT/WebVTT) for videos
+ */
+export class CaptionService {
+  /**
+   * Upload caption track for a video (replaces existing language track)
+   */
+  async uploadCaption(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    file: MulterFile,
+    data: UploadCaptionData
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage captions for this video"
+    );
+
+    if (file.size > videoConfig.captions.maxFileSize) {
+      throw new AppError(
+        `Caption file too large. Max size: ${formatFileSize(
+          videoConfig.captions.maxFileSize
+        )}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const content = file.buffer.toString("utf-8");
+    const format = detectCaptionFormat(file.originalname, content);
+
+    if (!format) {
+      throw new AppError(
+        "Caption file must be SRT or WebVTT",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const result = validateCaption(content, format);
+    if (!result.valid) {
+      throw new ValidationError(
+        `Invalid caption file: ${result.errors.slice(0, 5).join("; ")}`
+      );
+    }
+
+    const vtt =
+      format === "SRT"
+        ? srtToVtt(content)
+        : `${normalizeCaptionText(content)}\n`;
+    const captionPath = path.join(
+      videoConfig.captions.directory,
+      video_id,
+      `${data.language}.vtt`
+    );
+
+    await storage.save(captionPath, Buffer.from(vtt, "utf-8"));
+
+    const existingCount = await prisma.videoCaption.count({
+      where: { video_id },
+    });
+    // First track becomes the default one
+    const is_default = data.is_default ?? existingCount === 0;
+
+    if (is_default) {
+      await prisma.videoCaption.updateMany({
+        where: { video_id, NOT: { language: data.language } },
+        data: { is_default: false },
+      });
+    }
+
+    const label =
+      data.label || LANGUAGE_LABELS[data.language] || data.language;
+
+    const caption = await prisma.videoCaption.upsert({
+      where: {
+        video_id_language: {
+          video_id,
+          language: data.language,
+        },
+      },
+      create: {
+        video_id,
+        language: data.language,
+        label,
+        source_format: format,
+        path: captionPath,
+        cue_count: result.cues.length,
+        is_default,
+        uploaded_by: user_id,
+      },
+      update: {
+        label,
+        source_format: format,
+        path: captionPath,
+        cue_count: result.cues.length,
+        is_default,
+        uploaded_by: user_id,
+      },
+    });
+
+    logInfo("Caption uploaded", {
+      videoId: video_id,
+      language: data.language,
+      cues: result.cues.length,
+    });
+
+    accessibilityAuditService.refreshAudit({ video_id });
+
+    return caption;
+  }
+
+  /**
+   * Get caption tracks of a video
+   */
+  async getCaptions(video_id: string) {
+    return prisma.videoCaption.findMany({
+      where: { video_id },
+      orderBy: [{ is_default: "desc" }, { language: "asc" }],
+      select: {
+        id: true,
+        language: true,
+        label: true,
+        source_format: true,
+        cue_count: true,
+        is_default: true,
+        updated_at: true,
+      },
+    });
+  }
+
+  /**
+   * Get WebVTT content of a caption track
+   */
+  async getCaptionContent(video_id: string, language: string) {
+    const caption = await prisma.videoCaption.findUnique({
+      where: {
+        video_id_language: {
+          video_id,
+          language,
+        },
+      },
+    });
+
+    if (!caption) {
+      throw new NotFoundError("Caption track not found");
+    }
+
+    try {
+      const buffer = await storage.get(caption.path);
+      return {
+        language: caption.language,
+        label: caption.label,
+        content: buffer.toString("utf-8"),
+      };
+    } catch (error) {
+      logError(`Caption file missing: ${caption.path}`, error);
+      throw new NotFoundError("Caption file not found");
+    }
+  }
+
+  /**
+   * Delete caption track
+   */
+  async deleteCaption(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    language: string
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage captions for this video"
+    );
+
+    const caption = await prisma.videoCaption.findUnique({
+      where: {
+        video_id_language: {
+          video_id,
+          language,
+        },
+      },
+    });
+
+    if (!caption) {
+      throw new NotFoundError("Caption track not found");
+    }
+
+    await prisma.videoCaption.delete({
+      where: { id: caption.id },
+    });
+
+    try {
+      await storage.delete(caption.path);
+    } catch (error) {
+      logError(`Failed to delete caption file: ${caption.path}`, error);
+    }
+
+    accessibilityAuditService.refreshAudit({ video_id });
+
+    return { video_id, language, deleted: true };
+  }
+
+  /**
+   * Get video materials of a course that have no caption track
+   */
+  async getMaterialsMissingCaptions(course_id: string) {
+    return prisma.material.findMany({
+      where: {
+        type: MATERIAL_TYPE.VIDEO,
+        section: { course_id },
+        OR: [{ video_id: null }, { video: { captions: { none: {} } } }],
+      },
+      select: {
+        id: true,
+        title: true,
+        video_id: true,
+      },
+    });
+  }
+}
+
+const captionService = new CaptionService();
+export default captionService;
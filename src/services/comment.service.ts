@@ -0,0 +1,442 @@
+import prisma from "@/lib/prisma";
+import notificationService from "./notification.service";
+import courseAccessService from "./course-access.service";
+import { NotFoundError, ForbiddenError, AppError } from "@/utils/error.util";
+import { HTTP_STATUS, USER_ROLES } from "@/lib/constants";
+import { logError } from "@/utils/logger.util";
+
+/**
+ * Comment Creation Data
+ */
+interface CreateCommentData {
+  material_id: string;
+  content: string;
+  parent_id?: string;
+}
+
+/**
+ * Comment Moderation Data
+ */
+interface ModerateCommentData {
+  is_pinned?: boolean;
+  is_hidden?: boolean;
+  is_locked?: boolean;
+}
+
+/**
+ * Comment List Filters
+ */
+interface CommentListFilters {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Access of a user to a material's discussion
+ */
+interface DiscussionAccess {
+  material: {
+    id: string;
+    title: string;
+    course_id: string;
+  };
+  is_moderator: boolean;
+}
+
+const authorSelect = {
+  id: true,
+  full_name: true,
+  avatar_url: true,
+  role: true,
+};
+
+/**
+ * Comment Service
+ * Handles threaded lesson discussions and moderation
+ */
+export class CommentService {
+  /**
+   * Create comment or reply
+   */
+  async createComment(
+    user_id: string,
+    user_role: string,
+    data: CreateCommentData
+  ) {
+    const access = await this.getDiscussionAccess(
+      user_id,
+      user_role,
+      data.material_id
+    );
+
+    let parent: any = null;
+
+    if (data.parent_id) {
+      parent = await prisma.comment.findUnique({
+        where: { id: data.parent_id },
+        include: {
+          parent: {
+            select: { id: true, is_locked: true, is_hidden: true },
+          },
+        },
+      });
+
+      if (!parent || parent.material_id !== data.material_id) {
+        throw new NotFoundError("Parent comment not found");
+      }
+
+      // Threads are one level deep: replies to replies join the root thread
+      const root = parent.parent ?? parent;
+
+      if (root.is_hidden || parent.is_deleted) {
+        throw new AppError(
+          "Cannot reply to this comment",
+          HTTP_STATUS.BAD_REQUEST
+        );
+      }
+
+      if (root.is_locked && !access.is_moderator) {
+        throw new ForbiddenError("This thread is locked");
+      }
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        user_id,
+        material_id: data.material_id,
+        parent_id: parent ? parent.parent_id ?? parent.id : null,
+        content: data.content,
+      },
+      include: {
+        user: { select: authorSelect },
+      },
+    });
+
+    if (parent && parent.user_id !== user_id) {
+      try {
+        await notificationService.notifyCommentReply(
+          parent.user_id,
+          comment.user.full_name,
+          access.material.title,
+          comment.id,
+          data.material_id
+        );
+      } catch (error) {
+        logError("Failed to send comment reply notification", error);
+      }
+    }
+
+    return comment;
+  }
+
+  /**
+   * Get threaded comments for a material
+   */
+  async getMaterialComments(
+    user_id: string,
+    user_role: string,
+    material_id: string,
+    filters: CommentListFilters = {}
+  ) {
+    const { page = 1, limit = 20 } = filters;
+    const skip = (page - 1) * limit;
+
+    const access = await this.getDiscussionAccess(
+      user_id,
+      user_role,
+      material_id
+    );
+
+    const visibility = access.is_moderator ? {} : { is_hidden: false };
+    const where = {
+      material_id,
+      parent_id: null,
+      ...visibility,
+    };
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ is_pinned: "desc" }, { created_at: "desc" }],
+        include: {
+          user: { select: authorSelect },
+          replies: {
+            where: visibility,
+            orderBy: { created_at: "asc" },
+            include: {
+              user: { select: authorSelect },
+            },
+          },
+        },
+      }),
+      prisma.comment.count({ where }),
+    ]);
+
+    return {
+      data: comments.map((comment: any) => ({
+        ...this.formatComment(comment),
+        replies: comment.replies.map((reply: any) =>
+          this.formatComment(reply)
+        ),
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Edit own comment
+   */
+  async updateComment(
+    comment_id: string,
+    user_id: string,
+    user_role: string,
+    content: string
+  ) {
+    const comment = await this.getCommentById(comment_id);
+
+    if (comment.user_id !== user_id) {
+      throw new ForbiddenError("You can only edit your own comments");
+    }
+
+    if (comment.is_deleted) {
+      throw new AppError(
+        "Deleted comments cannot be edited",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const access = await this.getDiscussionAccess(
+      user_id,
+      user_role,
+      comment.material_id
+    );
+
+    const root = comment.parent ?? comment;
+    if (root.is_locked && !access.is_moderator) {
+      throw new ForbiddenError("This thread is locked");
+    }
+
+    return prisma.comment.update({
+      where: { id: comment_id },
+      data: {
+        content,
+        is_edited: true,
+      },
+      include: {
+        user: { select: authorSelect },
+      },
+    });
+  }
+
+  /**
+   * Delete comment (author or moderator)
+   */
+  async deleteComment(comment_id: string, user_id: string, user_role: string) {
+    const comment = await this.getCommentById(comment_id);
+
+    if (comment.user_id !== user_id) {
+      const isModerator = await this.isModerator(
+        user_id,
+        user_role,
+        comment.material_id
+      );
+
+      if (!isModerator) {
+        throw new ForbiddenError(
+          "You do not have permission to delete this comment"
+        );
+      }
+    }
+
+    // Keep the thread readable when other people already replied
+    if (comment._count.replies > 0) {
+      await prisma.comment.update({
+        where: { id: comment_id },
+        data: {
+          is_deleted: true,
+          content: "",
+        },
+      });
+    } else {
+      await prisma.comment.delete({
+        where: { id: comment_id },
+      });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Pin, hide or lock a comment (course mentor or admin)
+   */
+  async moderateComment(
+    comment_id: string,
+    user_id: string,
+    user_role: string,
+    data: ModerateCommentData
+  ) {
+    const comment = await this.getCommentById(comment_id);
+
+    const isModerator = await this.isModerator(
+      user_id,
+      user_role,
+      comment.material_id
+    );
+
+    if (!isModerator) {
+      throw new ForbiddenError(
+        "You do not have permission to moderate this discussion"
+      );
+    }
+
+    if (
+      comment.parent_id &&
+      (data.is_pinned !== undefined || data.is_locked !== undefined)
+    ) {
+      throw new AppError(
+        "Only top-level comments can be pinned or locked",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    return prisma.comment.update({
+      where: { id: comment_id },
+      data: {
+        ...(data.is_pinned !== undefined && { is_pinned: data.is_pinned }),
+        ...(data.is_hidden !== undefined && { is_hidden: data.is_hidden }),
+        ...(data.is_locked !== undefined && { is_locked: data.is_locked }),
+        moderated_by: user_id,
+        moderated_at: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Get comment with thread root and reply count
+   */
+  private async getCommentById(comment_id: string) {
+    const comment = await prisma.comment.findUnique({
+      where: { id: comment_id },
+      include: {
+        parent: {
+          select: { id: true, is_locked: true },
+        },
+        _count: {
+          select: { replies: true },
+        },
+      },
+    });
+
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    return comment;
+  }
+
+  /**
+   * Check user can read/write the material discussion
+   */
+  private async getDiscussionAccess(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ): Promise<DiscussionAccess> {
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      select: {
+        id: true,
+        title: true,
+        section: {
+          select: {
+            course_id: true,
+            course: {
+              select: {
+                mentor: {
+                  select: { user_id: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!material) {
+      throw new NotFoundError("Material not found");
+    }
+
+    const course_id = material.section.course_id;
+    const is_moderator =
+      user_role === USER_ROLES.ADMIN ||
+      material.section.course.mentor.user_id === user_id;
+
+    if (!is_moderator) {
+      await courseAccessService.getActiveEnrollment(user_id, course_id);
+    }
+
+    return {
+      material: {
+        id: material.id,
+        title: material.title,
+        course_id,
+      },
+      is_moderator,
+    };
+  }
+
+  /**
+   * Check user is the course mentor or an admin
+   */
+  private async isModerator(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    if (user_role === USER_ROLES.ADMIN) return true;
+
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      select: {
+        section: {
+          select: {
+            course: {
+              select: {
+                mentor: {
+                  select: { user_id: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return material?.section.course.mentor.user_id === user_id;
+  }
+
+  /**
+   * Mask deleted comments
+   */
+  private formatComment(comment: any) {
+    const { replies, ...rest } = comment;
+
+    if (!comment.is_deleted) return rest;
+
+    return {
+      ...rest,
+      content: null,
+      user: null,
+    };
+  }
+}
+
+const commentService = new CommentService();
+export default commentService;
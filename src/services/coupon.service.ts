@@ -0,0 +1,574 @@
+import prisma from "@/lib/prisma";
+import courseService from "./course.service";
+import mentorService from "./mentor.service";
+import {
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  USER_ROLES,
+  COURSE_STATUS,
+  COUPON_TYPE,
+  TRANSACTION_STATUS,
+} from "@/lib/constants";
+
+/**
+ * Coupon Creation Data
+ */
+interface CreateCouponData {
+  code: string;
+  type: string;
+  value: number;
+  description?: string;
+  courseId?: string;
+  maxDiscount?: number | null;
+  minPurchase?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  usageLimit?: number | null;
+  perUserLimit?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Coupon Update Data
+ */
+type UpdateCouponData = Partial<
+  Omit<CreateCouponData, "code" | "type" | "courseId">
+>;
+
+/**
+ * Coupon List Filters
+ */
+interface CouponListFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Course data needed to apply a coupon
+ */
+interface CouponCourse {
+  id: string;
+  mentor_id: string;
+}
+
+/**
+ * Coupon Service
+ * Handles discount codes, checkout validation and usage reporting
+ */
+export class CouponService {
+  /**
+   * Create coupon (mentor coupons are scoped to the mentor's courses)
+   */
+  async createCoupon(
+    userId: string,
+    userRole: string,
+    data: CreateCouponData
+  ) {
+    const code = this.normalizeCode(data.code);
+    let mentorId: string | null = null;
+
+    if (userRole !== USER_ROLES.ADMIN) {
+      const mentor = await mentorService.getMentorByUserId(userId);
+      mentorId = mentor.id;
+    }
+
+    if (data.courseId) {
+      const course = await prisma.course.findUnique({
+        where: { id: data.courseId },
+        select: { id: true, mentor_id: true },
+      });
+
+      if (!course) {
+        throw new NotFoundError("Course not found");
+      }
+
+      if (mentorId && course.mentor_id !== mentorId) {
+        throw new ForbiddenError(
+          "You can only create coupons for your own courses"
+        );
+      }
+    }
+
+    const existing = await prisma.coupon.findUnique({
+      where: { code },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictError("Coupon code already exists");
+    }
+
+    return prisma.coupon.create({
+      data: {
+        code,
+        type: data.type,
+        value: data.value,
+        description: data.description,
+        course_id: data.courseId ?? null,
+        mentor_id: mentorId,
+        created_by: userId,
+        max_discount: data.maxDiscount ?? null,
+        min_purchase: data.minPurchase ?? null,
+        starts_at: data.startsAt ? new Date(data.startsAt) : null,
+        expires_at: data.expiresAt ? new Date(data.expiresAt) : null,
+        usage_limit: data.usageLimit ?? null,
+        per_user_limit: data.perUserLimit ?? 1,
+        is_active: data.isActive ?? true,
+      },
+    });
+  }
+
+  /**
+   * Update coupon
+   */
+  async updateCoupon(
+    couponId: string,
+    userId: string,
+    userRole: string,
+    data: UpdateCouponData
+  ) {
+    const coupon = await this.getManageableCoupon(couponId, userId, userRole);
+
+    if (
+      coupon.type === COUPON_TYPE.PERCENTAGE &&
+      data.value !== undefined &&
+      data.value > 100
+    ) {
+      throw new AppError(
+        "Percentage discount cannot exceed 100",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    return prisma.coupon.update({
+      where: { id: couponId },
+      data: {
+        ...(data.value !== undefined && { value: data.value }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.maxDiscount !== undefined && {
+          max_discount: data.maxDiscount,
+        }),
+        ...(data.minPurchase !== undefined && {
+          min_purchase: data.minPurchase,
+        }),
+        ...(data.startsAt !== undefined && {
+          starts_at: data.startsAt ? new Date(data.startsAt) : null,
+        }),
+        ...(data.expiresAt !== undefined && {
+          expires_at: data.expiresAt ? new Date(data.expiresAt) : null,
+        }),
+        ...(data.usageLimit !== undefined && {
+          usage_limit: data.usageLimit,
+        }),
+        ...(data.perUserLimit !== undefined && {
+          per_user_limit: data.perUserLimit,
+        }),
+        ...(data.isActive !== undefined && { is_active: data.isActive }),
+      },
+    });
+  }
+
+  /**
+   * Deactivate coupon (kept for redemption history)
+   */
+  async deactivateCoupon(couponId: string, userId: string, userRole: string) {
+    await this.getManageableCoupon(couponId, userId, userRole);
+
+    return prisma.coupon.update({
+      where: { id: couponId },
+      data: { is_active: false },
+    });
+  }
+
+  /**
+   * Get coupons owned by the user (all coupons for admin)
+   */
+  async getCoupons(
+    userId: string,
+    userRole: string,
+    filters: CouponListFilters = {}
+  ) {
+    const { page = 1, limit = 20, search, isActive } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (userRole !== USER_ROLES.ADMIN) {
+      const mentor = await mentorService.getMentorByUserId(userId);
+      where.mentor_id = mentor.id;
+    }
+
+    if (search) {
+      where.code = { contains: search.toUpperCase() };
+    }
+
+    if (isActive !== undefined) {
+      where.is_active = isActive;
+    }
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+        include: {
+          course: {
+            select: {
+              id: true,
+              title: true,
+            },
+          },
+          _count: {
+            select: { redemptions: true },
+          },
+        },
+      }),
+      prisma.coupon.count({ where }),
+    ]);
+
+    return {
+      data: coupons,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Preview coupon discount for a course before checkout
+   */
+  async previewCoupon(userId: string, courseId: string, code: string) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: {
+        id: true,
+        mentor_id: true,
+        price: true,
+        discount_price: true,
+        is_free: true,
+        status: true,
+      },
+    });
+
+    if (!course || course.status !== COURSE_STATUS.PUBLISHED) {
+      throw new NotFoundError("Course not found");
+    }
+
+    const price = courseService.getEffectivePrice(course);
+    const { coupon, discount, total } = await this.validateCoupon(
+      code,
+      userId,
+      course,
+      price
+    );
+
+    return {
+      code: coupon.code,
+      type: coupon.type,
+      value: coupon.value,
+      price,
+      discount,
+      total_amount: total,
+    };
+  }
+
+  /**
+   * Validate coupon for a checkout and compute the discount
+   */
+  async validateCoupon(
+    code: string,
+    userId: string,
+    course: CouponCourse,
+    amount: number
+  ) {
+    const coupon = await prisma.coupon.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+
+    if (!coupon || !coupon.is_active) {
+      throw new AppError("Invalid coupon code", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const now = new Date();
+
+    if (coupon.starts_at && coupon.starts_at > now) {
+      throw new AppError("Coupon is not active yet", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    if (coupon.expires_at && coupon.expires_at <= now) {
+      throw new AppError("Coupon has expired", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // Scope: specific course, or any course of the owning mentor
+    if (
+      (coupon.course_id && coupon.course_id !== course.id) ||
+      (coupon.mentor_id && coupon.mentor_id !== course.mentor_id)
+    ) {
+      throw new AppError(
+        "Coupon is not valid for this course",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (coupon.min_purchase && amount < coupon.min_purchase) {
+      throw new AppError(
+        `Coupon requires a minimum purchase of ${coupon.min_purchase}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    await this.assertUsageAvailable(coupon, userId, course.id);
+
+    const discount = this.calculateDiscount(coupon, amount);
+
+    return {
+      coupon,
+      discount,
+      total: amount - discount,
+    };
+  }
+
+  /**
+   * Check the coupon usage caps. Checkout calls this again inside its
+   * transaction after locking the coupon row and cancelling the user's
+   * earlier pending checkouts, so the caps hold under concurrent checkouts.
+   * Pass replacingCourseId to leave out a pending checkout of that course
+   * that the next checkout cancels.
+   */
+  async assertUsageAvailable(
+    coupon: { id: string; usage_limit: number | null; per_user_limit: number },
+    userId: string,
+    replacingCourseId: string | null,
+    client: any = prisma
+  ) {
+    const activeRedemptions = {
+      coupon_id: coupon.id,
+      transaction: {
+        OR: [
+          { status: TRANSACTION_STATUS.PAID },
+          {
+            status: TRANSACTION_STATUS.PENDING,
+            expired_at: { gt: new Date() },
+          },
+        ],
+      },
+      ...(replacingCourseId && {
+        NOT: {
+          transaction: {
+            user_id: userId,
+            course_id: replacingCourseId,
+            status: TRANSACTION_STATUS.PENDING,
+          },
+        },
+      }),
+    };
+
+    const [totalUsage, userUsage] = await Promise.all([
+      coupon.usage_limit !== null
+        ? client.couponRedemption.count({ where: activeRedemptions })
+        : Promise.resolve(0),
+      client.couponRedemption.count({
+        where: { ...activeRedemptions, user_id: userId },
+      }),
+    ]);
+
+    if (coupon.usage_limit !== null && totalUsage >= coupon.usage_limit) {
+      throw new AppError(
+        "Coupon usage limit has been reached",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (userUsage >= coupon.per_user_limit) {
+      throw new AppError(
+        "You have already used this coupon",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+  }
+
+  /**
+   * Get coupon usage report for the coupon owner
+   */
+  async getUsageReport(
+    couponId: string,
+    userId: string,
+    userRole: string,
+    filters: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 20 } = filters;
+    const skip = (page - 1) * limit;
+
+    const coupon = await this.getManageableCoupon(couponId, userId, userRole);
+
+    const [paid, pending, refunded, uniqueUsers, redemptions, total] =
+      await Promise.all([
+        this.aggregateRedemptions(couponId, TRANSACTION_STATUS.PAID),
+        this.aggregateRedemptions(couponId, TRANSACTION_STATUS.PENDING),
+        this.aggregateRedemptions(couponId, TRANSACTION_STATUS.REFUNDED),
+        prisma.couponRedemption.groupBy({
+          by: ["user_id"],
+          where: {
+            coupon_id: couponId,
+            transaction: { status: TRANSACTION_STATUS.PAID },
+          },
+        }),
+        prisma.couponRedemption.findMany({
+          where: { coupon_id: couponId },
+          skip,
+          take: limit,
+          orderBy: { created_at: "desc" },
+          include: {
+            user: {
+              select: {
+                id: true,
+                full_name: true,
+                email: true,
+              },
+            },
+            transaction: {
+              select: {
+                order_id: true,
+                status: true,
+                amount: true,
+                total_amount: true,
+                paid_at: true,
+                course: {
+                  select: {
+                    id: true,
+                    title: true,
+                  },
+                },
+              },
+            },
+          },
+        }),
+        prisma.couponRedemption.count({ where: { coupon_id: couponId } }),
+      ]);
+
+    return {
+      coupon,
+      summary: {
+        total_redemptions: paid.count,
+        pending_redemptions: pending.count,
+        refunded_redemptions: refunded.count,
+        unique_users: uniqueUsers.length,
+        total_discount: paid.discount,
+        total_revenue: paid.revenue,
+        remaining_uses:
+          coupon.usage_limit !== null
+            ? Math.max(coupon.usage_limit - paid.count, 0)
+            : null,
+      },
+      data: redemptions,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Calculate discount amount (never more than the price)
+   */
+  private calculateDiscount(
+    coupon: { type: string; value: number; max_discount: number | null },
+    amount: number
+  ) {
+    let discount =
+      coupon.type === COUPON_TYPE.PERCENTAGE
+        ? (amount * coupon.value) / 100
+        : coupon.value;
+
+    if (coupon.max_discount) {
+      discount = Math.min(discount, coupon.max_discount);
+    }
+
+    return Math.round(Math.min(discount, amount));
+  }
+
+  /**
+   * Aggregate redemptions by transaction status
+   */
+  private async aggregateRedemptions(couponId: string, status: string) {
+    const redemptions = await prisma.couponRedemption.findMany({
+      where: {
+        coupon_id: couponId,
+        transaction: { status },
+      },
+      select: {
+        discount_amount: true,
+        transaction: {
+          select: { total_amount: true },
+        },
+      },
+    });
+
+    return {
+      count: redemptions.length,
+      discount: redemptions.reduce(
+        (sum: number, r: any) => sum + r.discount_amount,
+        0
+      ),
+      revenue: redemptions.reduce(
+        (sum: number, r: any) => sum + r.transaction.total_amount,
+        0
+      ),
+    };
+  }
+
+  /**
+   * Get coupon the user is allowed to manage
+   */
+  private async getManageableCoupon(
+    couponId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: couponId },
+      include: {
+        mentor: {
+          select: { user_id: true },
+        },
+      },
+    });
+
+    if (!coupon) {
+      throw new NotFoundError("Coupon not found");
+    }
+
+    if (userRole !== USER_ROLES.ADMIN && coupon.mentor?.user_id !== userId) {
+      throw new ForbiddenError(
+        "You do not have permission to manage this coupon"
+      );
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Coupon codes are case-insensitive
+   */
+  private normalizeCode(code: string) {
+    return code.trim().toUpperCase();
+  }
+}
+
+const couponService = new CouponService();
+export default couponService;
@@ -0,0 +1,174 @@
+import prisma from "@/lib/prisma";
+import { NotFoundError, ForbiddenError } from "@/utils/error.util";
+import { USER_ROLES, ENROLLMENT_STATUS, VIDEO_STATUS } from "@/lib/constants";
+
+/**
+ * Course content the access rules are applied to
+ */
+interface CourseContent {
+  is_free?: boolean;
+  course_id: string;
+  mentor_user_id: string;
+}
+
+/**
+ * Video with the course it belongs to (mentor included)
+ * and the uploader of a chunked upload
+ */
+const videoInclude = {
+  upload_session: {
+    select: { user_id: true },
+  },
+  material: {
+    include: {
+      section: {
+        include: {
+          course: {
+            include: {
+              mentor: true,
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Course Access Service
+ * Shared enrollment, content and video permission checks
+ */
+export class CourseAccessService {
+  /**
+   * Get enrollment that grants access to the course (active or completed)
+   */
+  async getActiveEnrollment(userId: string, courseId: string) {
+    const enrollment = await prisma.enrollment.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id: userId,
+          course_id: courseId,
+        },
+      },
+    });
+
+    if (
+      !enrollment ||
+      (enrollment.status !== ENROLLMENT_STATUS.ACTIVE &&
+        enrollment.status !== ENROLLMENT_STATUS.COMPLETED)
+    ) {
+      throw new ForbiddenError("You must be enrolled in this course");
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Check whether the user moderates the course (admin or course mentor)
+   */
+  canManage(
+    mentorUserId: string | undefined,
+    userId: string,
+    userRole: string
+  ) {
+    return userRole === USER_ROLES.ADMIN || mentorUserId === userId;
+  }
+
+  /**
+   * Ensure the user may read course content
+   * (admin, course mentor, free content or enrolled learner)
+   */
+  async assertContentAccess(
+    content: CourseContent,
+    userId: string,
+    userRole: string
+  ) {
+    if (
+      content.is_free ||
+      this.canManage(content.mentor_user_id, userId, userRole)
+    ) {
+      return;
+    }
+
+    await this.getActiveEnrollment(userId, content.course_id);
+  }
+
+  /**
+   * Get video the user may watch. Learners only see processed videos.
+   */
+  async getAccessibleVideo(videoId: string, userId: string, userRole: string) {
+    const video = await this.findVideo(videoId);
+    const course = video.material?.section.course;
+
+    if (this.canManageVideo(video, userId, userRole)) {
+      return video;
+    }
+
+    if (!video.material || video.status !== VIDEO_STATUS.COMPLETED) {
+      throw new NotFoundError("Video not found");
+    }
+
+    await this.assertContentAccess(
+      {
+        is_free: video.material.is_free,
+        course_id: video.material.section.course_id,
+        mentor_user_id: course.mentor.user_id,
+      },
+      userId,
+      userRole
+    );
+
+    return video;
+  }
+
+  /**
+   * Get video the user may manage (course mentor or admin)
+   */
+  async getManageableVideo(
+    videoId: string,
+    userId: string,
+    userRole: string,
+    message: string = "You do not have permission to manage this video"
+  ) {
+    const video = await this.findVideo(videoId);
+
+    if (!this.canManageVideo(video, userId, userRole)) {
+      throw new ForbiddenError(message);
+    }
+
+    return video;
+  }
+
+  /**
+   * Check whether the user manages the video: the course mentor once it
+   * is attached to a material, its uploader until then (admins always)
+   */
+  private canManageVideo(video: any, userId: string, userRole: string) {
+    return this.canManage(
+      video.material
+        ? video.material.section.course.mentor.user_id
+        : video.upload_session?.user_id,
+      userId,
+      userRole
+    );
+  }
+
+  /**
+   * Get video with its course, not found when missing
+   */
+  private async findVideo(videoId: string) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: videoInclude,
+    });
+
+    if (!video) {
+      throw new NotFoundError("Video not found");
+    }
+
+    return video;
+  }
+}
+
+const courseAccessService = new CourseAccessService();
+export default courseAccessService;
@@ -1,5 +1,9 @@
 import prisma from "@/lib/prisma";
 import { generateSlug } from "@/utils/string.util";
+import notificationService from "./notification.service";
+import captionService from "./caption.service";
+import accessibilityAuditService from "./accessibility-audit.service";
+import { videoConfig } from "@/config/video.config";
 import {
   AppError,
   NotFoundError,
@@ -11,7 +15,9 @@ import {
   COURSE_STATUS,
   USER_ROLES,
   COURSE_LEVEL,
+  TRANSACTION_STATUS,
 } from "@/lib/constants";
+import { logError } from "@/utils/logger.util";
 
 // Type definitions untuk Prisma
 interface SectionWithMaterials {
@@ -93,6 +99,7 @@ export interface CreateCourseData {
   targetAudience?: string[];
   tags?: string[];
   thumbnail?: string;
+  thumbnailAlt?: string;
   coverImage?: string;
 }
 
@@ -115,6 +122,7 @@ export interface UpdateCourseData {
   targetAudience?: string[];
   tags?: string[];
   thumbnail?: string;
+  thumbnailAlt?: string;
   coverImage?: string;
   isFeatured?: boolean;
 }
@@ -138,6 +146,8 @@ export interface CourseListFilters {
   sortBy?: string;
   sortOrder?: "asc" | "desc";
   userId?: string;
+  accessibilityBadges?: string[];
+  disabilityType?: string;
 }
 
 /**
@@ -237,6 +247,7 @@ export class CourseService {
         target_audience: data.targetAudience || [],
         tags: data.tags || [],
         thumbnail: data.thumbnail,
+        thumbnail_alt: data.thumbnailAlt,
         cover_image: data.coverImage,
         status: COURSE_STATUS.DRAFT,
       },
@@ -287,6 +298,8 @@ export class CourseService {
       sortBy = "created_at",
       sortOrder = "desc",
       userId,
+      accessibilityBadges,
+      disabilityType,
     } = filters;
 
     // Build where clause
@@ -338,6 +351,18 @@ export class CourseService {
       where.mentor_id = mentorId;
     }
 
+    // Accessibility badges (explicit or derived from disability type)
+    const badges = [
+      ...(accessibilityBadges || []),
+      ...(disabilityType
+        ? accessibilityAuditService.getBadgesForDisability(disabilityType)
+        : []),
+    ];
+
+    if (badges.length > 0) {
+      where.accessibility_badges = { hasEvery: [...new Set(badges)] };
+    }
+
     // Calculate pagination
     const skip = (page - 1) * limit;
 
@@ -367,6 +392,8 @@ export class CourseService {
           total_reviews: true,
           total_duration: true,
           total_lectures: true,
+          accessibility_score: true,
+          accessibility_badges: true,
           published_at: true,
           created_at: true,
           category: {
@@ -679,6 +706,8 @@ export class CourseService {
       updateData.target_audience = data.targetAudience;
     if (data.tags !== undefined) updateData.tags = data.tags;
     if (data.thumbnail !== undefined) updateData.thumbnail = data.thumbnail;
+    if (data.thumbnailAlt !== undefined)
+      updateData.thumbnail_alt = data.thumbnailAlt;
     if (data.coverImage !== undefined) updateData.cover_image = data.coverImage;
 
     const updated = await prisma.course.update({
@@ -706,6 +735,17 @@ export class CourseService {
       },
     });
 
+    // Let wishlisters know when the price they would pay goes down
+    const previousPrice = this.getEffectivePrice(course);
+    const currentPrice = this.getEffectivePrice(updated);
+
+    if (
+      updated.status === COURSE_STATUS.PUBLISHED &&
+      currentPrice < previousPrice
+    ) {
+      this.notifyWishlistUsers(updated, "price_drop", currentPrice);
+    }
+
     return updated;
   }
 
@@ -799,6 +839,26 @@ export class CourseService {
       );
     }
 
+    // Videos without captions are not accessible for deaf learners
+    const missingCaptions =
+      await captionService.getMaterialsMissingCaptions(courseId);
+    const warnings: string[] = [];
+
+    if (missingCaptions.length > 0) {
+      const titles = missingCaptions
+        .map((material: { title: string }) => material.title)
+        .join(", ");
+
+      if (videoConfig.captions.requiredForPublish) {
+        throw new AppError(
+          `All video materials must have captions. Missing: ${titles}`,
+          HTTP_STATUS.BAD_REQUEST
+        );
+      }
+
+      warnings.push(`Video materials without captions: ${titles}`);
+    }
+
     // Calculate total duration
     const totalDuration = (course as CourseWithSections).sections.reduce(
       (sum: number, section: SectionWithMaterials) =>
@@ -823,7 +883,26 @@ export class CourseService {
       },
     });
 
-    return updated;
+    if (course.status !== COURSE_STATUS.PUBLISHED) {
+      this.notifyWishlistUsers(updated, "published");
+    }
+
+    // Refresh accessibility badges for listings
+    let accessibility = null;
+    try {
+      accessibility = await accessibilityAuditService.runAudit(courseId);
+    } catch (error) {
+      logError("Failed to audit course accessibility on publish", error);
+    }
+
+    return {
+      ...updated,
+      accessibility_score: accessibility?.score ?? updated.accessibility_score,
+      accessibility_badges:
+        accessibility?.badges.map((badge) => badge.key) ??
+        updated.accessibility_badges,
+      warnings,
+    };
   }
 
   /**
@@ -856,8 +935,10 @@ export class CourseService {
 
   /**
    * Enroll in course
+   * (purchased: a settled payment, enrolled even if the course was
+   * unpublished after checkout)
    */
-  async enrollCourse(courseId: string, userId: string) {
+  async enrollCourse(courseId: string, userId: string, purchased = false) {
     const course = await prisma.course.findUnique({
       where: { id: courseId },
     });
@@ -866,7 +947,7 @@ export class CourseService {
       throw new NotFoundError("Course not found");
     }
 
-    if (course.status !== COURSE_STATUS.PUBLISHED) {
+    if (!purchased && course.status !== COURSE_STATUS.PUBLISHED) {
       throw new ForbiddenError("Course is not available for enrollment");
     }
 
@@ -888,32 +969,68 @@ export class CourseService {
       }
     }
 
-    // Create enrollment
-    const enrollment = await prisma.enrollment.create({
-      data: {
-        user_id: userId,
-        course_id: courseId,
-        status: "ACTIVE",
-        progress: 0,
-      },
-      include: {
-        course: {
-          select: {
-            title: true,
-            thumbnail: true,
-            mentor: {
-              include: {
-                user: {
-                  select: {
-                    full_name: true,
-                  },
+    // Paid courses require a settled transaction
+    if (this.getEffectivePrice(course) > 0) {
+      const paidTransaction = await prisma.transaction.findFirst({
+        where: {
+          user_id: userId,
+          course_id: courseId,
+          status: TRANSACTION_STATUS.PAID,
+        },
+        select: { id: true },
+      });
+
+      if (!paidTransaction) {
+        throw new AppError(
+          "Payment is required to enroll in this course",
+          HTTP_STATUS.PAYMENT_REQUIRED
+        );
+      }
+    }
+
+    const enrollmentInclude = {
+      course: {
+        select: {
+          title: true,
+          thumbnail: true,
+          mentor: {
+            include: {
+              user: {
+                select: {
+                  full_name: true,
                 },
               },
             },
           },
         },
       },
-    });
+    };
+
+    // Reactivate cancelled/expired enrollment (e.g. repurchase after refund)
+    // as a fresh start, so completion and the certificate are earned again
+    const enrollment = existingEnrollment
+      ? await prisma.enrollment.update({
+          where: { id: existingEnrollment.id },
+          data: {
+            status: "ACTIVE",
+            progress: 0,
+            completed_at: null,
+            certificate_id: null,
+            progress_records: {
+              deleteMany: {},
+            },
+          },
+          include: enrollmentInclude,
+        })
+      : await prisma.enrollment.create({
+          data: {
+            user_id: userId,
+            course_id: courseId,
+            status: "ACTIVE",
+            progress: 0,
+          },
+          include: enrollmentInclude,
+        });
 
     // Update course student count
     await prisma.course.update({
@@ -935,9 +1052,38 @@ export class CourseService {
       },
     });
 
+    // Enrolled courses no longer belong on the wishlist
+    await prisma.wishlist.deleteMany({
+      where: {
+        user_id: userId,
+        course_id: courseId,
+      },
+    });
+
     return enrollment;
   }
 
+  /**
+   * Get price the student actually pays (0 for free courses)
+   */
+  getEffectivePrice(course: {
+    is_free: boolean;
+    price: number;
+    discount_price?: number | null;
+  }): number {
+    if (course.is_free) return 0;
+
+    if (
+      course.discount_price !== null &&
+      course.discount_price !== undefined &&
+      course.discount_price < course.price
+    ) {
+      return Math.max(course.discount_price, 0);
+    }
+
+    return Math.max(course.price, 0);
+  }
+
   /**
    * Get course materials
    */
@@ -1561,6 +1707,43 @@ export class CourseService {
     };
   }
 
+  /**
+   * Notify users who wishlisted the course. Runs after the response in
+   * the background and never fails the calling request.
+   */
+  private notifyWishlistUsers(
+    course: { id: string; title: string },
+    event: "price_drop" | "published",
+    price: number = 0
+  ) {
+    const notify = async () => {
+      const entries = await prisma.wishlist.findMany({
+        where: { course_id: course.id },
+        select: { user_id: true },
+      });
+      const userIds = entries.map((entry: any) => entry.user_id);
+
+      if (event === "price_drop") {
+        await notificationService.notifyWishlistPriceDrop(
+          userIds,
+          course.title,
+          course.id,
+          price
+        );
+      } else {
+        await notificationService.notifyWishlistCoursePublished(
+          userIds,
+          course.title,
+          course.id
+        );
+      }
+    };
+
+    void notify().catch((error) =>
+      logError("Failed to send wishlist notifications", error)
+    );
+  }
+
   /**
    * Update course rating statistics
    */
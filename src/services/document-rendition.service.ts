@@ -0,0 +1,390 @@
+import prisma from "@/lib/prisma";
+import accessibilityService from "./accessibility.service";
+import courseAccessService from "./course-access.service";
+import {
+  countWords,
+  escapeHtml,
+  estimateReadingTime,
+  stripHtml,
+} from "@/utils/string.util";
+import { NotFoundError } from "@/utils/error.util";
+import { DISABILITY_TYPE, MATERIAL_RENDITION } from "@/lib/constants";
+
+type MaterialRendition =
+  (typeof MATERIAL_RENDITION)[keyof typeof MATERIAL_RENDITION];
+
+/**
+ * Rendition Request Options
+ */
+interface RenditionOptions {
+  format?: MaterialRendition;
+  line_spacing?: number;
+}
+
+/**
+ * Easy-Read Render Options
+ */
+interface EasyReadOptions {
+  title: string;
+  summary?: string | null;
+  line_spacing: number;
+  font_scale: number;
+  dyslexia_font: boolean;
+  reading_time: number;
+}
+
+/**
+ * Parsed content block
+ */
+type ContentBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "image"; alt: string; src: string }
+  | { type: "paragraph"; text: string };
+
+// Learners who get the easy-read rendition unless they ask otherwise
+const EASY_READ_DISABILITIES: string[] = [
+  DISABILITY_TYPE.DISLEKSIA,
+  DISABILITY_TYPE.KOGNITIF,
+];
+
+const DEFAULT_LINE_SPACING = 1.8;
+const SENTENCES_PER_PARAGRAPH = 2;
+// Slower pace for easy-read estimates
+const EASY_READ_WORDS_PER_MINUTE = 150;
+
+const DYSLEXIA_FONT_STACK =
+  "'OpenDyslexic', 'Lexend', 'Atkinson Hyperlegible', sans-serif";
+
+/**
+ * Document Rendition Service
+ * Renders text materials as easy-read, dyslexia-friendly HTML
+ */
+export class DocumentRenditionService {
+  /**
+   * Get material content in the rendition suited to the user
+   */
+  async getMaterialRendition(
+    user_id: string,
+    user_role: string,
+    material_id: string,
+    options: RenditionOptions = {}
+  ) {
+    const material = await this.getReadableMaterial(
+      user_id,
+      user_role,
+      material_id
+    );
+
+    const format = await this.resolveFormat(user_id, options.format);
+    const text = material.content ? this.toPlainText(material.content) : "";
+    const word_count = text.trim() ? countWords(text) : 0;
+
+    if (format === MATERIAL_RENDITION.STANDARD) {
+      return {
+        material_id: material.id,
+        title: material.title,
+        format,
+        html: material.content ?? "",
+        summary: material.easy_read_summary,
+        document_url: material.document_url,
+        word_count,
+        reading_time: word_count ? estimateReadingTime(text) : 0,
+      };
+    }
+
+    const preferences = await accessibilityService.getPreferences(user_id);
+    const reading_time = word_count
+      ? estimateReadingTime(text, EASY_READ_WORDS_PER_MINUTE)
+      : 0;
+    const line_spacing = options.line_spacing ?? DEFAULT_LINE_SPACING;
+
+    return {
+      material_id: material.id,
+      title: material.title,
+      format,
+      html: this.renderEasyRead(text, {
+        title: material.title,
+        summary: material.easy_read_summary,
+        line_spacing,
+        font_scale: preferences.font_scale,
+        dyslexia_font: preferences.dyslexia_font,
+        reading_time,
+      }),
+      summary: material.easy_read_summary,
+      document_url: material.document_url,
+      word_count,
+      reading_time,
+      line_spacing,
+    };
+  }
+
+  /**
+   * Pick rendition: explicit request wins, otherwise disability type
+   */
+  async resolveFormat(
+    user_id: string,
+    requested?: MaterialRendition
+  ): Promise<MaterialRendition> {
+    if (requested) return requested;
+
+    const user = await prisma.user.findUnique({
+      where: { id: user_id },
+      select: { disability_type: true },
+    });
+
+    return user?.disability_type &&
+      EASY_READ_DISABILITIES.includes(user.disability_type)
+      ? MATERIAL_RENDITION.EASY_READ
+      : MATERIAL_RENDITION.STANDARD;
+  }
+
+  /**
+   * Render plain/markdown text as structured easy-read HTML
+   */
+  renderEasyRead(text: string, options: EasyReadOptions): string {
+    const style = [
+      `line-height: ${options.line_spacing}`,
+      `font-size: ${options.font_scale}em`,
+      "max-width: 65ch",
+      "letter-spacing: 0.05em",
+      "word-spacing: 0.1em",
+      "text-align: left",
+      ...(options.dyslexia_font
+        ? [`font-family: ${DYSLEXIA_FONT_STACK}`]
+        : []),
+    ].join("; ");
+
+    const parts: string[] = [
+      `<article class="easy-read" style="${escapeHtml(style)}">`,
+      "<header>",
+      `<h1>${escapeHtml(options.title)}</h1>`,
+      `<p class="easy-read-time">Reading time: about ${Math.max(
+        options.reading_time,
+        1
+      )} min</p>`,
+      "</header>",
+    ];
+
+    if (options.summary?.trim()) {
+      parts.push(
+        '<section class="easy-read-summary" aria-label="Summary">',
+        "<h2>In short</h2>",
+        ...this.chunkParagraph(options.summary.trim()).map(
+          (chunk) => `<p>${this.renderInline(chunk)}</p>`
+        ),
+        "</section>"
+      );
+    }
+
+    parts.push('<section class="easy-read-content">');
+
+    for (const block of this.parseBlocks(text)) {
+      switch (block.type) {
+        case "heading": {
+          // Article title is the only h1
+          const level = Math.min(block.level + 1, 6);
+          parts.push(
+            `<h${level}>${this.renderInline(block.text)}</h${level}>`
+          );
+          break;
+        }
+
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          parts.push(
+            `<${tag}>`,
+            ...block.items.map(
+              (item) => `<li>${this.renderInline(item)}</li>`
+            ),
+            `</${tag}>`
+          );
+          break;
+        }
+
+        case "image":
+          parts.push(
+            `<figure><img src="${escapeHtml(block.src)}" alt="${escapeHtml(
+              block.alt
+            )}" /></figure>`
+          );
+          break;
+
+        case "paragraph":
+          for (const chunk of this.chunkParagraph(block.text)) {
+            parts.push(`<p>${this.renderInline(chunk)}</p>`);
+          }
+          break;
+      }
+    }
+
+    parts.push("</section>", "</article>");
+
+    return parts.join("\n");
+  }
+
+  /**
+   * Convert HTML content to markdown-like plain text
+   */
+  private toPlainText(content: string): string {
+    if (!/<[a-z][^>]*>/i.test(content)) return content;
+
+    const text = content
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(
+        /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+        (_, level, inner) => `\n\n${"#".repeat(Number(level))} ${inner}\n\n`
+      )
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(
+        /<img\b[^>]*>/gi,
+        (tag) =>
+          `\n\n![${tag.match(/\balt\s*=\s*"([^"]*)"/i)?.[1] ?? ""}](${
+            tag.match(/\bsrc\s*=\s*"([^"]*)"/i)?.[1] ?? ""
+          })\n\n`
+      )
+      .replace(/<\/(p|div|ul|ol|section|article|blockquote)>/gi, "\n\n");
+
+    return stripHtml(text)
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#0?39;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+
+  /**
+   * Split text into headings, lists, images and paragraphs
+   */
+  private parseBlocks(text: string): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+
+    for (const raw of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+      const lines = raw
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+      if (lines.length === 0) continue;
+
+      const heading = lines[0].match(/^(#{1,6})\s+(.+)$/);
+      if (heading && lines.length === 1) {
+        blocks.push({
+          type: "heading",
+          level: heading[1].length,
+          text: heading[2],
+        });
+        continue;
+      }
+
+      const image = lines[0].match(/^!\[([^\]]*)\]\(([^)\s]+)\)$/);
+      if (image && lines.length === 1) {
+        blocks.push({ type: "image", alt: image[1], src: image[2] });
+        continue;
+      }
+
+      if (lines.every((line) => /^[-*•]\s+/.test(line))) {
+        blocks.push({
+          type: "list",
+          ordered: false,
+          items: lines.map((line) => line.replace(/^[-*•]\s+/, "")),
+        });
+        continue;
+      }
+
+      if (lines.every((line) => /^\d+[.)]\s+/.test(line))) {
+        blocks.push({
+          type: "list",
+          ordered: true,
+          items: lines.map((line) => line.replace(/^\d+[.)]\s+/, "")),
+        });
+        continue;
+      }
+
+      blocks.push({ type: "paragraph", text: lines.join(" ") });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Break a paragraph into short chunks of a few sentences
+   */
+  private chunkParagraph(text: string): string[] {
+    const sentences = text
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+    const chunks: string[] = [];
+
+    for (let i = 0; i < sentences.length; i += SENTENCES_PER_PARAGRAPH) {
+      chunks.push(sentences.slice(i, i + SENTENCES_PER_PARAGRAPH).join(" "));
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Escape text and keep markdown links and emphasis
+   */
+  private renderInline(text: string): string {
+    return escapeHtml(text)
+      .replace(
+        /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+        '<a href="$2">$1</a>'
+      )
+      .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>");
+  }
+
+  /**
+   * Get material the user is allowed to read
+   */
+  private async getReadableMaterial(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        document_url: true,
+        easy_read_summary: true,
+        is_free: true,
+        section: {
+          select: {
+            course_id: true,
+            course: {
+              select: {
+                mentor: {
+                  select: { user_id: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!material) {
+      throw new NotFoundError("Material not found");
+    }
+
+    await courseAccessService.assertContentAccess(
+      {
+        is_free: material.is_free,
+        course_id: material.section.course_id,
+        mentor_user_id: material.section.course.mentor.user_id,
+      },
+      user_id,
+      user_role
+    );
+
+    return material;
+  }
+}
+
+const documentRenditionService = new DocumentRenditionService();
+export default documentRenditionService;
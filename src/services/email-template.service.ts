@@ -0,0 +1,239 @@
+import fs from "fs/promises";
+import path from "path";
+import { emailConfig } from "@/config/email.config";
+import { EMAIL_TEMPLATES, USER_ROLES } from "@/lib/constants";
+import {
+  renderTemplate,
+  htmlToText,
+  checkEmailAccessibility,
+  type TemplateData,
+} from "@/utils/email-template.util";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+} from "@/utils/error.util";
+import { logWarn } from "@/utils/logger.util";
+
+export type EmailTemplate =
+  (typeof EMAIL_TEMPLATES)[keyof typeof EMAIL_TEMPLATES];
+
+export type EmailLocale = (typeof emailConfig.templates.locales)[number];
+
+/**
+ * Rendered Email
+ */
+export interface RenderedEmail {
+  template: EmailTemplate;
+  locale: EmailLocale;
+  subject: string;
+  html: string;
+  text: string;
+  issues: string[];
+}
+
+const APP_NAME = "Course Online Disabilitas";
+
+const FOOTER_TEXT: Record<EmailLocale, string> = {
+  id: "Hak cipta dilindungi.",
+  en: "All rights reserved.",
+};
+
+// Sample data for admin previews
+const SAMPLE_DATA: Record<EmailTemplate, TemplateData> = {
+  welcome: { userName: "Budi Santoso", coursesUrl: "/courses" },
+  "verify-email": {
+    userName: "Budi Santoso",
+    verificationUrl: "/verify-email?token=sample-token",
+    expiresInHours: 24,
+  },
+  "reset-password": {
+    userName: "Budi Santoso",
+    resetUrl: "/reset-password?token=sample-token",
+    expiresInHours: 1,
+  },
+  "course-enrollment": {
+    userName: "Budi Santoso",
+    courseName: "Dasar Pemrograman Web",
+    courseUrl: "/courses/dasar-pemrograman-web",
+  },
+  "certificate-issued": {
+    userName: "Budi Santoso",
+    courseName: "Dasar Pemrograman Web",
+    certificateUrl: "/certificates/sample",
+  },
+  "payment-success": {
+    userName: "Budi Santoso",
+    courseName: "Dasar Pemrograman Web",
+    orderId: "ORD-20250101-0001",
+    amount: "Rp 150.000",
+    courseUrl: "/courses/dasar-pemrograman-web",
+  },
+  "payment-failed": {
+    userName: "Budi Santoso",
+    courseName: "Dasar Pemrograman Web",
+    orderId: "ORD-20250101-0001",
+    amount: "Rp 150.000",
+    reason: "Card declined",
+    retryUrl: "/checkout/dasar-pemrograman-web",
+  },
+  "mentor-approved": { userName: "Siti Rahma", dashboardUrl: "/mentor" },
+  "mentor-rejected": {
+    userName: "Siti Rahma",
+    reason: "Please complete your portfolio",
+    applyUrl: "/mentor/apply",
+  },
+};
+
+/**
+ * Email Template Service
+ * Renders file-based, localized email templates with plain-text parity
+ */
+export class EmailTemplateService {
+  private cache = new Map<string, string>();
+
+  /**
+   * Render template with data in the given locale
+   */
+  async render(
+    template: EmailTemplate,
+    data: TemplateData,
+    locale?: string
+  ): Promise<RenderedEmail> {
+    const resolvedLocale = this.resolveLocale(locale);
+    const source = await this.loadFile(
+      path.join(resolvedLocale, `${template}.html`)
+    );
+    const layout = await this.loadFile("layout.html");
+
+    const context: TemplateData = {
+      appName: APP_NAME,
+      year: new Date().getFullYear(),
+      locale: resolvedLocale,
+      footer: FOOTER_TEXT[resolvedLocale],
+      theme: emailConfig.templates.theme,
+      ...data,
+    };
+
+    const subjectSource =
+      source.match(/^\s*\{\{!--\s*subject:\s*(.+?)\s*--\}\}/)?.[1] ?? "";
+    const subject = renderTemplate(subjectSource, context, { escape: false });
+    const content = renderTemplate(source, context);
+    const html = renderTemplate(layout, { ...context, subject, content });
+
+    const issues = checkEmailAccessibility(html);
+    if (issues.length > 0) {
+      logWarn("Email template has accessibility issues", {
+        template,
+        locale: resolvedLocale,
+        issues,
+      });
+    }
+
+    return {
+      template,
+      locale: resolvedLocale,
+      subject,
+      html,
+      text: htmlToText(html),
+      issues,
+    };
+  }
+
+  /**
+   * Render template with sample data (admin only)
+   */
+  async previewTemplate(user_role: string, template: string, locale?: string) {
+    this.assertAdmin(user_role);
+
+    if (!this.isTemplate(template)) {
+      throw new NotFoundError("Email template not found");
+    }
+
+    if (locale && !this.isLocale(locale)) {
+      throw new ValidationError(
+        `Locale must be one of: ${emailConfig.templates.locales.join(", ")}`
+      );
+    }
+
+    const appUrl = process.env.APP_URL || "http://localhost:3000";
+    const data = Object.fromEntries(
+      Object.entries(SAMPLE_DATA[template]).map(([key, value]) => [
+        key,
+        key.endsWith("Url") ? `${appUrl}${value}` : value,
+      ])
+    );
+
+    return this.render(template, data, locale);
+  }
+
+  /**
+   * List available templates and locales (admin only)
+   */
+  listTemplates(user_role: string) {
+    this.assertAdmin(user_role);
+
+    return {
+      templates: Object.values(EMAIL_TEMPLATES),
+      locales: emailConfig.templates.locales,
+      default_locale: emailConfig.templates.defaultLocale,
+    };
+  }
+
+  /**
+   * Check template name
+   */
+  isTemplate(template: string): template is EmailTemplate {
+    return (Object.values(EMAIL_TEMPLATES) as string[]).includes(template);
+  }
+
+  /**
+   * Fall back to the default locale when unsupported
+   */
+  resolveLocale(locale?: string | null): EmailLocale {
+    const language = locale?.toLowerCase().split("-")[0];
+    return language && this.isLocale(language)
+      ? language
+      : emailConfig.templates.defaultLocale;
+  }
+
+  /**
+   * Check locale is supported
+   */
+  private isLocale(locale: string): locale is EmailLocale {
+    return (emailConfig.templates.locales as readonly string[]).includes(
+      locale
+    );
+  }
+
+  /**
+   * Read template file (cached in production)
+   */
+  private async loadFile(relativePath: string): Promise<string> {
+    const cached = this.cache.get(relativePath);
+    if (cached !== undefined) return cached;
+
+    const content = await fs.readFile(
+      path.join(process.cwd(), emailConfig.templates.path, relativePath),
+      "utf-8"
+    );
+
+    if (emailConfig.templates.cache) {
+      this.cache.set(relativePath, content);
+    }
+
+    return content;
+  }
+
+  /**
+   * Ensure user is an admin
+   */
+  private assertAdmin(user_role: string) {
+    if (user_role !== USER_ROLES.ADMIN) {
+      throw new ForbiddenError("Only admins can preview email templates");
+    }
+  }
+}
+
+const emailTemplateService = new EmailTemplateService();
+export default emailTemplateService;
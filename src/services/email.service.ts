@@ -1,4 +1,9 @@
 import nodemailer from "nodemailer";
+import emailTemplateService, {
+  type EmailTemplate,
+} from "./email-template.service";
+import { htmlToText, type TemplateData } from "@/utils/email-template.util";
+import { EMAIL_TEMPLATES } from "@/lib/constants";
 
 // Konfigurasi Email
 const emailConfig = {
@@ -205,7 +210,7 @@ export class EmailService {
         to: options.to,
         subject: options.subject,
         html: options.html,
-        text: options.text || this.htmlToText(options.html),
+        text: options.text || htmlToText(options.html),
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -246,13 +251,30 @@ export class EmailService {
   }
 
   /**
-   * Convert HTML to plain text (fallback)
+   * Render a file-based template and send it (HTML + plain text)
    */
-  private htmlToText(html: string): string {
-    return html
-      .replace(/<[^>]*>/g, "")
-      .replace(/\s+/g, " ")
-      .trim();
+  async sendTemplateEmail(
+    to: string,
+    template: EmailTemplate,
+    data: TemplateData,
+    locale?: string
+  ): Promise<EmailResult> {
+    try {
+      const email = await emailTemplateService.render(template, data, locale);
+
+      return await this.sendEmail({
+        to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+    } catch (error: any) {
+      console.error(`❌ Failed to render email template ${template}:`, error);
+      return {
+        success: false,
+        error: error.message || "Failed to render email template",
+      };
+    }
   }
 
   /**
@@ -261,25 +283,21 @@ export class EmailService {
   async sendVerificationEmail(
     to: string,
     userName: string,
-    token: string
+    token: string,
+    locale?: string
   ): Promise<EmailResult> {
     const appUrl = process.env.APP_URL || "http://localhost:3000";
     const verificationUrl = `${appUrl}/verify-email?token=${token}`;
 
-    const subject = "Verify Your Email Address - Course Online Disabilitas";
-
-    const html = this.generateVerificationTemplate(userName, verificationUrl);
-    const text = `Hi ${userName},\n\nPlease verify your email address by clicking the link below:\n\n${verificationUrl}\n\nThis link will expire in 24 hours.\n\nIf you didn't create an account, please ignore this email.`;
-
     console.log("🔐 Sending verification email to:", to);
     console.log("🔗 Verification URL:", verificationUrl);
 
-    const result = await this.sendEmail({
+    const result = await this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
+      EMAIL_TEMPLATES.VERIFY_EMAIL,
+      { userName, verificationUrl, expiresInHours: 24 },
+      locale
+    );
 
     if (result.success) {
       console.log("✅ Verification email sent successfully to:", to);
@@ -300,25 +318,21 @@ export class EmailService {
   async sendPasswordResetEmail(
     to: string,
     userName: string,
-    token: string
+    token: string,
+    locale?: string
   ): Promise<EmailResult> {
     const appUrl = process.env.APP_URL || "http://localhost:3000";
     const resetUrl = `${appUrl}/reset-password?token=${token}`;
 
-    const subject = "Reset Your Password - Course Online Disabilitas";
-
-    const html = this.generatePasswordResetTemplate(userName, resetUrl);
-    const text = `Hi ${userName},\n\nYou requested to reset your password. Click the link below to set a new password:\n\n${resetUrl}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.`;
-
     console.log("🔑 Sending password reset email to:", to);
     console.log("🔗 Reset URL:", resetUrl);
 
-    const result = await this.sendEmail({
+    const result = await this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
+      EMAIL_TEMPLATES.RESET_PASSWORD,
+      { userName, resetUrl, expiresInHours: 1 },
+      locale
+    );
 
     if (result.success) {
       console.log("✅ Password reset email sent successfully to:", to);
@@ -336,102 +350,82 @@ export class EmailService {
   /**
    * Send welcome email
    */
-  async sendWelcomeEmail(to: string, userName: string): Promise<EmailResult> {
+  async sendWelcomeEmail(
+    to: string,
+    userName: string,
+    locale?: string
+  ): Promise<EmailResult> {
     const appUrl = process.env.APP_URL || "http://localhost:3000";
-    const subject = "Welcome to Course Online Disabilitas!";
-
-    const html = this.generateWelcomeTemplate(userName, appUrl);
-    const text = `Hi ${userName},\n\nWelcome to Course Online Disabilitas! We're excited to have you on board.\n\nStart exploring our courses and begin your learning journey today.\n\nIf you have any questions, feel free to reach out to our support team.\n\nHappy learning!`;
 
     console.log("👋 Sending welcome email to:", to);
 
-    const result = await this.sendEmail({
+    return this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
-
-    return result;
+      EMAIL_TEMPLATES.WELCOME,
+      { userName, coursesUrl: `${appUrl}/courses` },
+      locale
+    );
   }
 
   /**
-   * Send certificate email - NEW METHOD
+   * Send certificate email
    */
   async sendCertificateEmail(
     to: string,
     userName: string,
     courseName: string,
-    certificateUrl: string
+    certificateUrl: string,
+    locale?: string
   ): Promise<EmailResult> {
-    const subject = "Your Certificate is Ready - Course Online Disabilitas";
-
-    const html = this.generateCertificateTemplate(
-      userName,
-      courseName,
-      certificateUrl
-    );
-    const text = `Hi ${userName},\n\nCongratulations! Your certificate for "${courseName}" is ready.\n\nYou can download it from: ${certificateUrl}\n\nThank you for completing the course!`;
-
     console.log("🏆 Sending certificate email to:", to);
 
-    const result = await this.sendEmail({
+    return this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
-
-    return result;
+      EMAIL_TEMPLATES.CERTIFICATE_ISSUED,
+      { userName, courseName, certificateUrl },
+      locale
+    );
   }
 
   /**
-   * Send mentor approved email - NEW METHOD
+   * Send mentor approved email
    */
   async sendMentorApprovedEmail(
     to: string,
-    userName: string
+    userName: string,
+    locale?: string
   ): Promise<EmailResult> {
-    const subject = "Mentor Application Approved - Course Online Disabilitas";
-
-    const html = this.generateMentorApprovedTemplate(userName);
-    const text = `Hi ${userName},\n\nCongratulations! Your mentor application has been approved.\n\nYou can now create and publish courses on our platform.\n\nWelcome to our mentor community!`;
+    const appUrl = process.env.APP_URL || "http://localhost:3000";
 
     console.log("✅ Sending mentor approved email to:", to);
 
-    const result = await this.sendEmail({
+    return this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
-
-    return result;
+      EMAIL_TEMPLATES.MENTOR_APPROVED,
+      { userName, dashboardUrl: `${appUrl}/mentor` },
+      locale
+    );
   }
 
   /**
-   * Send mentor rejected email - NEW METHOD
+   * Send mentor rejected email
    */
   async sendMentorRejectedEmail(
     to: string,
     userName: string,
-    reason: string
+    reason: string,
+    locale?: string
   ): Promise<EmailResult> {
-    const subject = "Mentor Application Status - Course Online Disabilitas";
-
-    const html = this.generateMentorRejectedTemplate(userName, reason);
-    const text = `Hi ${userName},\n\nThank you for your interest in becoming a mentor.\n\nAfter careful review, we regret to inform you that your application was not approved at this time.\n\nReason: ${reason}\n\nYou may reapply after addressing the feedback provided.`;
+    const appUrl = process.env.APP_URL || "http://localhost:3000";
 
     console.log("❌ Sending mentor rejected email to:", to);
 
-    const result = await this.sendEmail({
+    return this.sendTemplateEmail(
       to,
-      subject,
-      html,
-      text,
-    });
-
-    return result;
+      EMAIL_TEMPLATES.MENTOR_REJECTED,
+      { userName, reason, applyUrl: `${appUrl}/mentor/apply` },
+      locale
+    );
   }
 
   /**
@@ -441,757 +435,6 @@ export class EmailService {
     return this.sendEmail(options);
   }
 
-  /**
-   * Template Generators
-   */
-  private generateVerificationTemplate(
-    userName: string,
-    verificationUrl: string
-  ): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Verify Your Email</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #4F46E5, #7E22CE);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .button {
-                  display: inline-block;
-                  padding: 14px 28px;
-                  background: linear-gradient(135deg, #4F46E5, #7E22CE);
-                  color: white;
-                  text-decoration: none;
-                  border-radius: 6px;
-                  font-weight: 600;
-                  text-align: center;
-                  margin: 20px 0;
-              }
-              .verification-link {
-                  background: #f3f4f6;
-                  padding: 15px;
-                  border-radius: 6px;
-                  word-break: break-all;
-                  font-family: monospace;
-                  font-size: 14px;
-                  color: #374151;
-                  margin: 20px 0;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-              .warning {
-                  background: #FEF3C7;
-                  border: 1px solid #F59E0B;
-                  padding: 15px;
-                  border-radius: 6px;
-                  margin: 20px 0;
-                  color: #92400E;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Verify Your Email Address</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Hi ${userName},</div>
-                  
-                  <div class="message">
-                      Thank you for signing up! Please verify your email address to activate your account and start using our platform.
-                  </div>
-
-                  <div style="text-align: center;">
-                      <a href="${verificationUrl}" class="button">Verify Email Address</a>
-                  </div>
-
-                  <div class="message">
-                      Or copy and paste this link in your browser:
-                  </div>
-
-                  <div class="verification-link">
-                      ${verificationUrl}
-                  </div>
-
-                  <div class="warning">
-                      <strong>Important:</strong> This verification link will expire in 24 hours.
-                  </div>
-
-                  <div class="message">
-                      If you didn't create an account with us, please ignore this email.
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
-  private generatePasswordResetTemplate(
-    userName: string,
-    resetUrl: string
-  ): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Reset Your Password</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #DC2626, #EF4444);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .button {
-                  display: inline-block;
-                  padding: 14px 28px;
-                  background: linear-gradient(135deg, #DC2626, #EF4444);
-                  color: white;
-                  text-decoration: none;
-                  border-radius: 6px;
-                  font-weight: 600;
-                  text-align: center;
-                  margin: 20px 0;
-              }
-              .reset-link {
-                  background: #f3f4f6;
-                  padding: 15px;
-                  border-radius: 6px;
-                  word-break: break-all;
-                  font-family: monospace;
-                  font-size: 14px;
-                  color: #374151;
-                  margin: 20px 0;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-              .warning {
-                  background: #FEF3C7;
-                  border: 1px solid #F59E0B;
-                  padding: 15px;
-                  border-radius: 6px;
-                  margin: 20px 0;
-                  color: #92400E;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Reset Your Password</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Hi ${userName},</div>
-                  
-                  <div class="message">
-                      We received a request to reset your password for your Course Online Disabilitas account.
-                  </div>
-
-                  <div style="text-align: center;">
-                      <a href="${resetUrl}" class="button">Reset Password</a>
-                  </div>
-
-                  <div class="message">
-                      Or copy and paste this link in your browser:
-                  </div>
-
-                  <div class="reset-link">
-                      ${resetUrl}
-                  </div>
-
-                  <div class="warning">
-                      <strong>Important:</strong> This password reset link will expire in 1 hour.
-                  </div>
-
-                  <div class="message">
-                      If you didn't request a password reset, please ignore this email. Your password will remain unchanged.
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
-  private generateWelcomeTemplate(userName: string, appUrl: string): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Welcome to Course Online Disabilitas</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #059669, #10B981);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .button {
-                  display: inline-block;
-                  padding: 14px 28px;
-                  background: linear-gradient(135deg, #059669, #10B981);
-                  color: white;
-                  text-decoration: none;
-                  border-radius: 6px;
-                  font-weight: 600;
-                  text-align: center;
-                  margin: 20px 0;
-              }
-              .features {
-                  margin: 25px 0;
-              }
-              .feature {
-                  display: flex;
-                  align-items: center;
-                  margin-bottom: 15px;
-              }
-              .feature-icon {
-                  background: #10B981;
-                  color: white;
-                  border-radius: 50%;
-                  width: 24px;
-                  height: 24px;
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-                  margin-right: 15px;
-                  font-size: 14px;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Welcome to Course Online Disabilitas!</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Hi ${userName},</div>
-                  
-                  <div class="message">
-                      Welcome to our platform! We're excited to have you join our community of learners.
-                  </div>
-
-                  <div class="features">
-                      <div class="feature">
-                          <div class="feature-icon">✓</div>
-                          <span>Access to specialized courses for different abilities</span>
-                      </div>
-                      <div class="feature">
-                          <div class="feature-icon">✓</div>
-                          <span>Learn at your own pace with flexible scheduling</span>
-                      </div>
-                      <div class="feature">
-                          <div class="feature-icon">✓</div>
-                          <span>Connect with mentors and fellow students</span>
-                      </div>
-                      <div class="feature">
-                          <div class="feature-icon">✓</div>
-                          <span>Earn certificates upon course completion</span>
-                      </div>
-                  </div>
-
-                  <div style="text-align: center;">
-                      <a href="${appUrl}/courses" class="button">Explore Courses</a>
-                  </div>
-
-                  <div class="message">
-                      If you have any questions or need assistance, feel free to contact our support team.
-                  </div>
-
-                  <div class="message">
-                      Happy learning!<br>
-                      The Course Online Disabilitas Team
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
-  private generateCertificateTemplate(
-    userName: string,
-    courseName: string,
-    certificateUrl: string
-  ): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Certificate Ready</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #7C3AED, #8B5CF6);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .button {
-                  display: inline-block;
-                  padding: 14px 28px;
-                  background: linear-gradient(135deg, #7C3AED, #8B5CF6);
-                  color: white;
-                  text-decoration: none;
-                  border-radius: 6px;
-                  font-weight: 600;
-                  text-align: center;
-                  margin: 20px 0;
-              }
-              .certificate-info {
-                  background: #f3f4f6;
-                  padding: 15px;
-                  border-radius: 6px;
-                  margin: 20px 0;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Certificate of Completion</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Congratulations ${userName}!</div>
-                  
-                  <div class="message">
-                      You have successfully completed the course <strong>"${courseName}"</strong>. 
-                      Your certificate is now ready for download.
-                  </div>
-
-                  <div class="certificate-info">
-                      <strong>Course:</strong> ${courseName}<br>
-                      <strong>Issued:</strong> ${new Date().toLocaleDateString()}
-                  </div>
-
-                  <div style="text-align: center;">
-                      <a href="${certificateUrl}" class="button">Download Certificate</a>
-                  </div>
-
-                  <div class="message">
-                      This certificate verifies your successful completion of the course and can be shared with employers, 
-                      added to your portfolio, or used for professional development purposes.
-                  </div>
-
-                  <div class="message">
-                      Congratulations on your achievement!<br>
-                      The Course Online Disabilitas Team
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
-  private generateMentorApprovedTemplate(userName: string): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Mentor Application Approved</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #059669, #10B981);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .button {
-                  display: inline-block;
-                  padding: 14px 28px;
-                  background: linear-gradient(135deg, #059669, #10B981);
-                  color: white;
-                  text-decoration: none;
-                  border-radius: 6px;
-                  font-weight: 600;
-                  text-align: center;
-                  margin: 20px 0;
-              }
-              .next-steps {
-                  background: #f0fdf4;
-                  border: 1px solid #bbf7d0;
-                  padding: 15px;
-                  border-radius: 6px;
-                  margin: 20px 0;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Welcome to Our Mentor Community!</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Hi ${userName},</div>
-                  
-                  <div class="message">
-                      We're excited to inform you that your mentor application has been approved! 
-                      Welcome to our community of dedicated educators.
-                  </div>
-
-                  <div class="next-steps">
-                      <strong>Next Steps:</strong>
-                      <ul>
-                          <li>Create your first course</li>
-                          <li>Set up your mentor profile</li>
-                          <li>Start sharing your knowledge with students</li>
-                      </ul>
-                  </div>
-
-                  <div style="text-align: center;">
-                      <a href="${
-                        process.env.APP_URL
-                      }/mentor/dashboard" class="button">Go to Mentor Dashboard</a>
-                  </div>
-
-                  <div class="message">
-                      As a mentor, you'll have the opportunity to impact students' lives, 
-                      share your expertise, and earn income from your courses.
-                  </div>
-
-                  <div class="message">
-                      Welcome aboard!<br>
-                      The Course Online Disabilitas Team
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
-  private generateMentorRejectedTemplate(
-    userName: string,
-    reason: string
-  ): string {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Mentor Application Status</title>
-          <style>
-              body {
-                  font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 0;
-                  padding: 0;
-                  background-color: #f9fafb;
-              }
-              .container {
-                  max-width: 600px;
-                  margin: 0 auto;
-                  background: #ffffff;
-                  border-radius: 8px;
-                  overflow: hidden;
-                  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              }
-              .header {
-                  background: linear-gradient(135deg, #DC2626, #EF4444);
-                  color: white;
-                  padding: 30px 20px;
-                  text-align: center;
-              }
-              .header h1 {
-                  margin: 0;
-                  font-size: 24px;
-                  font-weight: 600;
-              }
-              .content {
-                  padding: 30px;
-              }
-              .greeting {
-                  font-size: 18px;
-                  margin-bottom: 20px;
-                  color: #374151;
-              }
-              .message {
-                  margin-bottom: 25px;
-                  color: #6B7280;
-              }
-              .reason {
-                  background: #fef2f2;
-                  border: 1px solid #fecaca;
-                  padding: 15px;
-                  border-radius: 6px;
-                  margin: 20px 0;
-                  color: #7f1d1d;
-              }
-              .footer {
-                  padding: 20px;
-                  text-align: center;
-                  color: #9CA3AF;
-                  font-size: 14px;
-                  border-top: 1px solid #E5E7EB;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="header">
-                  <h1>Mentor Application Update</h1>
-              </div>
-              <div class="content">
-                  <div class="greeting">Hi ${userName},</div>
-                  
-                  <div class="message">
-                      Thank you for your interest in becoming a mentor on our platform. 
-                      After careful review of your application, we regret to inform you that 
-                      we are unable to approve your application at this time.
-                  </div>
-
-                  <div class="reason">
-                      <strong>Reason for rejection:</strong><br>
-                      ${reason}
-                  </div>
-
-                  <div class="message">
-                      We encourage you to address the feedback above and consider reapplying in the future. 
-                      Our mentor requirements may change, and we'd be happy to review your application again.
-                  </div>
-
-                  <div class="message">
-                      Thank you for your understanding.<br>
-                      The Course Online Disabilitas Team
-                  </div>
-              </div>
-              <div class="footer">
-                  <p>&copy; ${new Date().getFullYear()} Course Online Disabilitas. All rights reserved.</p>
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
-  }
-
   /**
    * Check email service status
    */
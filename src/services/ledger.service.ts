@@ -0,0 +1,805 @@
+import crypto from "crypto";
+import prisma from "@/lib/prisma";
+import { paymentGateway } from "@/lib/payment";
+import { paymentConfig } from "@/config/payment.config";
+import mentorService from "./mentor.service";
+import { AppError, NotFoundError, ConflictError } from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  LEDGER_ENTRY_TYPE,
+  PAYOUT_STATUS,
+  TRANSACTION_STATUS,
+} from "@/lib/constants";
+import { logInfo } from "@/utils/logger.util";
+
+/**
+ * Advisory lock key serializing payout batch creation
+ */
+const PAYOUT_LOCK_KEY = 720_001;
+
+/**
+ * Transaction data needed to post ledger entries
+ */
+interface LedgerTransaction {
+  id: string;
+  order_id?: string;
+  total_amount: number;
+  course: { mentor_id: string };
+}
+
+/**
+ * Ledger List Filters
+ */
+interface LedgerFilters {
+  page?: number;
+  limit?: number;
+  type?: string;
+}
+
+/**
+ * Payout List Filters
+ */
+interface PayoutFilters {
+  page?: number;
+  limit?: number;
+  status?: string;
+  batch_id?: string;
+  mentor_id?: string;
+}
+
+type CsvValue = string | number | Date | null | undefined;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ledger Service
+ * Append-only mentor earnings ledger and payout batches
+ */
+export class LedgerService {
+  /**
+   * Record sale entry for a paid transaction (idempotent)
+   */
+  async recordSale(transaction: LedgerTransaction, paidAt: Date = new Date()) {
+    // Fully discounted checkouts carry no earnings
+    if (transaction.total_amount <= 0) return null;
+
+    const existing = await prisma.mentorLedgerEntry.findUnique({
+      where: {
+        transaction_id_type: {
+          transaction_id: transaction.id,
+          type: LEDGER_ENTRY_TYPE.SALE,
+        },
+      },
+    });
+
+    if (existing) return existing;
+
+    const { platformCommission, paymentFee, mentorRevenue } =
+      paymentGateway.calculateCommission(transaction.total_amount);
+
+    const entry = await prisma.mentorLedgerEntry.create({
+      data: {
+        mentor_id: transaction.course.mentor_id,
+        transaction_id: transaction.id,
+        type: LEDGER_ENTRY_TYPE.SALE,
+        gross_amount: transaction.total_amount,
+        platform_fee: platformCommission,
+        gateway_fee: paymentFee,
+        amount: mentorRevenue,
+        description: transaction.order_id
+          ? `Sale ${transaction.order_id}`
+          : "Course sale",
+        // Earnings stay on hold until the refund window closes
+        available_at: new Date(
+          paidAt.getTime() + paymentConfig.payout.holdDays * DAY_IN_MS
+        ),
+      },
+    });
+
+    await mentorService.updateMentorRevenue(
+      transaction.course.mentor_id,
+      mentorRevenue
+    );
+
+    return entry;
+  }
+
+  /**
+   * Record refund reversal for a refunded transaction (idempotent)
+   */
+  async recordRefund(transaction: LedgerTransaction) {
+    const [sale, existing] = await Promise.all([
+      prisma.mentorLedgerEntry.findUnique({
+        where: {
+          transaction_id_type: {
+            transaction_id: transaction.id,
+            type: LEDGER_ENTRY_TYPE.SALE,
+          },
+        },
+      }),
+      prisma.mentorLedgerEntry.findUnique({
+        where: {
+          transaction_id_type: {
+            transaction_id: transaction.id,
+            type: LEDGER_ENTRY_TYPE.REFUND,
+          },
+        },
+      }),
+    ]);
+
+    if (existing) return existing;
+
+    // Nothing was credited, nothing to reverse
+    if (!sale) return null;
+
+    const entry = await prisma.mentorLedgerEntry.create({
+      data: {
+        mentor_id: sale.mentor_id,
+        transaction_id: transaction.id,
+        type: LEDGER_ENTRY_TYPE.REFUND,
+        gross_amount: -sale.gross_amount,
+        platform_fee: -sale.platform_fee,
+        gateway_fee: -sale.gateway_fee,
+        amount: -sale.amount,
+        description: transaction.order_id
+          ? `Refund ${transaction.order_id}`
+          : "Course refund",
+        // Offsets the sale in whichever bucket (pending/available) it sits
+        available_at: sale.available_at,
+      },
+    });
+
+    await mentorService.updateMentorRevenue(sale.mentor_id, -sale.amount);
+
+    return entry;
+  }
+
+  /**
+   * Place manual hold on mentor's available balance
+   */
+  async placeHold(
+    mentorId: string,
+    amount: number,
+    reason: string,
+    adminId: string
+  ) {
+    await this.getMentorProfile(mentorId);
+
+    const balance = await this.getMentorBalance(mentorId);
+    if (amount > balance.available_balance) {
+      throw new AppError(
+        "Hold amount exceeds available balance",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    return prisma.mentorLedgerEntry.create({
+      data: {
+        mentor_id: mentorId,
+        type: LEDGER_ENTRY_TYPE.HOLD,
+        amount: -amount,
+        description: reason,
+        created_by: adminId,
+      },
+    });
+  }
+
+  /**
+   * Release (part of) a manual hold
+   */
+  async releaseHold(
+    mentorId: string,
+    amount: number,
+    reason: string,
+    adminId: string
+  ) {
+    await this.getMentorProfile(mentorId);
+
+    const balance = await this.getMentorBalance(mentorId);
+    if (amount > balance.on_hold) {
+      throw new AppError(
+        "Release amount exceeds amount on hold",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    return prisma.mentorLedgerEntry.create({
+      data: {
+        mentor_id: mentorId,
+        type: LEDGER_ENTRY_TYPE.HOLD_RELEASE,
+        amount,
+        description: reason,
+        created_by: adminId,
+      },
+    });
+  }
+
+  /**
+   * Get mentor balance summary from the ledger
+   */
+  async getMentorBalance(mentorId: string) {
+    const now = new Date();
+
+    const [byType, available, pending, processing, paidOut] =
+      await Promise.all([
+        prisma.mentorLedgerEntry.groupBy({
+          by: ["type"],
+          where: { mentor_id: mentorId },
+          _sum: {
+            gross_amount: true,
+            platform_fee: true,
+            gateway_fee: true,
+            amount: true,
+          },
+        }),
+        prisma.mentorLedgerEntry.aggregate({
+          where: { mentor_id: mentorId, available_at: { lte: now } },
+          _sum: { amount: true },
+        }),
+        prisma.mentorLedgerEntry.aggregate({
+          where: { mentor_id: mentorId, available_at: { gt: now } },
+          _sum: { amount: true },
+        }),
+        prisma.mentorPayout.aggregate({
+          where: { mentor_id: mentorId, status: PAYOUT_STATUS.PENDING },
+          _sum: { amount: true },
+        }),
+        prisma.mentorPayout.aggregate({
+          where: { mentor_id: mentorId, status: PAYOUT_STATUS.PAID },
+          _sum: { amount: true },
+        }),
+      ]);
+
+    const sumOf = (type: string, field: string) => {
+      const row = byType.find((item: any) => item.type === type);
+      return row?._sum?.[field] || 0;
+    };
+
+    return {
+      gross_sales: sumOf(LEDGER_ENTRY_TYPE.SALE, "gross_amount"),
+      platform_fees:
+        sumOf(LEDGER_ENTRY_TYPE.SALE, "platform_fee") +
+        sumOf(LEDGER_ENTRY_TYPE.REFUND, "platform_fee"),
+      gateway_fees:
+        sumOf(LEDGER_ENTRY_TYPE.SALE, "gateway_fee") +
+        sumOf(LEDGER_ENTRY_TYPE.REFUND, "gateway_fee"),
+      refunded: -sumOf(LEDGER_ENTRY_TYPE.REFUND, "amount"),
+      net_earnings:
+        sumOf(LEDGER_ENTRY_TYPE.SALE, "amount") +
+        sumOf(LEDGER_ENTRY_TYPE.REFUND, "amount"),
+      on_hold:
+        -sumOf(LEDGER_ENTRY_TYPE.HOLD, "amount") -
+        sumOf(LEDGER_ENTRY_TYPE.HOLD_RELEASE, "amount"),
+      pending_balance: pending._sum.amount || 0,
+      available_balance: available._sum.amount || 0,
+      processing_payouts: processing._sum.amount || 0,
+      paid_out: paidOut._sum.amount || 0,
+    };
+  }
+
+  /**
+   * Get ledger entries and balance for the logged-in mentor
+   */
+  async getMentorLedger(mentorUserId: string, filters: LedgerFilters = {}) {
+    const { page = 1, limit = 20, type } = filters;
+    const skip = (page - 1) * limit;
+
+    const mentor = await mentorService.getMentorByUserId(mentorUserId);
+
+    const where: any = { mentor_id: mentor.id };
+    if (type) {
+      where.type = type;
+    }
+
+    const [entries, total, balance] = await Promise.all([
+      prisma.mentorLedgerEntry.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+        include: {
+          transaction: {
+            select: {
+              order_id: true,
+              course: {
+                select: { id: true, title: true },
+              },
+            },
+          },
+        },
+      }),
+      prisma.mentorLedgerEntry.count({ where }),
+      this.getMentorBalance(mentor.id),
+    ]);
+
+    return {
+      balance,
+      data: entries,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Create payout batch for every mentor with enough available balance
+   */
+  async createPayoutBatch(
+    adminId: string,
+    options: { minimumAmount?: number } = {}
+  ) {
+    const minimumAmount =
+      options.minimumAmount ?? paymentConfig.payout.minimumAmount;
+    const periodEnd = new Date();
+    const batchId = crypto.randomUUID();
+
+    // Serialized with an advisory lock and balances read inside the
+    // transaction, so concurrent batches cannot pay the same balance twice
+    const payouts = await prisma.$transaction(
+      async (tx: any) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${PAYOUT_LOCK_KEY})`;
+
+        const balances = await tx.mentorLedgerEntry.groupBy({
+          by: ["mentor_id"],
+          where: { available_at: { lte: periodEnd } },
+          _sum: { amount: true },
+        });
+
+        const eligible = balances.filter(
+          (item: any) =>
+            (item._sum.amount || 0) > 0 && item._sum.amount >= minimumAmount
+        );
+
+        const created = [];
+        for (const item of eligible) {
+          // Whole rupiah, rounded down so a payout never exceeds the balance
+          const amount = Math.floor(item._sum.amount);
+
+          // Payout and its ledger debit are written together
+          const payout = await tx.mentorPayout.create({
+            data: {
+              mentor_id: item.mentor_id,
+              batch_id: batchId,
+              amount,
+              status: PAYOUT_STATUS.PENDING,
+              period_end: periodEnd,
+              created_by: adminId,
+              ledger_entries: {
+                create: {
+                  mentor_id: item.mentor_id,
+                  type: LEDGER_ENTRY_TYPE.PAYOUT,
+                  amount: -amount,
+                  description: `Payout batch ${batchId}`,
+                  available_at: periodEnd,
+                  created_by: adminId,
+                },
+              },
+            },
+          });
+
+          created.push(payout);
+        }
+
+        return created;
+      },
+      { timeout: paymentConfig.payout.batchTimeout }
+    );
+
+    logInfo("Payout batch created", {
+      batchId,
+      payouts: payouts.length,
+      adminId,
+    });
+
+    return {
+      batch_id: batchId,
+      period_end: periodEnd,
+      total_payouts: payouts.length,
+      total_amount: payouts.reduce(
+        (sum: number, payout: any) => sum + payout.amount,
+        0
+      ),
+      payouts,
+    };
+  }
+
+  /**
+   * Get payouts (admin)
+   */
+  async getPayouts(filters: PayoutFilters = {}) {
+    const { page = 1, limit = 20 } = filters;
+    const skip = (page - 1) * limit;
+    const where = this.buildPayoutWhere(filters);
+
+    const [payouts, total] = await Promise.all([
+      prisma.mentorPayout.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+        include: {
+          mentor: {
+            select: {
+              id: true,
+              user: {
+                select: {
+                  full_name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.mentorPayout.count({ where }),
+    ]);
+
+    return {
+      data: payouts,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get payouts for the logged-in mentor
+   */
+  async getMentorPayouts(
+    mentorUserId: string,
+    filters: { page?: number; limit?: number; status?: string } = {}
+  ) {
+    const mentor = await mentorService.getMentorByUserId(mentorUserId);
+    return this.getPayouts({ ...filters, mentor_id: mentor.id });
+  }
+
+  /**
+   * Mark payout as paid
+   */
+  async markPayoutPaid(
+    payoutId: string,
+    adminId: string,
+    reference: string,
+    notes?: string
+  ) {
+    const { count } = await prisma.mentorPayout.updateMany({
+      where: { id: payoutId, status: PAYOUT_STATUS.PENDING },
+      data: {
+        status: PAYOUT_STATUS.PAID,
+        reference,
+        notes,
+        paid_at: new Date(),
+        paid_by: adminId,
+      },
+    });
+
+    if (count === 0) {
+      await this.assertPayoutExists(payoutId);
+      throw new ConflictError("Payout is no longer pending");
+    }
+
+    return prisma.mentorPayout.findUnique({ where: { id: payoutId } });
+  }
+
+  /**
+   * Cancel pending payout and return the amount to the mentor balance
+   */
+  async cancelPayout(payoutId: string, adminId: string, reason?: string) {
+    const { count } = await prisma.mentorPayout.updateMany({
+      where: { id: payoutId, status: PAYOUT_STATUS.PENDING },
+      data: {
+        status: PAYOUT_STATUS.CANCELLED,
+        notes: reason,
+        cancelled_at: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      await this.assertPayoutExists(payoutId);
+      throw new ConflictError("Payout is no longer pending");
+    }
+
+    const payout = await prisma.mentorPayout.findUnique({
+      where: { id: payoutId },
+    });
+
+    await prisma.mentorLedgerEntry.create({
+      data: {
+        mentor_id: payout.mentor_id,
+        payout_id: payout.id,
+        type: LEDGER_ENTRY_TYPE.PAYOUT_REVERSAL,
+        amount: payout.amount,
+        description: reason || `Payout ${payout.id} cancelled`,
+        created_by: adminId,
+      },
+    });
+
+    return payout;
+  }
+
+  /**
+   * Export payouts as CSV
+   */
+  async exportPayoutsCsv(filters: PayoutFilters = {}) {
+    const payouts = await prisma.mentorPayout.findMany({
+      where: this.buildPayoutWhere(filters),
+      orderBy: { created_at: "asc" },
+      include: {
+        mentor: {
+          select: {
+            user: {
+              select: {
+                full_name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const header = [
+      "payout_id",
+      "batch_id",
+      "mentor_id",
+      "mentor_name",
+      "mentor_email",
+      "amount",
+      "status",
+      "period_end",
+      "reference",
+      "paid_at",
+      "created_at",
+    ];
+
+    const rows = payouts.map((payout: any) => [
+      payout.id,
+      payout.batch_id,
+      payout.mentor_id,
+      payout.mentor.user.full_name,
+      payout.mentor.user.email,
+      payout.amount,
+      payout.status,
+      payout.period_end,
+      payout.reference,
+      payout.paid_at,
+      payout.created_at,
+    ]);
+
+    return this.toCsv([header, ...rows]);
+  }
+
+  /**
+   * Export mentor ledger entries as CSV
+   */
+  async exportLedgerCsv(
+    mentorId: string,
+    dateRange?: { start: Date; end: Date }
+  ) {
+    const where: any = { mentor_id: mentorId };
+    if (dateRange) {
+      where.created_at = { gte: dateRange.start, lte: dateRange.end };
+    }
+
+    const entries = await prisma.mentorLedgerEntry.findMany({
+      where,
+      orderBy: { created_at: "asc" },
+      include: {
+        transaction: {
+          select: { order_id: true },
+        },
+      },
+    });
+
+    const header = [
+      "entry_id",
+      "created_at",
+      "type",
+      "order_id",
+      "gross_amount",
+      "platform_fee",
+      "gateway_fee",
+      "net_amount",
+      "available_at",
+      "payout_id",
+      "description",
+    ];
+
+    const rows = entries.map((entry: any) => [
+      entry.id,
+      entry.created_at,
+      entry.type,
+      entry.transaction?.order_id,
+      entry.gross_amount,
+      entry.platform_fee,
+      entry.gateway_fee,
+      entry.amount,
+      entry.available_at,
+      entry.payout_id,
+      entry.description,
+    ]);
+
+    return this.toCsv([header, ...rows]);
+  }
+
+  /**
+   * Reconcile paid/refunded transactions against ledger entries
+   */
+  async getReconciliation(dateRange?: { start: Date; end: Date }) {
+    const where: any = {
+      status: {
+        in: [TRANSACTION_STATUS.PAID, TRANSACTION_STATUS.REFUNDED],
+      },
+      total_amount: { gt: 0 },
+    };
+
+    if (dateRange) {
+      where.paid_at = {
+        gte: dateRange.start,
+        lte: dateRange.end,
+      };
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where,
+      select: {
+        id: true,
+        order_id: true,
+        status: true,
+        total_amount: true,
+      },
+    });
+
+    const entries = await prisma.mentorLedgerEntry.findMany({
+      where: {
+        transaction_id: { in: transactions.map((t: any) => t.id) },
+      },
+      select: {
+        transaction_id: true,
+        type: true,
+        gross_amount: true,
+        platform_fee: true,
+        gateway_fee: true,
+        amount: true,
+      },
+    });
+
+    const entryKey = (transactionId: string, type: string) =>
+      `${transactionId}:${type}`;
+    const entryMap = new Map<string, any>(
+      entries.map((e: any) => [entryKey(e.transaction_id, e.type), e])
+    );
+
+    const missingSales: string[] = [];
+    const missingRefunds: string[] = [];
+    const amountMismatches: string[] = [];
+    let transactionGross = 0;
+    let refundedGross = 0;
+
+    for (const transaction of transactions) {
+      transactionGross += transaction.total_amount;
+
+      const sale = entryMap.get(
+        entryKey(transaction.id, LEDGER_ENTRY_TYPE.SALE)
+      );
+      if (!sale) {
+        missingSales.push(transaction.order_id);
+      } else if (sale.gross_amount !== transaction.total_amount) {
+        amountMismatches.push(transaction.order_id);
+      }
+
+      if (transaction.status === TRANSACTION_STATUS.REFUNDED) {
+        refundedGross += transaction.total_amount;
+        if (
+          !entryMap.has(entryKey(transaction.id, LEDGER_ENTRY_TYPE.REFUND))
+        ) {
+          missingRefunds.push(transaction.order_id);
+        }
+      }
+    }
+
+    const sumEntries = (type: string, field: string) =>
+      entries
+        .filter((e: any) => e.type === type)
+        .reduce((sum: number, e: any) => sum + e[field], 0);
+
+    const ledgerGross = sumEntries(LEDGER_ENTRY_TYPE.SALE, "gross_amount");
+    const ledgerRefunds = -sumEntries(LEDGER_ENTRY_TYPE.REFUND, "gross_amount");
+
+    return {
+      transaction_gross: transactionGross,
+      ledger_gross: ledgerGross,
+      refunded_gross: refundedGross,
+      ledger_refunds: ledgerRefunds,
+      platform_fees:
+        sumEntries(LEDGER_ENTRY_TYPE.SALE, "platform_fee") +
+        sumEntries(LEDGER_ENTRY_TYPE.REFUND, "platform_fee"),
+      gateway_fees:
+        sumEntries(LEDGER_ENTRY_TYPE.SALE, "gateway_fee") +
+        sumEntries(LEDGER_ENTRY_TYPE.REFUND, "gateway_fee"),
+      mentor_net:
+        sumEntries(LEDGER_ENTRY_TYPE.SALE, "amount") +
+        sumEntries(LEDGER_ENTRY_TYPE.REFUND, "amount"),
+      difference:
+        transactionGross - refundedGross - (ledgerGross - ledgerRefunds),
+      missing_sale_entries: missingSales,
+      missing_refund_entries: missingRefunds,
+      amount_mismatches: amountMismatches,
+      is_balanced:
+        missingSales.length === 0 &&
+        missingRefunds.length === 0 &&
+        amountMismatches.length === 0,
+    };
+  }
+
+  /**
+   * Build payout where clause from filters
+   */
+  private buildPayoutWhere(filters: PayoutFilters) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.batch_id) where.batch_id = filters.batch_id;
+    if (filters.mentor_id) where.mentor_id = filters.mentor_id;
+    return where;
+  }
+
+  /**
+   * Ensure payout exists
+   */
+  private async assertPayoutExists(payoutId: string) {
+    const payout = await prisma.mentorPayout.findUnique({
+      where: { id: payoutId },
+      select: { id: true },
+    });
+
+    if (!payout) {
+      throw new NotFoundError("Payout not found");
+    }
+  }
+
+  /**
+   * Ensure mentor profile exists
+   */
+  private async getMentorProfile(mentorId: string) {
+    const mentor = await prisma.mentorProfile.findUnique({
+      where: { id: mentorId },
+    });
+
+    if (!mentor) {
+      throw new NotFoundError("Mentor profile not found");
+    }
+
+    return mentor;
+  }
+
+  /**
+   * Serialize rows to CSV (RFC 4180 quoting, formula-injection safe)
+   */
+  private toCsv(rows: CsvValue[][]) {
+    const escape = (value: CsvValue) => {
+      if (value === null || value === undefined) return "";
+      if (value instanceof Date) return value.toISOString();
+      if (typeof value === "number") return String(value);
+
+      let text = String(value);
+      if (/^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+      }
+      if (/[",\r\n]/.test(text)) {
+        text = `"${text.replace(/"/g, '""')}"`;
+      }
+      return text;
+    };
+
+    return rows.map((row) => row.map(escape).join(",")).join("\n");
+  }
+}
+
+const ledgerService = new LedgerService();
+export default ledgerService;
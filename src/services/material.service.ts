@@ -1,6 +1,7 @@
 import prisma from "@/lib/prisma";
 import { NotFoundError, ForbiddenError, AppError } from "@/utils/error.util";
-import { HTTP_STATUS, USER_ROLES } from "@/lib/constants";
+import { HTTP_STATUS, USER_ROLES, TRANSCRIPT_STATUS } from "@/lib/constants";
+import accessibilityAuditService from "./accessibility-audit.service";
 
 /**
  * Material Creation Data
@@ -12,6 +13,8 @@ interface CreateMaterialData {
   type: string;
   content?: string;
   document_url?: string;
+  document_tagged?: boolean;
+  easy_read_summary?: string | null;
   duration?: number;
   order?: number;
   is_free?: boolean;
@@ -25,6 +28,8 @@ interface UpdateMaterialData {
   description?: string;
   content?: string;
   document_url?: string;
+  document_tagged?: boolean;
+  easy_read_summary?: string | null;
   duration?: number;
   order?: number;
   is_free?: boolean;
@@ -101,6 +106,8 @@ export class MaterialService {
         type: data.type,
         content: data.content,
         document_url: data.document_url,
+        document_tagged: data.document_tagged ?? false,
+        easy_read_summary: data.easy_read_summary,
         duration: data.duration || 0,
         order,
         is_free: data.is_free || false,
@@ -114,6 +121,8 @@ export class MaterialService {
     // Update section duration
     await this.updateSectionDuration(data.section_id);
 
+    accessibilityAuditService.refreshAudit({ course_id: section.course_id });
+
     return material;
   }
 
@@ -158,6 +167,30 @@ export class MaterialService {
                 resolution: true,
               },
             },
+            captions: {
+              select: {
+                language: true,
+                label: true,
+                is_default: true,
+              },
+            },
+            transcripts: {
+              where: { status: TRANSCRIPT_STATUS.COMPLETED },
+              select: {
+                id: true,
+                language: true,
+                source: true,
+                updated_at: true,
+                segments: {
+                  orderBy: { position: "asc" },
+                  select: {
+                    start_ms: true,
+                    end_ms: true,
+                    text: true,
+                  },
+                },
+              },
+            },
           },
         },
         resources: true,
@@ -227,6 +260,10 @@ export class MaterialService {
       await this.updateSectionDuration(material.section_id);
     }
 
+    accessibilityAuditService.refreshAudit({
+      course_id: material.section.course_id,
+    });
+
     return updated;
   }
 
@@ -298,6 +335,10 @@ export class MaterialService {
     // Update section duration
     await this.updateSectionDuration(material.section_id);
 
+    accessibilityAuditService.refreshAudit({
+      course_id: material.section.course_id,
+    });
+
     return { id: material_id, deleted: true };
   }
 
@@ -573,6 +614,10 @@ export class MaterialService {
     // Update section duration
     await this.updateSectionDuration(material.section_id);
 
+    accessibilityAuditService.refreshAudit({
+      course_id: material.section.course_id,
+    });
+
     return updated;
   }
 
@@ -601,11 +601,47 @@ export class MentorService {
       },
     });
 
+    // Wishlist counts per course as a demand signal
+    const wishlistByCourse = await prisma.wishlist.groupBy({
+      by: ["course_id"],
+      where: {
+        course: { mentor_id: mentor.id },
+      },
+      _count: { id: true },
+      orderBy: { _count: { id: "desc" } },
+    });
+
+    const wishlistCourses = await prisma.course.findMany({
+      where: {
+        id: { in: wishlistByCourse.map((item: any) => item.course_id) },
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+      },
+    });
+
+    const wishlist = {
+      total: wishlistByCourse.reduce(
+        (sum: number, item: any) => sum + item._count.id,
+        0
+      ),
+      by_course: wishlistByCourse.map((item: any) => ({
+        course: wishlistCourses.find(
+          (course: any) => course.id === item.course_id
+        ),
+        count: item._count.id,
+      })),
+    };
+
     return {
       mentor,
       statistics,
       recent_enrollments,
       recent_reviews,
+      wishlist_count: wishlist.total,
+      wishlist,
     };
   }
 
@@ -13,7 +13,9 @@ type NotificationType =
   | "REVIEW_RECEIVED"
   | "MENTOR_APPROVED"
   | "MENTOR_REJECTED"
-  | "SYSTEM_ANNOUNCEMENT";
+  | "SYSTEM_ANNOUNCEMENT"
+  | "ASSIGNMENT_GRADED"
+  | "ACCOMMODATION_REVIEWED";
 
 type NotificationStatus = "UNREAD" | "READ";
 
@@ -87,6 +89,48 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Create the same notification for many users in one insert
+   * (no emails, for broadcast types like wishlist updates)
+   */
+  async createMany(
+    userIds: string[],
+    type: NotificationType,
+    title: string,
+    message: string,
+    data?: NotificationData
+  ): Promise<number> {
+    if (userIds.length === 0) return 0;
+
+    // Users without settings get the defaults (everything enabled)
+    const settings = await prisma.notificationSettings.findMany({
+      where: { user_id: { in: userIds } },
+    });
+    const disabled = new Set(
+      settings
+        .filter((item: any) => !this.isNotificationEnabled(item, type))
+        .map((item: any) => item.user_id)
+    );
+
+    const recipients = userIds.filter((userId) => !disabled.has(userId));
+    if (recipients.length === 0) return 0;
+
+    const result = await prisma.notification.createMany({
+      data: recipients.map((userId) => ({
+        user_id: userId,
+        type,
+        title,
+        message,
+        data: data || {},
+        status: "UNREAD" as NotificationStatus,
+      })),
+    });
+
+    logInfo(`Notifications created`, { count: result.count, type });
+
+    return result.count;
+  }
+
   /**
    * Check if notification type is enabled
    */
@@ -105,6 +149,8 @@ export class NotificationService {
       MENTOR_APPROVED: "course_updates",
       MENTOR_REJECTED: "course_updates",
       SYSTEM_ANNOUNCEMENT: "email_notifications",
+      ASSIGNMENT_GRADED: "course_updates",
+      ACCOMMODATION_REVIEWED: "course_updates",
     };
 
     const settingKey = typeMap[type];
@@ -297,6 +343,20 @@ export class NotificationService {
     );
   }
 
+  async notifyPaymentFailed(
+    userId: string,
+    courseName: string,
+    reason: string
+  ): Promise<void> {
+    await this.create(
+      userId,
+      "PAYMENT_FAILED",
+      "Payment Failed",
+      `Your payment for "${courseName}" could not be completed (${reason}). Please try again.`,
+      { courseName, reason, type: "payment_failed" }
+    );
+  }
+
   async notifyCertificateIssued(
     userId: string,
     courseName: string,
@@ -311,6 +371,83 @@ export class NotificationService {
     );
   }
 
+  async notifyAssignmentGraded(
+    userId: string,
+    materialTitle: string,
+    score: number,
+    submissionId: string
+  ): Promise<void> {
+    await this.create(
+      userId,
+      "ASSIGNMENT_GRADED",
+      "Assignment Graded",
+      `Your submission for "${materialTitle}" has been graded. Score: ${score}.`,
+      { materialTitle, score, submissionId, type: "assignment_graded" }
+    );
+  }
+
+  async notifyAccommodationReviewed(
+    userId: string,
+    courseName: string,
+    approved: boolean,
+    requestId: string
+  ): Promise<void> {
+    await this.create(
+      userId,
+      "ACCOMMODATION_REVIEWED",
+      approved ? "Accommodation Approved" : "Accommodation Rejected",
+      approved
+        ? `Your accommodation request for "${courseName}" has been approved.`
+        : `Your accommodation request for "${courseName}" was not approved.`,
+      { courseName, approved, requestId, type: "accommodation_reviewed" }
+    );
+  }
+
+  async notifyCommentReply(
+    userId: string,
+    replierName: string,
+    materialTitle: string,
+    commentId: string,
+    materialId: string
+  ): Promise<void> {
+    await this.create(
+      userId,
+      "COMMENT_REPLY",
+      "New Reply",
+      `${replierName} replied to your comment on "${materialTitle}".`,
+      { materialTitle, commentId, materialId, type: "comment_reply" }
+    );
+  }
+
+  async notifyWishlistPriceDrop(
+    userIds: string[],
+    courseName: string,
+    courseId: string,
+    price: number
+  ): Promise<void> {
+    await this.createMany(
+      userIds,
+      "COURSE_UPDATE",
+      "Price Drop",
+      `"${courseName}" on your wishlist is now Rp${price.toLocaleString()}.`,
+      { courseName, courseId, price, type: "wishlist_price_drop" }
+    );
+  }
+
+  async notifyWishlistCoursePublished(
+    userIds: string[],
+    courseName: string,
+    courseId: string
+  ): Promise<void> {
+    await this.createMany(
+      userIds,
+      "COURSE_UPDATE",
+      "Course Available",
+      `"${courseName}" on your wishlist is now available. Enroll today!`,
+      { courseName, courseId, type: "wishlist_published" }
+    );
+  }
+
   async notifyMentorApproved(userId: string): Promise<void> {
     await this.create(
       userId,
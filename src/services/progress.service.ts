@@ -0,0 +1,366 @@
+import prisma from "@/lib/prisma";
+import certificateService from "./certificate.service";
+import courseAccessService from "./course-access.service";
+import { NotFoundError, AppError } from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  MATERIAL_TYPE,
+  ENROLLMENT_STATUS,
+  PROGRESS,
+  COMPLETION_REQUIREMENTS,
+} from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Material Progress Update Data
+ */
+interface UpdateProgressData {
+  material_id: string;
+  watched_duration?: number;
+  last_position?: number;
+  is_completed?: boolean;
+}
+
+/**
+ * Progress Service
+ * Handles per-material progress and enrollment completion
+ */
+export class ProgressService {
+  /**
+   * Update progress for a material (video position or manual completion)
+   */
+  async updateProgress(user_id: string, data: UpdateProgressData) {
+    const material = await prisma.material.findUnique({
+      where: { id: data.material_id },
+      include: {
+        section: {
+          select: { course_id: true },
+        },
+        video: {
+          select: { duration: true },
+        },
+      },
+    });
+
+    if (!material) {
+      throw new NotFoundError("Material not found");
+    }
+
+    // Quizzes and assignments complete through grading only
+    if (
+      data.is_completed &&
+      (material.type === MATERIAL_TYPE.QUIZ ||
+        material.type === MATERIAL_TYPE.ASSIGNMENT)
+    ) {
+      throw new AppError(
+        "This material is completed by passing it",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const enrollment = await courseAccessService.getActiveEnrollment(
+      user_id,
+      material.section.course_id
+    );
+
+    const existing = await prisma.progress.findUnique({
+      where: {
+        enrollment_id_material_id: {
+          enrollment_id: enrollment.id,
+          material_id: material.id,
+        },
+      },
+    });
+
+    const duration = material.video?.duration || material.duration || 0;
+
+    // Videos complete by watching past the threshold; only a video
+    // without a known duration can be marked complete directly
+    if (
+      data.is_completed &&
+      material.type === MATERIAL_TYPE.VIDEO &&
+      duration > 0
+    ) {
+      throw new AppError(
+        "This video is completed by watching it",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const clamp = (value: number) =>
+      duration > 0 ? Math.min(value, duration) : value;
+
+    // Watched duration only grows, seeking back must not lose progress
+    const watched_duration = clamp(
+      Math.max(existing?.watched_duration ?? 0, data.watched_duration ?? 0)
+    );
+    const last_position =
+      data.last_position !== undefined
+        ? clamp(data.last_position)
+        : existing?.last_position ?? 0;
+
+    const reachedThreshold =
+      material.type === MATERIAL_TYPE.VIDEO &&
+      duration > 0 &&
+      watched_duration / duration >= PROGRESS.VIDEO_WATCH_THRESHOLD;
+
+    const wasCompleted = existing?.is_completed ?? false;
+    const is_completed =
+      wasCompleted || reachedThreshold || data.is_completed === true;
+    const now = new Date();
+
+    const progress = await prisma.progress.upsert({
+      where: {
+        enrollment_id_material_id: {
+          enrollment_id: enrollment.id,
+          material_id: material.id,
+        },
+      },
+      create: {
+        enrollment_id: enrollment.id,
+        material_id: material.id,
+        user_id,
+        watched_duration,
+        last_position,
+        is_completed,
+        completed_at: is_completed ? now : null,
+      },
+      update: {
+        watched_duration,
+        last_position,
+        is_completed,
+        ...(is_completed && !wasCompleted && { completed_at: now }),
+      },
+    });
+
+    const updatedEnrollment =
+      is_completed && !wasCompleted
+        ? await this.recalculateEnrollmentProgress(enrollment.id, now)
+        : await prisma.enrollment.update({
+            where: { id: enrollment.id },
+            data: { last_accessed_at: now },
+          });
+
+    return {
+      progress,
+      enrollment: {
+        id: updatedEnrollment.id,
+        status: updatedEnrollment.status,
+        progress: updatedEnrollment.progress,
+        completed_at: updatedEnrollment.completed_at,
+        certificate_id: updatedEnrollment.certificate_id,
+      },
+    };
+  }
+
+  /**
+   * Mark material completed (quiz passed, assignment graded)
+   */
+  async markMaterialCompleted(
+    enrollment_id: string,
+    material_id: string,
+    user_id: string,
+    completed_at: Date = new Date()
+  ) {
+    const existing = await prisma.progress.findUnique({
+      where: {
+        enrollment_id_material_id: {
+          enrollment_id,
+          material_id,
+        },
+      },
+      select: { is_completed: true },
+    });
+
+    if (existing?.is_completed) {
+      return prisma.enrollment.update({
+        where: { id: enrollment_id },
+        data: { last_accessed_at: completed_at },
+      });
+    }
+
+    await prisma.progress.upsert({
+      where: {
+        enrollment_id_material_id: {
+          enrollment_id,
+          material_id,
+        },
+      },
+      create: {
+        enrollment_id,
+        material_id,
+        user_id,
+        is_completed: true,
+        completed_at,
+      },
+      update: {
+        is_completed: true,
+        completed_at,
+      },
+    });
+
+    return this.recalculateEnrollmentProgress(enrollment_id, completed_at);
+  }
+
+  /**
+   * Recalculate enrollment percentage and complete the course when done
+   */
+  async recalculateEnrollmentProgress(
+    enrollment_id: string,
+    accessed_at: Date = new Date()
+  ) {
+    const enrollment = await prisma.enrollment.findUnique({
+      where: { id: enrollment_id },
+      select: { id: true, user_id: true, course_id: true },
+    });
+
+    if (!enrollment) {
+      throw new NotFoundError("Enrollment not found");
+    }
+
+    const [totalMaterials, completedMaterials] = await Promise.all([
+      prisma.material.count({
+        where: {
+          section: { course_id: enrollment.course_id },
+        },
+      }),
+      prisma.progress.count({
+        where: {
+          enrollment_id,
+          is_completed: true,
+          material: {
+            section: { course_id: enrollment.course_id },
+          },
+        },
+      }),
+    ]);
+
+    const percentage =
+      totalMaterials > 0
+        ? Math.round((completedMaterials / totalMaterials) * 10000) / 100
+        : 0;
+
+    await prisma.enrollment.update({
+      where: { id: enrollment_id },
+      data: {
+        progress: percentage,
+        last_accessed_at: accessed_at,
+      },
+    });
+
+    if (
+      totalMaterials > 0 &&
+      percentage >= COMPLETION_REQUIREMENTS.MIN_PROGRESS_PERCENTAGE
+    ) {
+      await this.completeEnrollment(
+        enrollment_id,
+        enrollment.user_id,
+        enrollment.course_id,
+        accessed_at
+      );
+    }
+
+    return prisma.enrollment.findUnique({
+      where: { id: enrollment_id },
+    });
+  }
+
+  /**
+   * Get course progress for enrolled user
+   */
+  async getCourseProgress(user_id: string, course_id: string) {
+    const enrollment = await prisma.enrollment.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id,
+          course_id,
+        },
+      },
+      include: {
+        progress_records: {
+          select: {
+            material_id: true,
+            is_completed: true,
+            watched_duration: true,
+            last_position: true,
+            completed_at: true,
+            updated_at: true,
+          },
+          orderBy: { updated_at: "desc" },
+        },
+      },
+    });
+
+    if (!enrollment) {
+      throw new NotFoundError("Enrollment not found");
+    }
+
+    const totalMaterials = await prisma.material.count({
+      where: { section: { course_id } },
+    });
+
+    const completedMaterials = enrollment.progress_records.filter(
+      (record: any) => record.is_completed
+    ).length;
+
+    // Resume from the most recently touched unfinished material
+    const resume = enrollment.progress_records.find(
+      (record: any) => !record.is_completed
+    );
+
+    return {
+      enrollment_id: enrollment.id,
+      status: enrollment.status,
+      progress: enrollment.progress,
+      completed_at: enrollment.completed_at,
+      last_accessed_at: enrollment.last_accessed_at,
+      certificate_id: enrollment.certificate_id,
+      total_materials: totalMaterials,
+      completed_materials: completedMaterials,
+      resume_material_id: resume?.material_id ?? null,
+      resume_position: resume?.last_position ?? 0,
+      materials: enrollment.progress_records,
+    };
+  }
+
+  /**
+   * Move enrollment to COMPLETED and issue certificate (once)
+   */
+  private async completeEnrollment(
+    enrollment_id: string,
+    user_id: string,
+    course_id: string,
+    completed_at: Date
+  ) {
+    const { count } = await prisma.enrollment.updateMany({
+      where: {
+        id: enrollment_id,
+        status: ENROLLMENT_STATUS.ACTIVE,
+      },
+      data: {
+        status: ENROLLMENT_STATUS.COMPLETED,
+        completed_at,
+      },
+    });
+
+    if (count === 0) return;
+
+    logInfo("Enrollment completed", { enrollment_id, user_id, course_id });
+
+    if (!COMPLETION_REQUIREMENTS.CERTIFICATE_ENABLED) return;
+
+    // Certificate failure should not undo the completion
+    try {
+      await certificateService.generateCertificate(
+        enrollment_id,
+        user_id,
+        course_id
+      );
+    } catch (error) {
+      logError("Failed to generate certificate after completion", error);
+    }
+  }
+}
+
+const progressService = new ProgressService();
+export default progressService;
@@ -0,0 +1,939 @@
+import prisma from "@/lib/prisma";
+import progressService from "./progress.service";
+import accommodationService, {
+  type AppliedAccommodation,
+} from "./accommodation.service";
+import courseAccessService from "./course-access.service";
+import {
+  NotFoundError,
+  ForbiddenError,
+  AppError,
+  ValidationError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  USER_ROLES,
+  MATERIAL_TYPE,
+  QUESTION_TYPE,
+  QUIZ_ATTEMPT_STATUS,
+} from "@/lib/constants";
+
+/**
+ * Grace period for late submissions (network latency, clock drift)
+ */
+const SUBMISSION_GRACE_SECONDS = 30;
+
+/**
+ * Quiz Settings Data
+ */
+interface QuizSettingsData {
+  pass_mark?: number;
+  time_limit?: number | null;
+  max_attempts?: number | null;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  show_correct_answers?: boolean;
+  allow_time_extension?: boolean;
+}
+
+/**
+ * Quiz Question Option
+ */
+interface QuizOption {
+  id: string;
+  text: string;
+}
+
+/**
+ * Quiz Question Creation Data
+ */
+interface CreateQuestionData {
+  type: string;
+  question: string;
+  options?: QuizOption[];
+  correct_answers: string[];
+  explanation?: string;
+  points?: number;
+  order?: number;
+}
+
+/**
+ * Quiz Question Update Data
+ */
+interface UpdateQuestionData {
+  question?: string;
+  options?: QuizOption[];
+  correct_answers?: string[];
+  explanation?: string;
+  points?: number;
+  order?: number;
+}
+
+/**
+ * Submitted answer for a single question
+ */
+interface SubmittedAnswer {
+  question_id: string;
+  answer: string | string[];
+}
+
+/**
+ * Quiz Service
+ * Handles quiz settings, question banks, attempts and grading
+ */
+export class QuizService {
+  /**
+   * Create or update quiz settings for a QUIZ material
+   */
+  async upsertQuizSettings(
+    user_id: string,
+    user_role: string,
+    material_id: string,
+    data: QuizSettingsData
+  ) {
+    await this.getManageableMaterial(user_id, user_role, material_id);
+
+    const quiz = await prisma.quiz.upsert({
+      where: { material_id },
+      create: {
+        material_id,
+        pass_mark: data.pass_mark ?? 70,
+        time_limit: data.time_limit ?? null,
+        max_attempts: data.max_attempts ?? null,
+        shuffle_questions: data.shuffle_questions ?? false,
+        shuffle_options: data.shuffle_options ?? false,
+        show_correct_answers: data.show_correct_answers ?? true,
+        allow_time_extension: data.allow_time_extension ?? true,
+      },
+      update: {
+        ...(data.pass_mark !== undefined && { pass_mark: data.pass_mark }),
+        ...(data.time_limit !== undefined && { time_limit: data.time_limit }),
+        ...(data.max_attempts !== undefined && {
+          max_attempts: data.max_attempts,
+        }),
+        ...(data.shuffle_questions !== undefined && {
+          shuffle_questions: data.shuffle_questions,
+        }),
+        ...(data.shuffle_options !== undefined && {
+          shuffle_options: data.shuffle_options,
+        }),
+        ...(data.show_correct_answers !== undefined && {
+          show_correct_answers: data.show_correct_answers,
+        }),
+        ...(data.allow_time_extension !== undefined && {
+          allow_time_extension: data.allow_time_extension,
+        }),
+      },
+    });
+
+    return quiz;
+  }
+
+  /**
+   * Get full quiz (with answer keys) for mentor/admin
+   */
+  async getQuizForManagement(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    await this.getManageableMaterial(user_id, user_role, material_id);
+
+    const quiz = await prisma.quiz.findUnique({
+      where: { material_id },
+      include: {
+        questions: {
+          orderBy: { order: "asc" },
+        },
+        _count: {
+          select: { attempts: true },
+        },
+      },
+    });
+
+    if (!quiz) {
+      throw new NotFoundError("Quiz not found");
+    }
+
+    return quiz;
+  }
+
+  /**
+   * Add question to quiz question bank
+   */
+  async addQuestion(
+    user_id: string,
+    user_role: string,
+    material_id: string,
+    data: CreateQuestionData
+  ) {
+    const quiz = await this.getManageableQuiz(user_id, user_role, material_id);
+
+    const normalized = this.normalizeQuestionData(data.type, data);
+
+    // Get next order number if not provided
+    let order = data.order;
+    if (order === undefined) {
+      const lastQuestion = await prisma.quizQuestion.findFirst({
+        where: { quiz_id: quiz.id },
+        orderBy: { order: "desc" },
+        select: { order: true },
+      });
+      order = (lastQuestion?.order ?? -1) + 1;
+    }
+
+    const question = await prisma.quizQuestion.create({
+      data: {
+        quiz_id: quiz.id,
+        type: data.type,
+        question: data.question,
+        options: normalized.options,
+        correct_answers: normalized.correct_answers,
+        explanation: data.explanation,
+        points: data.points ?? 1,
+        order,
+      },
+    });
+
+    return question;
+  }
+
+  /**
+   * Update quiz question
+   * (material_id scopes the question to the material's quiz)
+   */
+  async updateQuestion(
+    user_id: string,
+    user_role: string,
+    question_id: string,
+    data: UpdateQuestionData,
+    material_id?: string
+  ) {
+    const question = await this.getManageableQuestion(
+      user_id,
+      user_role,
+      question_id,
+      material_id
+    );
+
+    const normalized = this.normalizeQuestionData(question.type, {
+      options:
+        data.options ??
+        (question.options as QuizOption[] | null) ??
+        undefined,
+      correct_answers: data.correct_answers ?? question.correct_answers,
+    });
+
+    const updated = await prisma.quizQuestion.update({
+      where: { id: question_id },
+      data: {
+        ...(data.question !== undefined && { question: data.question }),
+        ...(data.explanation !== undefined && {
+          explanation: data.explanation,
+        }),
+        ...(data.points !== undefined && { points: data.points }),
+        ...(data.order !== undefined && { order: data.order }),
+        options: normalized.options,
+        correct_answers: normalized.correct_answers,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete quiz question
+   * (material_id scopes the question to the material's quiz)
+   */
+  async deleteQuestion(
+    user_id: string,
+    user_role: string,
+    question_id: string,
+    material_id?: string
+  ) {
+    await this.getManageableQuestion(
+      user_id,
+      user_role,
+      question_id,
+      material_id
+    );
+
+    await prisma.quizQuestion.delete({
+      where: { id: question_id },
+    });
+
+    return { id: question_id, deleted: true };
+  }
+
+  /**
+   * Get quiz overview for a student (no answer keys)
+   */
+  async getQuizForStudent(user_id: string, material_id: string) {
+    const quiz = await prisma.quiz.findUnique({
+      where: { material_id },
+      include: {
+        material: {
+          select: {
+            section: {
+              select: { course_id: true },
+            },
+          },
+        },
+        _count: {
+          select: { questions: true },
+        },
+      },
+    });
+
+    if (!quiz) {
+      throw new NotFoundError("Quiz not found");
+    }
+
+    await courseAccessService.getActiveEnrollment(
+      user_id,
+      quiz.material.section.course_id
+    );
+
+    const attempts = await prisma.quizAttempt.findMany({
+      where: { quiz_id: quiz.id, user_id },
+      orderBy: { started_at: "desc" },
+      select: {
+        id: true,
+        status: true,
+        score: true,
+        passed: true,
+        started_at: true,
+        submitted_at: true,
+      },
+    });
+
+    const gradedScores = attempts
+      .filter((a: any) => a.score !== null)
+      .map((a: any) => a.score as number);
+
+    const accommodation = await accommodationService.resolveAccommodation(
+      user_id,
+      quiz.material.section.course_id
+    );
+    const limits = this.getAccommodatedLimits(quiz, accommodation);
+
+    return {
+      id: quiz.id,
+      material_id: quiz.material_id,
+      pass_mark: quiz.pass_mark,
+      time_limit: limits.time_limit,
+      max_attempts: limits.max_attempts,
+      accommodation: accommodation.source ? accommodation : null,
+      total_questions: quiz._count.questions,
+      attempts_used: attempts.length,
+      attempts_remaining:
+        limits.max_attempts !== null
+          ? Math.max(limits.max_attempts - attempts.length, 0)
+          : null,
+      best_score: gradedScores.length > 0 ? Math.max(...gradedScores) : null,
+      passed: attempts.some((a: any) => a.passed === true),
+      attempts,
+    };
+  }
+
+  /**
+   * Start a new attempt, or resume the one still in progress
+   */
+  async startAttempt(user_id: string, material_id: string) {
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      include: {
+        section: {
+          select: { course_id: true },
+        },
+        quiz: {
+          include: {
+            questions: {
+              orderBy: { order: "asc" },
+            },
+          },
+        },
+      },
+    });
+
+    if (!material || !material.quiz) {
+      throw new NotFoundError("Quiz not found");
+    }
+
+    const quiz = material.quiz;
+
+    if (quiz.questions.length === 0) {
+      throw new AppError("Quiz has no questions yet", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const enrollment = await courseAccessService.getActiveEnrollment(
+      user_id,
+      material.section.course_id
+    );
+
+    const accommodation = await accommodationService.resolveAccommodation(
+      user_id,
+      material.section.course_id
+    );
+    const limits = this.getAccommodatedLimits(quiz, accommodation);
+
+    // Attempts are checked and created under a lock on the enrollment,
+    // so concurrent starts cannot go past the attempt limit
+    const attempt = await prisma.$transaction(async (tx: any) => {
+      await tx.$queryRaw`
+        SELECT id FROM enrollments WHERE id = ${enrollment.id} FOR UPDATE
+      `;
+
+      // Resume attempt that is still running
+      const ongoing = await tx.quizAttempt.findFirst({
+        where: {
+          quiz_id: quiz.id,
+          user_id,
+          status: QUIZ_ATTEMPT_STATUS.IN_PROGRESS,
+        },
+        orderBy: { started_at: "desc" },
+      });
+
+      if (ongoing) {
+        if (!this.isPastDeadline(ongoing.expires_at)) {
+          return ongoing;
+        }
+
+        await tx.quizAttempt.update({
+          where: { id: ongoing.id },
+          data: { status: QUIZ_ATTEMPT_STATUS.EXPIRED },
+        });
+      }
+
+      // Check attempt limit
+      if (limits.max_attempts !== null) {
+        const usedAttempts = await tx.quizAttempt.count({
+          where: { quiz_id: quiz.id, user_id },
+        });
+
+        if (usedAttempts >= limits.max_attempts) {
+          throw new ForbiddenError("Maximum number of attempts reached");
+        }
+      }
+
+      const questionIds = quiz.questions.map((q: any) => q.id);
+      const now = new Date();
+
+      return tx.quizAttempt.create({
+        data: {
+          quiz_id: quiz.id,
+          user_id,
+          enrollment_id: enrollment.id,
+          status: QUIZ_ATTEMPT_STATUS.IN_PROGRESS,
+          question_order: quiz.shuffle_questions
+            ? this.shuffle(questionIds)
+            : questionIds,
+          started_at: now,
+          expires_at: limits.time_limit
+            ? new Date(now.getTime() + limits.time_limit * 60 * 1000)
+            : null,
+          time_multiplier: limits.time_multiplier,
+          accommodation_source: limits.applied ? accommodation.source : null,
+          accommodation_id: limits.applied
+            ? accommodation.accommodation_id
+            : null,
+        },
+      });
+    });
+
+    return this.buildAttemptPayload(attempt, quiz);
+  }
+
+  /**
+   * Submit attempt answers and grade server-side
+   * (material_id scopes the attempt to the material's quiz)
+   */
+  async submitAttempt(
+    user_id: string,
+    attempt_id: string,
+    answers: SubmittedAnswer[],
+    material_id?: string
+  ) {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attempt_id },
+      include: {
+        quiz: {
+          include: {
+            questions: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !attempt ||
+      (material_id && attempt.quiz.material_id !== material_id)
+    ) {
+      throw new NotFoundError("Quiz attempt not found");
+    }
+
+    if (attempt.user_id !== user_id) {
+      throw new ForbiddenError("You do not have access to this attempt");
+    }
+
+    if (attempt.status !== QUIZ_ATTEMPT_STATUS.IN_PROGRESS) {
+      throw new AppError(
+        "Quiz attempt has already been submitted",
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    if (this.isPastDeadline(attempt.expires_at)) {
+      await prisma.quizAttempt.update({
+        where: { id: attempt_id },
+        data: { status: QUIZ_ATTEMPT_STATUS.EXPIRED },
+      });
+      throw new AppError(
+        "Quiz time limit has expired",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const quiz = attempt.quiz;
+    const answerMap = new Map<string, string | string[]>();
+    for (const item of answers) {
+      answerMap.set(item.question_id, item.answer);
+    }
+
+    // Grade only the questions that were part of this attempt
+    const attemptQuestions = quiz.questions.filter((q: any) =>
+      attempt.question_order.includes(q.id)
+    );
+
+    let totalPoints = 0;
+    let pointsEarned = 0;
+    const results = attemptQuestions.map((question: any) => {
+      const given = answerMap.get(question.id);
+      const isCorrect = this.gradeQuestion(question, given);
+
+      totalPoints += question.points;
+      if (isCorrect) pointsEarned += question.points;
+
+      return {
+        question_id: question.id,
+        answer: given ?? null,
+        is_correct: isCorrect,
+        points: isCorrect ? question.points : 0,
+      };
+    });
+
+    const score =
+      totalPoints > 0
+        ? Math.round((pointsEarned / totalPoints) * 10000) / 100
+        : 0;
+    const passed = score >= quiz.pass_mark;
+    const submittedAt = new Date();
+
+    // Guard against double submission
+    const { count } = await prisma.quizAttempt.updateMany({
+      where: {
+        id: attempt_id,
+        status: QUIZ_ATTEMPT_STATUS.IN_PROGRESS,
+      },
+      data: {
+        status: QUIZ_ATTEMPT_STATUS.SUBMITTED,
+        answers: results,
+        score,
+        points_earned: pointsEarned,
+        total_points: totalPoints,
+        passed,
+        submitted_at: submittedAt,
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(
+        "Quiz attempt has already been submitted",
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    if (passed) {
+      await progressService.markMaterialCompleted(
+        attempt.enrollment_id,
+        quiz.material_id,
+        user_id,
+        submittedAt
+      );
+    }
+
+    return this.getAttemptResult(user_id, attempt_id, material_id);
+  }
+
+  /**
+   * Get graded attempt result
+   * (material_id scopes the attempt to the material's quiz)
+   */
+  async getAttemptResult(
+    user_id: string,
+    attempt_id: string,
+    material_id?: string
+  ) {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attempt_id },
+      include: {
+        quiz: {
+          include: {
+            questions: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !attempt ||
+      (material_id && attempt.quiz.material_id !== material_id)
+    ) {
+      throw new NotFoundError("Quiz attempt not found");
+    }
+
+    if (attempt.user_id !== user_id) {
+      throw new ForbiddenError("You do not have access to this attempt");
+    }
+
+    if (attempt.status === QUIZ_ATTEMPT_STATUS.IN_PROGRESS) {
+      throw new AppError(
+        "Quiz attempt has not been submitted yet",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const quiz = attempt.quiz;
+    const graded = (attempt.answers as any[]) || [];
+    const questionMap = new Map<string, any>(
+      quiz.questions.map((q: any) => [q.id, q])
+    );
+
+    return {
+      id: attempt.id,
+      quiz_id: attempt.quiz_id,
+      status: attempt.status,
+      score: attempt.score,
+      points_earned: attempt.points_earned,
+      total_points: attempt.total_points,
+      passed: attempt.passed,
+      pass_mark: quiz.pass_mark,
+      started_at: attempt.started_at,
+      submitted_at: attempt.submitted_at,
+      questions: graded.map((result: any) => {
+        const question = questionMap.get(result.question_id);
+        return {
+          ...result,
+          question: question?.question ?? null,
+          ...(quiz.show_correct_answers &&
+            question && {
+              correct_answers: question.correct_answers,
+              explanation: question.explanation,
+            }),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Get user's attempts for a quiz material
+   */
+  async getUserAttempts(user_id: string, material_id: string) {
+    const quiz = await prisma.quiz.findUnique({
+      where: { material_id },
+      select: { id: true },
+    });
+
+    if (!quiz) {
+      throw new NotFoundError("Quiz not found");
+    }
+
+    return prisma.quizAttempt.findMany({
+      where: { quiz_id: quiz.id, user_id },
+      orderBy: { started_at: "desc" },
+      select: {
+        id: true,
+        status: true,
+        score: true,
+        points_earned: true,
+        total_points: true,
+        passed: true,
+        started_at: true,
+        expires_at: true,
+        submitted_at: true,
+      },
+    });
+  }
+
+  /**
+   * Grade a single question
+   */
+  private gradeQuestion(question: any, given: string | string[] | undefined) {
+    if (given === undefined || given === null) return false;
+
+    const expected: string[] = question.correct_answers;
+
+    switch (question.type) {
+      case QUESTION_TYPE.MULTIPLE_CHOICE: {
+        // All-or-nothing: selected set must equal the answer key
+        const selected = new Set(Array.isArray(given) ? given : [given]);
+        return (
+          selected.size === expected.length &&
+          expected.every((id) => selected.has(id))
+        );
+      }
+
+      case QUESTION_TYPE.SINGLE_CHOICE:
+      case QUESTION_TYPE.TRUE_FALSE: {
+        if (Array.isArray(given) && given.length !== 1) return false;
+        const value = Array.isArray(given) ? given[0] : given;
+        return expected.includes(value);
+      }
+
+      case QUESTION_TYPE.SHORT_ANSWER: {
+        const value = Array.isArray(given) ? given.join(" ") : given;
+        const normalized = this.normalizeText(value);
+        return expected.some(
+          (accepted) => this.normalizeText(accepted) === normalized
+        );
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Validate and normalize options/answer key for a question type
+   */
+  private normalizeQuestionData(
+    type: string,
+    data: { options?: QuizOption[]; correct_answers: string[] }
+  ) {
+    if (type === QUESTION_TYPE.SHORT_ANSWER) {
+      return { options: undefined, correct_answers: data.correct_answers };
+    }
+
+    const options: QuizOption[] =
+      type === QUESTION_TYPE.TRUE_FALSE
+        ? [
+            { id: "true", text: "True" },
+            { id: "false", text: "False" },
+          ]
+        : data.options || [];
+
+    const optionIds = new Set(options.map((o) => o.id));
+
+    if (optionIds.size !== options.length) {
+      throw new ValidationError("Option IDs must be unique");
+    }
+
+    if (!data.correct_answers.every((answer) => optionIds.has(answer))) {
+      throw new ValidationError(
+        "Correct answers must reference existing options"
+      );
+    }
+
+    if (
+      type !== QUESTION_TYPE.MULTIPLE_CHOICE &&
+      data.correct_answers.length !== 1
+    ) {
+      throw new ValidationError(
+        "This question type accepts exactly one correct answer"
+      );
+    }
+
+    return { options, correct_answers: data.correct_answers };
+  }
+
+  /**
+   * Build attempt payload for the learner (answer keys stripped)
+   */
+  private buildAttemptPayload(attempt: any, quiz: any) {
+    const questionMap = new Map<string, any>(
+      quiz.questions.map((q: any) => [q.id, q])
+    );
+
+    const questions = attempt.question_order
+      .map((id: string) => questionMap.get(id))
+      .filter(Boolean)
+      .map((q: any) => {
+        const options = (q.options as QuizOption[] | null) || null;
+        return {
+          id: q.id,
+          type: q.type,
+          question: q.question,
+          points: q.points,
+          options:
+            options && quiz.shuffle_options ? this.shuffle(options) : options,
+        };
+      });
+
+    return {
+      id: attempt.id,
+      quiz_id: attempt.quiz_id,
+      status: attempt.status,
+      started_at: attempt.started_at,
+      expires_at: attempt.expires_at,
+      time_limit: quiz.time_limit
+        ? quiz.time_limit * (attempt.time_multiplier ?? 1)
+        : null,
+      time_multiplier: attempt.time_multiplier ?? 1,
+      questions,
+    };
+  }
+
+  /**
+   * Apply accommodation to quiz time limit and attempt limit
+   */
+  private getAccommodatedLimits(
+    quiz: any,
+    accommodation: AppliedAccommodation
+  ) {
+    // Extra time only when the mentor allows it for this quiz
+    const time_multiplier =
+      quiz.time_limit && quiz.allow_time_extension
+        ? accommodation.time_multiplier
+        : 1;
+    const extra_attempts =
+      quiz.max_attempts !== null ? accommodation.extra_attempts : 0;
+
+    return {
+      time_limit: quiz.time_limit ? quiz.time_limit * time_multiplier : null,
+      max_attempts:
+        quiz.max_attempts !== null ? quiz.max_attempts + extra_attempts : null,
+      time_multiplier,
+      applied: time_multiplier > 1 || extra_attempts > 0,
+    };
+  }
+
+  /**
+   * Get QUIZ material and check manage permission
+   */
+  private async getManageableMaterial(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    const material = await prisma.material.findUnique({
+      where: { id: material_id },
+      include: {
+        section: {
+          include: {
+            course: {
+              include: {
+                mentor: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!material) {
+      throw new NotFoundError("Material not found");
+    }
+
+    if (
+      user_role !== USER_ROLES.ADMIN &&
+      material.section.course.mentor.user_id !== user_id
+    ) {
+      throw new ForbiddenError(
+        "You do not have permission to manage this quiz"
+      );
+    }
+
+    if (material.type !== MATERIAL_TYPE.QUIZ) {
+      throw new AppError("Material is not a quiz", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    return material;
+  }
+
+  /**
+   * Get quiz for a material and check manage permission
+   */
+  private async getManageableQuiz(
+    user_id: string,
+    user_role: string,
+    material_id: string
+  ) {
+    await this.getManageableMaterial(user_id, user_role, material_id);
+
+    const quiz = await prisma.quiz.findUnique({
+      where: { material_id },
+    });
+
+    if (!quiz) {
+      throw new NotFoundError("Quiz settings have not been configured");
+    }
+
+    return quiz;
+  }
+
+  /**
+   * Get question and check manage permission
+   */
+  private async getManageableQuestion(
+    user_id: string,
+    user_role: string,
+    question_id: string,
+    material_id?: string
+  ) {
+    const question = await prisma.quizQuestion.findUnique({
+      where: { id: question_id },
+      include: {
+        quiz: {
+          select: { material_id: true },
+        },
+      },
+    });
+
+    if (
+      !question ||
+      (material_id !== undefined && question.quiz.material_id !== material_id)
+    ) {
+      throw new NotFoundError("Question not found");
+    }
+
+    await this.getManageableMaterial(
+      user_id,
+      user_role,
+      question.quiz.material_id
+    );
+
+    return question;
+  }
+
+  /**
+   * Check whether an attempt deadline (plus grace) has passed
+   */
+  private isPastDeadline(expires_at: Date | null) {
+    if (!expires_at) return false;
+    const deadline =
+      new Date(expires_at).getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+    return Date.now() > deadline;
+  }
+
+  /**
+   * Normalize short answer text for comparison
+   */
+  private normalizeText(value: string) {
+    return value.trim().toLowerCase().replace(/\s+/g, " ");
+  }
+
+  /**
+   * Fisher-Yates shuffle (returns new array)
+   */
+  private shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
+
+const quizService = new QuizService();
+export default quizService;
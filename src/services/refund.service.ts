@@ -0,0 +1,422 @@
+import prisma from "@/lib/prisma";
+import { paymentGateway } from "@/lib/payment";
+import { paymentConfig } from "@/config/payment.config";
+import ledgerService from "./ledger.service";
+import certificateService from "./certificate.service";
+import {
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  TRANSACTION_STATUS,
+  REFUND_STATUS,
+  ENROLLMENT_STATUS,
+  CERTIFICATE_STATUS,
+} from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Refund Queue Filters
+ */
+interface RefundQueueFilters {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+/**
+ * Refund Service
+ * Handles refund requests, admin review and gateway refunds
+ */
+export class RefundService {
+  /**
+   * Request refund for a paid transaction
+   */
+  async requestRefund(userId: string, transactionId: string, reason: string) {
+    if (!paymentConfig.refund.enabled) {
+      throw new ForbiddenError("Refunds are currently disabled");
+    }
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    if (transaction.user_id !== userId) {
+      throw new ForbiddenError(
+        "You do not have permission to refund this transaction"
+      );
+    }
+
+    if (transaction.status !== TRANSACTION_STATUS.PAID) {
+      throw new AppError(
+        "Only paid transactions can be refunded",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (transaction.total_amount <= 0) {
+      throw new AppError(
+        "Fully discounted purchases cannot be refunded",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // Check refund window
+    const paidAt = transaction.paid_at || transaction.created_at;
+    const deadline = new Date(
+      new Date(paidAt).getTime() +
+        paymentConfig.refund.maxDays * 24 * 60 * 60 * 1000
+    );
+
+    if (new Date() > deadline) {
+      throw new AppError(
+        `Refunds are only available within ${paymentConfig.refund.maxDays} days of purchase`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const pendingRequest = await prisma.refundRequest.findFirst({
+      where: {
+        transaction_id: transactionId,
+        status: REFUND_STATUS.PENDING,
+      },
+      select: { id: true },
+    });
+
+    if (pendingRequest) {
+      throw new ConflictError("A refund request is already pending");
+    }
+
+    const refundRequest = await prisma.refundRequest.create({
+      data: {
+        transaction_id: transactionId,
+        user_id: userId,
+        amount: transaction.total_amount,
+        reason,
+        status: REFUND_STATUS.PENDING,
+      },
+    });
+
+    logInfo("Refund requested", {
+      refundRequestId: refundRequest.id,
+      transactionId,
+      userId,
+    });
+
+    // Process immediately when admin approval is not required
+    if (!paymentConfig.refund.adminApprovalRequired) {
+      return this.approveRefund(refundRequest.id);
+    }
+
+    return refundRequest;
+  }
+
+  /**
+   * Get user's refund requests
+   */
+  async getUserRefundRequests(userId: string) {
+    return prisma.refundRequest.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "desc" },
+      include: {
+        transaction: {
+          select: {
+            id: true,
+            order_id: true,
+            total_amount: true,
+            course: {
+              select: {
+                id: true,
+                title: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get refund queue for admin review
+   */
+  async getRefundQueue(filters: RefundQueueFilters = {}) {
+    const { page = 1, limit = 20, status = REFUND_STATUS.PENDING } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (status) {
+      where.status = status;
+    }
+
+    const [requests, total] = await Promise.all([
+      prisma.refundRequest.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "asc" },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              full_name: true,
+            },
+          },
+          transaction: {
+            select: {
+              id: true,
+              order_id: true,
+              total_amount: true,
+              payment_method: true,
+              paid_at: true,
+              course: {
+                select: {
+                  id: true,
+                  title: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.refundRequest.count({ where }),
+    ]);
+
+    return {
+      data: requests,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Approve refund request and refund through the payment gateway
+   */
+  async approveRefund(
+    refundRequestId: string,
+    adminId?: string,
+    note?: string
+  ) {
+    const refundRequest = await prisma.refundRequest.findUnique({
+      where: { id: refundRequestId },
+      include: {
+        transaction: {
+          include: {
+            course: {
+              select: {
+                id: true,
+                title: true,
+                mentor_id: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!refundRequest) {
+      throw new NotFoundError("Refund request not found");
+    }
+
+    // Claim the request so it cannot be approved twice
+    const { count } = await prisma.refundRequest.updateMany({
+      where: {
+        id: refundRequestId,
+        status: REFUND_STATUS.PENDING,
+      },
+      data: {
+        status: REFUND_STATUS.APPROVED,
+        admin_note: note,
+        reviewed_by: adminId,
+        reviewed_at: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError("Refund request has already been reviewed");
+    }
+
+    const transaction = refundRequest.transaction;
+
+    if (transaction.status !== TRANSACTION_STATUS.PAID) {
+      await prisma.refundRequest.update({
+        where: { id: refundRequestId },
+        data: { status: REFUND_STATUS.FAILED },
+      });
+      throw new AppError(
+        "Transaction is no longer refundable",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const refunded = await paymentGateway.refundTransaction(
+      transaction.order_id,
+      refundRequest.amount
+    );
+
+    if (!refunded) {
+      await prisma.refundRequest.update({
+        where: { id: refundRequestId },
+        data: { status: REFUND_STATUS.FAILED },
+      });
+      throw new AppError(
+        "Payment gateway refund failed",
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+
+    const now = new Date();
+
+    // The gateway's refund notification may have already flipped the status
+    const { count: transitioned } = await prisma.transaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: TRANSACTION_STATUS.PAID,
+      },
+      data: {
+        status: TRANSACTION_STATUS.REFUNDED,
+        refunded_at: now,
+        refund_reason: refundRequest.reason,
+      },
+    });
+
+    if (transitioned > 0) {
+      await this.applyRefundEffects(transaction);
+    }
+
+    const updated = await prisma.refundRequest.update({
+      where: { id: refundRequestId },
+      data: { processed_at: now },
+    });
+
+    logInfo("Refund approved", {
+      refundRequestId,
+      transactionId: transaction.id,
+      adminId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Reject refund request
+   */
+  async rejectRefund(refundRequestId: string, adminId: string, note?: string) {
+    const { count } = await prisma.refundRequest.updateMany({
+      where: {
+        id: refundRequestId,
+        status: REFUND_STATUS.PENDING,
+      },
+      data: {
+        status: REFUND_STATUS.REJECTED,
+        admin_note: note,
+        reviewed_by: adminId,
+        reviewed_at: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      const exists = await prisma.refundRequest.findUnique({
+        where: { id: refundRequestId },
+        select: { id: true },
+      });
+
+      if (!exists) {
+        throw new NotFoundError("Refund request not found");
+      }
+      throw new ConflictError("Refund request has already been reviewed");
+    }
+
+    return prisma.refundRequest.findUnique({
+      where: { id: refundRequestId },
+    });
+  }
+
+  /**
+   * Apply consequences of a refunded transaction:
+   * cancel enrollment, claw back mentor revenue and revoke certificate.
+   * Called once per PAID -> REFUNDED transition (admin approval or webhook).
+   */
+  async applyRefundEffects(transaction: {
+    id: string;
+    user_id: string;
+    course_id: string;
+    total_amount: number;
+    course: { mentor_id: string };
+  }) {
+    const { user_id: userId, course_id: courseId } = transaction;
+
+    try {
+      const enrollment = await prisma.enrollment.findUnique({
+        where: {
+          user_id_course_id: {
+            user_id: userId,
+            course_id: courseId,
+          },
+        },
+      });
+
+      if (enrollment && enrollment.status !== ENROLLMENT_STATUS.CANCELLED) {
+        await prisma.enrollment.update({
+          where: { id: enrollment.id },
+          data: {
+            status: ENROLLMENT_STATUS.CANCELLED,
+            certificate_id: null,
+          },
+        });
+
+        await prisma.course.update({
+          where: { id: courseId },
+          data: { total_students: { decrement: 1 } },
+        });
+
+        await prisma.mentorProfile.update({
+          where: { id: transaction.course.mentor_id },
+          data: { total_students: { decrement: 1 } },
+        });
+      }
+    } catch (error) {
+      logError("Failed to cancel enrollment after refund", error);
+    }
+
+    try {
+      await ledgerService.recordRefund(transaction);
+    } catch (error) {
+      logError("Failed to claw back mentor revenue", error);
+    }
+
+    try {
+      const certificates = await prisma.certificate.findMany({
+        where: {
+          user_id: userId,
+          course_id: courseId,
+          status: CERTIFICATE_STATUS.ISSUED,
+        },
+        select: { id: true },
+      });
+
+      for (const certificate of certificates) {
+        await certificateService.revokeCertificate(
+          certificate.id,
+          "Course purchase refunded"
+        );
+      }
+    } catch (error) {
+      logError("Failed to revoke certificate after refund", error);
+    }
+  }
+}
+
+const refundService = new RefundService();
+export default refundService;
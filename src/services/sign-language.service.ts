@@ -0,0 +1,250 @@
+import path from "path";
+import fs from "fs/promises";
+import prisma from "@/lib/prisma";
+import { storage } from "@/lib/storage";
+import {
+  addUniqueJob,
+  getPendingJob,
+  getPipelineJobId,
+  VIDEO_JOBS,
+} from "@/lib/queue";
+import { videoStreaming } from "@/lib/streaming";
+import { videoConfig } from "@/config/video.config";
+import videoProcessor from "@/utils/video-processor.util";
+import {
+  ensureDirectoryExists,
+  getFileExtension,
+  formatFileSize,
+} from "@/utils/file.util";
+import type { MulterFile } from "./upload.service";
+import videoRenditionService from "./video-rendition.service";
+import courseAccessService from "./course-access.service";
+import type { VideoQuality } from "@/types/video.types";
+import { NotFoundError, AppError, ConflictError } from "@/utils/error.util";
+import { HTTP_STATUS, VIDEO_STATUS, VIDEO_VARIANT } from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Sign Language Service
+ * Handles sign-language interpreter overlay renditions for deaf learners
+ */
+export class SignLanguageService {
+  /**
+   * Upload interpreter video and composite it over every rendition
+   */
+  async uploadInterpreterVideo(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    file: MulterFile
+  ) {
+    const video = await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage sign-language for this video"
+    );
+
+    if (video.status !== VIDEO_STATUS.COMPLETED) {
+      throw new AppError(
+        "Video must finish processing before adding a sign-language overlay",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (await this.isProcessing(video_id)) {
+      throw new ConflictError(
+        "Sign-language overlay is already being processed"
+      );
+    }
+
+    if (file.size > videoConfig.signLanguage.maxFileSize) {
+      throw new AppError(
+        `Interpreter video too large. Max size: ${formatFileSize(
+          videoConfig.signLanguage.maxFileSize
+        )}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const extension = getFileExtension(file.originalname).replace(".", "");
+    const { allowedFormats } = videoConfig.upload;
+
+    if (!(allowedFormats as readonly string[]).includes(extension)) {
+      throw new AppError(
+        `Unsupported file format. Allowed: ${allowedFormats.join(", ")}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const renditions = await videoRenditionService.getRenditions(
+      video_id,
+      VIDEO_VARIANT.STANDARD
+    );
+
+    if (renditions.length === 0) {
+      throw new AppError(
+        "Video has no processed renditions",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // The upload was streamed to a temp file, move it next to the job
+    const sourcePath = path.join(
+      videoConfig.storage.tempDirectory,
+      `${video_id}-sl-source.${extension}`
+    );
+    const sourceFullPath = path.join(process.cwd(), "uploads", sourcePath);
+    await fs.rename(file.path, sourceFullPath);
+
+    // Re-encoding every rendition takes a while, the video worker runs it
+    try {
+      await addUniqueJob(
+        VIDEO_JOBS.SIGN_LANGUAGE,
+        {
+          videoId: video_id,
+          sourcePath,
+          renditions: renditions.map((rendition) => ({
+            quality: rendition.quality,
+            path: rendition.path,
+          })),
+        },
+        getPipelineJobId(VIDEO_JOBS.SIGN_LANGUAGE, video_id)
+      );
+    } catch (error) {
+      await fs.rm(sourceFullPath, { force: true });
+      throw error;
+    }
+
+    return {
+      video_id,
+      variant: VIDEO_VARIANT.SIGN_LANGUAGE,
+      qualities: renditions.map((rendition) => rendition.quality),
+      status: VIDEO_STATUS.PROCESSING,
+    };
+  }
+
+  /**
+   * Produce one overlay rendition per standard rendition (worker job)
+   */
+  async processOverlay(
+    video_id: string,
+    source_path: string,
+    renditions: Array<{ quality: VideoQuality; path: string }>
+  ) {
+    const sourceFullPath = path.join(process.cwd(), "uploads", source_path);
+    const { position, scale } = videoConfig.signLanguage;
+    let produced = 0;
+
+    try {
+      for (const rendition of renditions) {
+        const resolution = videoConfig.resolutions.find(
+          (r) => r.name === rendition.quality
+        );
+        if (!resolution) continue;
+
+        const outputPath = videoStreaming.getVideoPath(
+          video_id,
+          rendition.quality,
+          VIDEO_VARIANT.SIGN_LANGUAGE
+        );
+        const fullOutputPath = path.join(process.cwd(), "uploads", outputPath);
+
+        try {
+          await ensureDirectoryExists(path.dirname(fullOutputPath));
+
+          await videoProcessor.overlayVideo(
+            path.join(process.cwd(), "uploads", rendition.path),
+            sourceFullPath,
+            fullOutputPath,
+            { position, width: resolution.width * scale }
+          );
+
+          await videoRenditionService.recordRendition(
+            video_id,
+            rendition.quality,
+            VIDEO_VARIANT.SIGN_LANGUAGE,
+            outputPath
+          );
+
+          produced++;
+        } catch (error) {
+          logError(
+            `Failed to produce sign-language overlay ${rendition.quality}`,
+            error
+          );
+          // Continue with other qualities
+        }
+      }
+
+      logInfo("Sign-language overlay processed", {
+        videoId: video_id,
+        qualities: produced,
+      });
+    } finally {
+      await fs.rm(sourceFullPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove sign-language overlay renditions of a video
+   */
+  async removeSignLanguage(
+    user_id: string,
+    user_role: string,
+    video_id: string
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage sign-language for this video"
+    );
+
+    if (await this.isProcessing(video_id)) {
+      throw new ConflictError(
+        "Sign-language overlay is still being processed"
+      );
+    }
+
+    const renditions = await prisma.videoQuality_Model.findMany({
+      where: { video_id, variant: VIDEO_VARIANT.SIGN_LANGUAGE },
+      select: { path: true },
+    });
+
+    if (renditions.length === 0) {
+      throw new NotFoundError("Sign-language overlay not found");
+    }
+
+    await prisma.videoQuality_Model.deleteMany({
+      where: { video_id, variant: VIDEO_VARIANT.SIGN_LANGUAGE },
+    });
+
+    for (const rendition of renditions) {
+      try {
+        await storage.delete(rendition.path);
+      } catch (error) {
+        logError(`Failed to delete file: ${rendition.path}`, error);
+      }
+    }
+
+    return { video_id, deleted: true };
+  }
+
+  /**
+   * Check whether overlay renditions are being produced
+   */
+  async isProcessing(video_id: string): Promise<boolean> {
+    try {
+      return !!(await getPendingJob(
+        getPipelineJobId(VIDEO_JOBS.SIGN_LANGUAGE, video_id)
+      ));
+    } catch (error) {
+      logError("Failed to check sign-language job", error);
+      return false;
+    }
+  }
+}
+
+const signLanguageService = new SignLanguageService();
+export default signLanguageService;
@@ -1,7 +1,49 @@
-import { videoStreaming } from "@/lib/streaming";
-import { AppError } from "@/utils/error.util";
-import { HTTP_STATUS } from "@/lib/constants";
-import type { VideoQuality, VideoStreamInfo } from "@/types/video.types";
+import { randomUUID } from "crypto";
+import type IORedis from "ioredis";
+import prisma from "@/lib/prisma";
+import { videoStreaming, type VideoStreamResponse } from "@/lib/streaming";
+import { signStreamToken, verifyStreamToken } from "@/lib/stream-token";
+import { getReadyRedisConnection } from "@/lib/redis";
+import { videoConfig } from "@/config/video.config";
+import { logError } from "@/utils/logger.util";
+import { compareQualities } from "@/utils/video-quality.util";
+import captionService from "./caption.service";
+import videoRenditionService from "./video-rendition.service";
+import accessibilityService from "./accessibility.service";
+import audioDescriptionService from "./audio-description.service";
+import signLanguageService from "./sign-language.service";
+import courseAccessService from "./course-access.service";
+import {
+  AppError,
+  NotFoundError,
+  UnauthorizedError,
+  RateLimitError,
+} from "@/utils/error.util";
+import { HTTP_STATUS, VIDEO_VARIANT } from "@/lib/constants";
+import type {
+  VideoQuality,
+  VideoStreamInfo,
+  VideoVariant,
+  StreamTokenPayload,
+} from "@/types/video.types";
+
+/**
+ * Stream Token Options
+ */
+interface StreamTokenOptions {
+  format?: "mp4" | "hls"; // HLS when available, otherwise MP4
+  quality?: VideoQuality;
+  variant?: VideoVariant;
+  streamId?: string; // Reuse when refreshing the token of a running playback
+}
+
+/**
+ * Playback a token is issued for; only the latest nonce is accepted
+ */
+interface StreamIssuance {
+  streamId: string;
+  nonce: string;
+}
 
 /**
  * Streaming Service
@@ -9,19 +51,31 @@ import type { VideoQuality, VideoStreamInfo } from "@/types/video.types";
  */
 export class StreamingService {
   /**
-   * Stream video with quality selection
+   * Stream video with quality and variant selection
+   * Only renditions in the catalogue are served
    */
   async streamVideo(
     videoId: string,
     quality?: VideoQuality,
-    range?: string
-  ): Promise<VideoStreamInfo> {
-    // Get video path
-    const videoPath = videoStreaming.getVideoPath(videoId, quality);
+    range?: string,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ): Promise<VideoStreamResponse> {
+    const rendition = await videoRenditionService.getRendition(
+      videoId,
+      quality ?? (await this.getOptimalQuality(videoId, undefined, variant)),
+      variant
+    );
+
+    if (!rendition) {
+      throw new AppError(
+        "Video not found or cannot be streamed",
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
 
     // Get stream
     try {
-      return await videoStreaming.getVideoStream(videoPath, range);
+      return await videoStreaming.getVideoStream(rendition.path, range);
     } catch {
       throw new AppError(
         "Video not found or cannot be streamed",
@@ -31,20 +85,408 @@ export class StreamingService {
   }
 
   /**
-   * Get available qualities for video
+   * Get HLS master playlist, rendition playlist or segment
+   * Playlist URIs carry the stream token so segments stay authorized
+   */
+  async getHlsFile(
+    videoId: string,
+    file: string,
+    token?: string
+  ): Promise<VideoStreamResponse> {
+    if (!videoStreaming.isHlsFile(file)) {
+      throw new NotFoundError("HLS file not found");
+    }
+
+    try {
+      return await videoStreaming.getHlsStream(
+        videoId,
+        file,
+        token ? `token=${encodeURIComponent(token)}` : undefined
+      );
+    } catch {
+      throw new NotFoundError("HLS file not found");
+    }
+  }
+
+  /**
+   * Get signed playback sources: HLS when packaged, MP4 renditions as
+   * fallback. Alternate variants are only packaged as MP4.
+   * Callers must have checked access to the video.
+   */
+  async getPlaybackSources(
+    videoId: string,
+    userId: string,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ) {
+    const [hls, qualities] = await Promise.all([
+      variant === VIDEO_VARIANT.STANDARD
+        ? videoStreaming.hasHls(videoId)
+        : false,
+      this.getAvailableQualities(videoId, variant),
+    ]);
+
+    // One playback, whichever source the player picks
+    const issuance = await this.issueStream(userId);
+
+    return {
+      variant,
+      stream_id: issuance.streamId,
+      hls: hls
+        ? this.createSignedSource(videoId, userId, "hls", variant, issuance)
+        : null,
+      mp4: qualities.map((quality) => ({
+        quality,
+        ...this.createSignedSource(
+          videoId,
+          userId,
+          quality,
+          variant,
+          issuance
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Issue a signed stream URL to a user who may watch the video
+   * (enrolled learner, free material, course mentor or admin)
+   */
+  async issueStreamToken(
+    videoId: string,
+    userId: string,
+    userRole: string,
+    options: StreamTokenOptions
+  ) {
+    await courseAccessService.getAccessibleVideo(videoId, userId, userRole);
+
+    const variant = await this.resolveVariant(
+      videoId,
+      userId,
+      options.variant
+    );
+    const hls =
+      options.format !== "mp4" &&
+      variant === VIDEO_VARIANT.STANDARD &&
+      (await videoStreaming.hasHls(videoId));
+
+    if (options.format === "hls" && !hls) {
+      throw new NotFoundError("HLS is not available for this video");
+    }
+
+    if (hls) {
+      const issuance = await this.issueStream(userId, options.streamId);
+
+      return {
+        stream_id: issuance.streamId,
+        ...this.createSignedSource(videoId, userId, "hls", variant, issuance),
+      };
+    }
+
+    const quality =
+      options.quality ??
+      (await this.getOptimalQuality(videoId, undefined, variant));
+
+    const available = await this.getAvailableQualities(videoId, variant);
+    if (!available.includes(quality)) {
+      throw new NotFoundError(`Quality ${quality} is not available`);
+    }
+
+    const issuance = await this.issueStream(userId, options.streamId);
+
+    return {
+      stream_id: issuance.streamId,
+      quality,
+      ...this.createSignedSource(videoId, userId, quality, variant, issuance),
+    };
+  }
+
+  /**
+   * Validate a stream token for a request (every range / segment request)
+   * and count the playback against the user's concurrent stream limit
+   */
+  async verifyStreamAccess(
+    videoId: string,
+    token: string | null,
+    format: "mp4" | "hls"
+  ): Promise<StreamTokenPayload> {
+    const payload = token ? verifyStreamToken(token) : null;
+
+    if (
+      !payload ||
+      payload.videoId !== videoId ||
+      (format === "hls") !== (payload.quality === "hls")
+    ) {
+      throw new UnauthorizedError("Invalid or expired stream token");
+    }
+
+    await this.assertLatestIssuance(payload);
+    await this.trackActiveStream(payload.userId, payload.streamId);
+
+    return payload;
+  }
+
+  /**
+   * Sign a source URL bound to user, video, quality and variant
+   */
+  private createSignedSource(
+    videoId: string,
+    userId: string,
+    quality: VideoQuality | "hls",
+    variant: VideoVariant,
+    issuance: StreamIssuance
+  ) {
+    const expiresAt =
+      Math.floor(Date.now() / 1000) + videoConfig.streaming.token.expiresIn;
+    const token = encodeURIComponent(
+      signStreamToken({
+        userId,
+        videoId,
+        quality,
+        variant,
+        streamId: issuance.streamId,
+        nonce: issuance.nonce,
+        expiresAt,
+      })
+    );
+
+    return quality === "hls"
+      ? {
+          url: `/api/videos/${videoId}/hls/master.m3u8?token=${token}`,
+          mime_type: "application/vnd.apple.mpegurl",
+          expires_at: new Date(expiresAt * 1000),
+        }
+      : {
+          url: `/api/videos/${videoId}/stream?token=${token}`,
+          mime_type: "video/mp4",
+          expires_at: new Date(expiresAt * 1000),
+        };
+  }
+
+  /**
+   * Start a token issuance. A client stream id is only reused while it
+   * is an active lease of the user, its new nonce replaces older tokens.
+   */
+  private async issueStream(
+    userId: string,
+    requestedId?: string
+  ): Promise<StreamIssuance> {
+    const issuance: StreamIssuance = {
+      streamId: randomUUID(),
+      nonce: randomUUID(),
+    };
+
+    const { expiresIn, leaseDuration } = videoConfig.streaming.token;
+
+    return this.withLeaseStore(
+      "Stream issuance",
+      async (redis) => {
+        if (requestedId) {
+          const leasedAt = await redis.zscore(
+            `streams:active:${userId}`,
+            requestedId
+          );
+
+          if (
+            leasedAt !== null &&
+            Number(leasedAt) > Date.now() - leaseDuration * 1000
+          ) {
+            issuance.streamId = requestedId;
+          }
+        }
+
+        await redis.set(
+          `streams:nonce:${issuance.streamId}`,
+          issuance.nonce,
+          "EX",
+          expiresIn
+        );
+
+        return issuance;
+      },
+      issuance
+    );
+  }
+
+  /**
+   * Reject tokens replaced by a later issuance for the same playback
    */
-  async getAvailableQualities(videoId: string): Promise<VideoQuality[]> {
-    return videoStreaming.getAvailableQualities(videoId);
+  private async assertLatestIssuance(payload: StreamTokenPayload) {
+    const latest = await this.withLeaseStore(
+      "Stream issuance check",
+      (redis) => redis.get(`streams:nonce:${payload.streamId}`),
+      null
+    );
+
+    if (latest !== null && latest !== payload.nonce) {
+      throw new UnauthorizedError("Stream token was replaced");
+    }
   }
 
   /**
-   * Get optimal quality based on connection speed
+   * Register a playback as active; reject a new one once the user has
+   * maxConcurrentStreams playbacks active
+   */
+  private async trackActiveStream(userId: string, streamId: string) {
+    const { maxConcurrentStreams, leaseDuration } =
+      videoConfig.streaming.token;
+
+    if (maxConcurrentStreams <= 0) return;
+
+    const key = `streams:active:${userId}`;
+
+    await this.withLeaseStore(
+      "Concurrent stream check",
+      async (redis) => {
+        const now = Date.now();
+
+        await redis.zremrangebyscore(key, 0, now - leaseDuration * 1000);
+        const [active, known] = await Promise.all([
+          redis.zcard(key),
+          redis.zscore(key, streamId),
+        ]);
+
+        if (known === null && active >= maxConcurrentStreams) {
+          throw new RateLimitError(
+            `Too many concurrent streams (max ${maxConcurrentStreams})`
+          );
+        }
+
+        await redis.zadd(key, now, streamId);
+        await redis.expire(key, leaseDuration);
+      },
+      undefined
+    );
+  }
+
+  /**
+   * Run a lease operation on Redis. While Redis is unavailable streams are
+   * refused, unless token.failOpen serves them with the fallback instead.
+   */
+  private async withLeaseStore<T>(
+    action: string,
+    run: (redis: IORedis) => Promise<T>,
+    fallback: T
+  ): Promise<T> {
+    const { redisTimeout, failOpen } = videoConfig.streaming.token;
+
+    try {
+      return await run(await getReadyRedisConnection(redisTimeout));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      logError(`${action} failed`, error);
+
+      if (failOpen) return fallback;
+
+      throw new AppError(
+        "Streaming is temporarily unavailable, please try again",
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+  }
+
+  /**
+   * Get available qualities for video (from the rendition catalogue)
+   */
+  async getAvailableQualities(
+    videoId: string,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ): Promise<VideoQuality[]> {
+    return videoRenditionService.getAvailableQualities(videoId, variant);
+  }
+
+  /**
+   * Resolve variant to play. An explicit request wins, otherwise the
+   * audio-described variant is used when the user prefers it.
+   */
+  async resolveVariant(
+    videoId: string,
+    userId?: string,
+    requested?: VideoVariant
+  ): Promise<VideoVariant> {
+    if (requested) return requested;
+
+    if (!userId) return VIDEO_VARIANT.STANDARD;
+
+    const preferences = await accessibilityService.getPreferences(userId);
+
+    if (
+      preferences.audio_description &&
+      (await audioDescriptionService.hasAudioDescription(videoId))
+    ) {
+      return VIDEO_VARIANT.AUDIO_DESCRIPTION;
+    }
+
+    return VIDEO_VARIANT.STANDARD;
+  }
+
+  /**
+   * Get selectable variants with their qualities for the player
+   */
+  async getVideoVariants(
+    videoId: string,
+    userId?: string,
+    requested?: VideoVariant
+  ) {
+    const [standard, audioDescribed, signLanguage, defaultVariant] =
+      await Promise.all([
+        this.getAvailableQualities(videoId, VIDEO_VARIANT.STANDARD),
+        this.getAvailableQualities(videoId, VIDEO_VARIANT.AUDIO_DESCRIPTION),
+        this.getAvailableQualities(videoId, VIDEO_VARIANT.SIGN_LANGUAGE),
+        this.resolveVariant(videoId, userId, requested),
+      ]);
+
+    const variants: Array<{
+      variant: VideoVariant;
+      label: string;
+      qualities: VideoQuality[];
+    }> = [
+      {
+        variant: VIDEO_VARIANT.STANDARD,
+        label: "Standard",
+        qualities: standard,
+      },
+    ];
+
+    if (audioDescribed.length > 0) {
+      variants.push({
+        variant: VIDEO_VARIANT.AUDIO_DESCRIPTION,
+        label: "Audio description",
+        qualities: audioDescribed,
+      });
+    }
+
+    // Served on request only, captions remain the default for deaf users
+    if (signLanguage.length > 0) {
+      variants.push({
+        variant: VIDEO_VARIANT.SIGN_LANGUAGE,
+        label: "Sign-language interpreter",
+        qualities: signLanguage,
+      });
+    }
+
+    return {
+      variants,
+      default_variant: variants.some((v) => v.variant === defaultVariant)
+        ? defaultVariant
+        : VIDEO_VARIANT.STANDARD,
+      audio_description_processing:
+        await audioDescriptionService.isProcessing(videoId),
+      sign_language_processing:
+        await signLanguageService.isProcessing(videoId),
+    };
+  }
+
+  /**
+   * Get optimal quality of a variant based on connection speed
+   * Picks the best existing rendition not above the target quality
    */
   async getOptimalQuality(
     videoId: string,
-    connectionSpeed?: number
+    connectionSpeed?: number,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
   ): Promise<VideoQuality> {
-    const available = await this.getAvailableQualities(videoId);
+    const available = await this.getAvailableQualities(videoId, variant);
 
     if (available.length === 0) {
       throw new AppError("No qualities available", HTTP_STATUS.NOT_FOUND);
@@ -57,10 +499,86 @@ export class StreamingService {
 
     // Map connection speed to quality
     // connectionSpeed in Mbps
-    if (connectionSpeed >= 5) return "1080p";
-    if (connectionSpeed >= 2.5) return "720p";
-    if (connectionSpeed >= 1) return "480p";
-    return "360p";
+    let target: VideoQuality = "360p";
+    if (connectionSpeed >= 5) target = "1080p";
+    else if (connectionSpeed >= 2.5) target = "720p";
+    else if (connectionSpeed >= 1) target = "480p";
+
+    const fitting = available.filter(
+      (quality) => compareQualities(quality, target) <= 0
+    );
+
+    // Slow connection but no small rendition: lowest one available
+    return fitting.length > 0 ? fitting[fitting.length - 1] : available[0];
+  }
+
+  /**
+   * Get caption tracks for the player (<track> elements)
+   * Default track follows the user's preferred caption language.
+   */
+  async getCaptionTracks(videoId: string, userId?: string) {
+    const captions = await captionService.getCaptions(videoId);
+
+    let defaultLanguage = captions.find((c: any) => c.is_default)?.language;
+
+    if (userId) {
+      const preferences = await accessibilityService.getPreferences(userId);
+      const preferred = captions.find(
+        (c: any) => c.language === preferences.caption_language
+      );
+
+      if (!preferences.captions_enabled) {
+        defaultLanguage = undefined;
+      } else if (preferred) {
+        defaultLanguage = preferred.language;
+      }
+    }
+
+    return captions.map((caption: any) => ({
+      kind: "captions",
+      srclang: caption.language,
+      label: caption.label,
+      default: caption.language === defaultLanguage,
+      src: `/api/videos/${videoId}/captions/${caption.language}`,
+    }));
+  }
+
+  /**
+   * Get player settings from the user's accessibility preferences
+   */
+  async getPlayerPreferences(userId: string) {
+    const preferences = await accessibilityService.getPreferences(userId);
+
+    return {
+      autoplay: preferences.autoplay && !preferences.reduced_motion,
+      captions_enabled: preferences.captions_enabled,
+      caption_language: preferences.caption_language,
+      font_scale: preferences.font_scale,
+      audio_description: preferences.audio_description,
+    };
+  }
+
+  /**
+   * Get WebVTT caption track content
+   */
+  async getCaptionTrack(videoId: string, language: string) {
+    const caption = await captionService.getCaptionContent(videoId, language);
+
+    return {
+      content: caption.content,
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Content-Language": caption.language,
+        "Cache-Control": "public, max-age=300",
+      },
+    };
+  }
+
+  /**
+   * Get HLS response headers
+   */
+  getHlsResponse(info: VideoStreamInfo): Record<string, string> {
+    return videoStreaming.getHlsHeaders(info);
   }
 
   /**
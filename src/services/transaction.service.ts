@@ -0,0 +1,650 @@
+import prisma from "@/lib/prisma";
+import {
+  paymentGateway,
+  mapTransactionStatus,
+  parsePaymentNotification,
+  validatePaymentNotification,
+} from "@/lib/payment";
+import { paymentConfig } from "@/config/payment.config";
+import courseService from "./course.service";
+import couponService from "./coupon.service";
+import ledgerService from "./ledger.service";
+import notificationService from "./notification.service";
+import refundService from "./refund.service";
+import { generateOrderId } from "@/utils/crypto.util";
+import {
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  COURSE_STATUS,
+  USER_ROLES,
+  TRANSACTION_STATUS,
+  ENROLLMENT_STATUS,
+  REFUND_STATUS,
+} from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Checkout Data
+ */
+interface CheckoutData {
+  courseId: string;
+  paymentMethod: string;
+  couponCode?: string;
+}
+
+/**
+ * Transaction List Filters
+ */
+interface TransactionListFilters {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+/**
+ * Allowed status transitions for gateway notifications.
+ * Anything else (duplicates, late or out-of-order events) is ignored.
+ */
+const ALLOWED_TRANSITIONS: Record<string, string[]> = {
+  [TRANSACTION_STATUS.PENDING]: [
+    TRANSACTION_STATUS.PAID,
+    TRANSACTION_STATUS.FAILED,
+    TRANSACTION_STATUS.CANCELLED,
+  ],
+  [TRANSACTION_STATUS.PAID]: [TRANSACTION_STATUS.REFUNDED],
+};
+
+/**
+ * Transaction Service
+ * Handles course checkout and transaction records
+ */
+export class TransactionService {
+  /**
+   * Create checkout for a paid course and return the Snap token
+   */
+  async checkout(userId: string, data: CheckoutData) {
+    const course = await prisma.course.findUnique({
+      where: { id: data.courseId },
+      select: {
+        id: true,
+        title: true,
+        mentor_id: true,
+        price: true,
+        discount_price: true,
+        is_free: true,
+        status: true,
+      },
+    });
+
+    if (!course) {
+      throw new NotFoundError("Course not found");
+    }
+
+    if (course.status !== COURSE_STATUS.PUBLISHED) {
+      throw new ForbiddenError("Course is not available for purchase");
+    }
+
+    const price = courseService.getEffectivePrice(course);
+
+    if (price <= 0) {
+      throw new AppError(
+        "This course is free, enroll directly instead",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    let totalAmount = price;
+    let coupon: {
+      id: string;
+      usage_limit: number | null;
+      per_user_limit: number;
+    } | null = null;
+    let couponDiscount = 0;
+
+    if (data.couponCode) {
+      const applied = await couponService.validateCoupon(
+        data.couponCode,
+        userId,
+        course,
+        price
+      );
+      coupon = applied.coupon;
+      couponDiscount = applied.discount;
+      totalAmount = applied.total;
+    }
+
+    // Fully discounted checkouts skip the gateway
+    if (
+      totalAmount > 0 &&
+      (totalAmount < paymentConfig.settings.minAmount ||
+        totalAmount > paymentConfig.settings.maxAmount)
+    ) {
+      throw new AppError(
+        "Course price is outside the allowed payment range",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // Check existing enrollment
+    const enrollment = await prisma.enrollment.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id: userId,
+          course_id: course.id,
+        },
+      },
+      select: { status: true },
+    });
+
+    if (
+      enrollment &&
+      (enrollment.status === ENROLLMENT_STATUS.ACTIVE ||
+        enrollment.status === ENROLLMENT_STATUS.COMPLETED)
+    ) {
+      throw new ConflictError("You are already enrolled in this course");
+    }
+
+    const paidTransaction = await prisma.transaction.findFirst({
+      where: {
+        user_id: userId,
+        course_id: course.id,
+        status: TRANSACTION_STATUS.PAID,
+      },
+      select: { id: true },
+    });
+
+    if (paidTransaction) {
+      throw new ConflictError("You have already purchased this course");
+    }
+
+    // Reuse pending transaction that has not expired yet
+    const pendingTransaction = await prisma.transaction.findFirst({
+      where: {
+        user_id: userId,
+        course_id: course.id,
+        status: TRANSACTION_STATUS.PENDING,
+        total_amount: totalAmount,
+        payment_method: data.paymentMethod,
+        expired_at: { gt: new Date() },
+        coupon_redemption: coupon
+          ? { is: { coupon_id: coupon.id } }
+          : { is: null },
+      },
+      orderBy: { created_at: "desc" },
+    });
+
+    if (pendingTransaction?.payment_url) {
+      return this.formatCheckoutResult(pendingTransaction);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { full_name: true, email: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const orderId = generateOrderId();
+    const isFullyDiscounted = totalAmount <= 0;
+
+    const createTransaction = (client: any) =>
+      client.transaction.create({
+        data: {
+          user_id: userId,
+          course_id: course.id,
+          order_id: orderId,
+          amount: course.price,
+          discount: Math.max(course.price - totalAmount, 0),
+          total_amount: totalAmount,
+          payment_method: data.paymentMethod,
+          ...(isFullyDiscounted
+            ? { status: TRANSACTION_STATUS.PAID, paid_at: new Date() }
+            : {
+                status: TRANSACTION_STATUS.PENDING,
+                expired_at: new Date(
+                  Date.now() + paymentConfig.settings.expiryDuration
+                ),
+              }),
+          ...(coupon && {
+            coupon_redemption: {
+              create: {
+                coupon_id: coupon.id,
+                user_id: userId,
+                discount_amount: couponDiscount,
+              },
+            },
+          }),
+        },
+      });
+
+    // Earlier pending checkouts of the course are cancelled under a lock
+    // on the user, so only one payment link stays payable. Coupon caps
+    // are re-checked under a row lock on the coupon, so concurrent
+    // checkouts cannot redeem past the limits.
+    const lockedCoupon = coupon;
+    const { transaction, superseded } = await prisma.$transaction(
+      async (tx: any) => {
+        await tx.$queryRaw`
+          SELECT id FROM users WHERE id = ${userId} FOR UPDATE
+        `;
+
+        const pending = await tx.transaction.findMany({
+          where: {
+            user_id: userId,
+            course_id: course.id,
+            status: TRANSACTION_STATUS.PENDING,
+          },
+          select: { id: true, order_id: true, payment_url: true },
+        });
+
+        if (pending.length > 0) {
+          await tx.transaction.updateMany({
+            where: {
+              id: { in: pending.map((item: any) => item.id) },
+              status: TRANSACTION_STATUS.PENDING,
+            },
+            data: { status: TRANSACTION_STATUS.CANCELLED },
+          });
+        }
+
+        if (lockedCoupon) {
+          await tx.$queryRaw`
+            SELECT id FROM coupons WHERE id = ${lockedCoupon.id} FOR UPDATE
+          `;
+          // Earlier pending checkouts are cancelled by now, count the rest
+          await couponService.assertUsageAvailable(
+            lockedCoupon,
+            userId,
+            null,
+            tx
+          );
+        }
+
+        return {
+          transaction: await createTransaction(tx),
+          superseded: pending,
+        };
+      }
+    );
+
+    // Close the gateway side too, so the old payment link stops working
+    for (const item of superseded) {
+      if (!item.payment_url) continue;
+
+      const cancelled = await paymentGateway.cancelTransaction(item.order_id);
+      if (!cancelled) {
+        logError("Failed to cancel superseded payment", {
+          orderId: item.order_id,
+        });
+      }
+    }
+
+    if (isFullyDiscounted) {
+      logInfo("Checkout completed with full discount", {
+        transactionId: transaction.id,
+        orderId,
+        userId,
+        courseId: course.id,
+      });
+
+      await this.runTransitionEffects(
+        { ...transaction, course },
+        TRANSACTION_STATUS.PAID
+      );
+
+      return this.formatCheckoutResult(transaction);
+    }
+
+    let payment;
+    try {
+      payment = await paymentGateway.createTransaction({
+        orderId,
+        amount: totalAmount,
+        customerName: user.full_name,
+        customerEmail: user.email,
+        courseName: course.title,
+        userId,
+        courseId: course.id,
+      });
+    } catch (error) {
+      logError("Failed to create payment", error);
+
+      await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: TRANSACTION_STATUS.FAILED,
+          metadata: {
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        },
+      });
+
+      throw new AppError(
+        "Failed to create payment, please try again",
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+
+    const updated = await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        payment_url: payment.redirectUrl,
+        expired_at: payment.expiresAt,
+        metadata: {
+          snap_token: payment.token,
+        },
+      },
+    });
+
+    logInfo("Checkout created", {
+      transactionId: updated.id,
+      orderId,
+      userId,
+      courseId: course.id,
+    });
+
+    return this.formatCheckoutResult(updated);
+  }
+
+  /**
+   * Get user transactions
+   */
+  async getUserTransactions(
+    userId: string,
+    filters: TransactionListFilters = {}
+  ) {
+    const { page = 1, limit = 10, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      user_id: userId,
+      ...(status && { status }),
+    };
+
+    const [transactions, total] = await Promise.all([
+      prisma.transaction.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+        include: {
+          course: {
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              thumbnail: true,
+            },
+          },
+        },
+      }),
+      prisma.transaction.count({ where }),
+    ]);
+
+    return {
+      data: transactions,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get transaction by ID
+   */
+  async getTransactionById(
+    transactionId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      include: {
+        course: {
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            thumbnail: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    if (userRole !== USER_ROLES.ADMIN && transaction.user_id !== userId) {
+      throw new ForbiddenError(
+        "You do not have permission to view this transaction"
+      );
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Handle Midtrans payment notification (webhook)
+   */
+  async handlePaymentNotification(body: unknown) {
+    const notification = parsePaymentNotification(body);
+
+    if (!validatePaymentNotification(notification)) {
+      throw new ValidationError("Invalid payment notification payload");
+    }
+
+    const isValid = await paymentGateway.verifyNotification(notification);
+    if (!isValid) {
+      throw new ForbiddenError("Invalid notification signature");
+    }
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { order_id: notification.orderId },
+      include: {
+        course: {
+          select: {
+            id: true,
+            title: true,
+            mentor_id: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    if (Number(notification.grossAmount) !== transaction.total_amount) {
+      logError("Payment amount mismatch", {
+        orderId: transaction.order_id,
+        expected: transaction.total_amount,
+        received: notification.grossAmount,
+      });
+      throw new ValidationError("Payment amount does not match transaction");
+    }
+
+    const nextStatus = mapTransactionStatus(
+      notification.transactionStatus,
+      notification.fraudStatus
+    );
+    const previousStatus = transaction.status;
+    const allowed = ALLOWED_TRANSITIONS[previousStatus] || [];
+
+    if (!allowed.includes(nextStatus)) {
+      // Paid after the checkout was superseded, needs a manual refund
+      if (
+        previousStatus === TRANSACTION_STATUS.CANCELLED &&
+        nextStatus === TRANSACTION_STATUS.PAID
+      ) {
+        logError("Payment received for cancelled transaction", {
+          orderId: transaction.order_id,
+          amount: transaction.total_amount,
+        });
+      }
+
+      logInfo("Payment notification ignored", {
+        orderId: transaction.order_id,
+        currentStatus: previousStatus,
+        notificationStatus: notification.transactionStatus,
+      });
+
+      return {
+        order_id: transaction.order_id,
+        status: previousStatus,
+        changed: false,
+      };
+    }
+
+    const now = new Date();
+    const metadata = {
+      ...((transaction.metadata as Record<string, unknown>) || {}),
+      payment_type: notification.paymentType,
+      gateway_status: notification.transactionStatus,
+      fraud_status: notification.fraudStatus,
+      transaction_time: notification.transactionTime,
+    };
+
+    // Conditional update keeps the transition atomic under concurrent webhooks
+    const { count } = await prisma.transaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: previousStatus,
+      },
+      data: {
+        status: nextStatus,
+        metadata,
+        ...(nextStatus === TRANSACTION_STATUS.PAID && { paid_at: now }),
+        ...(nextStatus === TRANSACTION_STATUS.REFUNDED && {
+          refunded_at: now,
+        }),
+      },
+    });
+
+    if (count === 0) {
+      return {
+        order_id: transaction.order_id,
+        status: previousStatus,
+        changed: false,
+      };
+    }
+
+    logInfo("Transaction status updated", {
+      orderId: transaction.order_id,
+      from: previousStatus,
+      to: nextStatus,
+    });
+
+    await this.runTransitionEffects(transaction, nextStatus);
+
+    return {
+      order_id: transaction.order_id,
+      status: nextStatus,
+      previous_status: previousStatus,
+      changed: true,
+    };
+  }
+
+  /**
+   * Side effects after a successful status transition.
+   * Errors are logged so the gateway is not told to retry an applied change.
+   */
+  private async runTransitionEffects(transaction: any, status: string) {
+    const { user_id: userId, course } = transaction;
+
+    if (status === TRANSACTION_STATUS.PAID) {
+      try {
+        await courseService.enrollCourse(course.id, userId, true);
+      } catch (error) {
+        if (!(error instanceof ConflictError)) {
+          logError("Failed to enroll after payment", error);
+        }
+      }
+
+      try {
+        await ledgerService.recordSale(transaction);
+      } catch (error) {
+        logError("Failed to credit mentor revenue", error);
+      }
+
+      try {
+        await notificationService.notifyPaymentSuccess(
+          userId,
+          course.title,
+          transaction.total_amount
+        );
+      } catch (error) {
+        logError("Failed to send payment success notification", error);
+      }
+      return;
+    }
+
+    if (status === TRANSACTION_STATUS.REFUNDED) {
+      // Refund issued directly from the gateway dashboard
+      await prisma.refundRequest.updateMany({
+        where: {
+          transaction_id: transaction.id,
+          status: REFUND_STATUS.PENDING,
+        },
+        data: {
+          status: REFUND_STATUS.APPROVED,
+          processed_at: new Date(),
+        },
+      });
+
+      await refundService.applyRefundEffects(transaction);
+      return;
+    }
+
+    if (
+      status === TRANSACTION_STATUS.FAILED ||
+      status === TRANSACTION_STATUS.CANCELLED
+    ) {
+      try {
+        await notificationService.notifyPaymentFailed(
+          userId,
+          course.title,
+          status === TRANSACTION_STATUS.CANCELLED
+            ? "payment expired or was cancelled"
+            : "payment was declined"
+        );
+      } catch (error) {
+        logError("Failed to send payment failed notification", error);
+      }
+    }
+  }
+
+  /**
+   * Shape checkout response for the client
+   */
+  private formatCheckoutResult(transaction: any) {
+    const metadata = (transaction.metadata as Record<string, unknown>) || {};
+
+    return {
+      transaction_id: transaction.id,
+      order_id: transaction.order_id,
+      status: transaction.status,
+      amount: transaction.amount,
+      discount: transaction.discount,
+      total_amount: transaction.total_amount,
+      snap_token: metadata.snap_token ?? null,
+      payment_url: transaction.payment_url,
+      expired_at: transaction.expired_at,
+    };
+  }
+}
+
+const transactionService = new TransactionService();
+export default transactionService;
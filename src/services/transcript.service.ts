@@ -0,0 +1,498 @@
+import path from "path";
+import fs from "fs/promises";
+import prisma from "@/lib/prisma";
+import {
+  addUniqueJob,
+  getPendingJob,
+  getPipelineJobId,
+  VIDEO_JOBS,
+} from "@/lib/queue";
+import { videoConfig } from "@/config/video.config";
+import {
+  transcriptionEngine,
+  getTranscriptionAudioPath,
+} from "@/lib/transcription";
+import videoProcessor from "@/utils/video-processor.util";
+import { detectCaptionFormat, validateCaption } from "@/utils/caption.util";
+import { ensureDirectoryExists } from "@/utils/file.util";
+import type { MulterFile } from "./upload.service";
+import courseAccessService from "./course-access.service";
+import accessibilityAuditService from "./accessibility-audit.service";
+import type { CaptionCue } from "@/types/video.types";
+import {
+  NotFoundError,
+  AppError,
+  ConflictError,
+  ValidationError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  USER_ROLES,
+  TRANSCRIPT_STATUS,
+  TRANSCRIPT_SOURCE,
+  VIDEO_STATUS,
+} from "@/lib/constants";
+import { logInfo, logError } from "@/utils/logger.util";
+
+/**
+ * Transcript Search Filters
+ */
+interface TranscriptSearchFilters {
+  page?: number;
+  limit?: number;
+}
+
+const segmentSelect = {
+  id: true,
+  position: true,
+  start_ms: true,
+  end_ms: true,
+  text: true,
+};
+
+/**
+ * Transcript Service
+ * Handles transcript generation, import, editing and search
+ */
+export class TranscriptService {
+  /**
+   * Start automatic transcription of a video
+   */
+  async generateTranscript(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    language: string = videoConfig.transcription.defaultLanguage
+  ) {
+    const video = await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage transcripts for this video"
+    );
+
+    if (!videoConfig.transcription.enabled) {
+      throw new AppError(
+        "Automatic transcription is disabled",
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+
+    if (video.status !== VIDEO_STATUS.COMPLETED) {
+      throw new AppError(
+        "Video must finish processing before transcription",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const existing = await prisma.videoTranscript.findUnique({
+      where: { video_id_language: { video_id, language } },
+      select: { id: true, status: true },
+    });
+
+    // A PROCESSING row without a pending job was lost and may be retried
+    if (
+      existing?.status === TRANSCRIPT_STATUS.PROCESSING &&
+      (await getPendingJob(
+        getPipelineJobId(VIDEO_JOBS.TRANSCRIBE, existing.id)
+      ))
+    ) {
+      throw new ConflictError("Transcription is already in progress");
+    }
+
+    const transcript = await prisma.videoTranscript.upsert({
+      where: { video_id_language: { video_id, language } },
+      create: {
+        video_id,
+        language,
+        status: TRANSCRIPT_STATUS.PROCESSING,
+        source: TRANSCRIPT_SOURCE.GENERATED,
+        engine: transcriptionEngine.name,
+      },
+      update: {
+        status: TRANSCRIPT_STATUS.PROCESSING,
+        source: TRANSCRIPT_SOURCE.GENERATED,
+        engine: transcriptionEngine.name,
+        error_message: null,
+      },
+    });
+
+    // Transcription can take minutes, the video worker runs it
+    try {
+      await addUniqueJob(
+        VIDEO_JOBS.TRANSCRIBE,
+        {
+          transcriptId: transcript.id,
+          videoId: video_id,
+          videoPath: video.path,
+          language,
+        },
+        getPipelineJobId(VIDEO_JOBS.TRANSCRIBE, transcript.id)
+      );
+    } catch (error) {
+      logError("Failed to queue transcription", error);
+
+      await prisma.videoTranscript.update({
+        where: { id: transcript.id },
+        data: {
+          status: TRANSCRIPT_STATUS.FAILED,
+          error_message: "Transcription could not be queued",
+        },
+      });
+
+      throw new AppError(
+        "Failed to start transcription, please try again",
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Extract audio, run the engine and store segments (video worker job)
+   */
+  async runTranscription(
+    transcript_id: string,
+    video_path: string,
+    video_id: string,
+    language: string
+  ) {
+    const inputPath = path.join(process.cwd(), "uploads", video_path);
+    const audioPath = getTranscriptionAudioPath(video_id);
+
+    try {
+      await ensureDirectoryExists(path.dirname(audioPath));
+      await videoProcessor.extractAudio(inputPath, audioPath, {
+        sampleRate: videoConfig.transcription.sampleRate,
+        channels: 1,
+      });
+
+      const result = await transcriptionEngine.transcribe(audioPath, {
+        language,
+      });
+
+      await this.replaceSegments(transcript_id, result.segments);
+
+      await prisma.videoTranscript.update({
+        where: { id: transcript_id },
+        data: { status: TRANSCRIPT_STATUS.COMPLETED },
+      });
+
+      logInfo("Transcript generated", {
+        transcriptId: transcript_id,
+        videoId: video_id,
+        segments: result.segments.length,
+      });
+
+      accessibilityAuditService.refreshAudit({ video_id });
+    } catch (error) {
+      logError(`Transcription failed for video ${video_id}`, error);
+
+      await prisma.videoTranscript.update({
+        where: { id: transcript_id },
+        data: {
+          status: TRANSCRIPT_STATUS.FAILED,
+          error_message:
+            error instanceof Error ? error.message : "Transcription failed",
+        },
+      });
+    } finally {
+      await fs.rm(audioPath, { force: true });
+    }
+  }
+
+  /**
+   * Import transcript from an SRT/WebVTT file
+   */
+  async importTranscript(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    language: string,
+    file: MulterFile
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage transcripts for this video"
+    );
+
+    if (file.size > videoConfig.captions.maxFileSize) {
+      throw new AppError("Transcript file too large", HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const content = file.buffer.toString("utf-8");
+    const format = detectCaptionFormat(file.originalname, content);
+
+    if (!format) {
+      throw new AppError(
+        "Transcript file must be SRT or WebVTT",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const result = validateCaption(content, format);
+    if (!result.valid) {
+      throw new ValidationError(
+        `Invalid transcript file: ${result.errors.slice(0, 5).join("; ")}`
+      );
+    }
+
+    const transcript = await prisma.videoTranscript.upsert({
+      where: { video_id_language: { video_id, language } },
+      create: {
+        video_id,
+        language,
+        status: TRANSCRIPT_STATUS.COMPLETED,
+        source: TRANSCRIPT_SOURCE.IMPORTED,
+        edited_by: user_id,
+        edited_at: new Date(),
+      },
+      update: {
+        status: TRANSCRIPT_STATUS.COMPLETED,
+        source: TRANSCRIPT_SOURCE.IMPORTED,
+        engine: null,
+        error_message: null,
+        edited_by: user_id,
+        edited_at: new Date(),
+      },
+    });
+
+    await this.replaceSegments(transcript.id, result.cues);
+
+    accessibilityAuditService.refreshAudit({ video_id });
+
+    return this.getTranscript(video_id, language);
+  }
+
+  /**
+   * Get transcript with segments
+   */
+  async getTranscript(video_id: string, language?: string) {
+    const transcript = await prisma.videoTranscript.findFirst({
+      where: {
+        video_id,
+        ...(language && { language }),
+      },
+      orderBy: { updated_at: "desc" },
+      include: {
+        segments: {
+          orderBy: { position: "asc" },
+          select: segmentSelect,
+        },
+      },
+    });
+
+    if (!transcript) {
+      throw new NotFoundError("Transcript not found");
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Replace transcript segments with mentor edits
+   */
+  async updateTranscript(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    language: string,
+    segments: CaptionCue[]
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage transcripts for this video"
+    );
+
+    const transcript = await prisma.videoTranscript.findUnique({
+      where: { video_id_language: { video_id, language } },
+    });
+
+    if (!transcript) {
+      throw new NotFoundError("Transcript not found");
+    }
+
+    if (transcript.status === TRANSCRIPT_STATUS.PROCESSING) {
+      throw new ConflictError("Transcription is still in progress");
+    }
+
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    const invalid = sorted.findIndex((segment) => segment.end <= segment.start);
+
+    if (invalid !== -1) {
+      throw new ValidationError(
+        `Segment ${invalid + 1}: end time must be after start time`
+      );
+    }
+
+    await this.replaceSegments(transcript.id, sorted);
+
+    await prisma.videoTranscript.update({
+      where: { id: transcript.id },
+      data: {
+        status: TRANSCRIPT_STATUS.COMPLETED,
+        error_message: null,
+        edited_by: user_id,
+        edited_at: new Date(),
+      },
+    });
+
+    accessibilityAuditService.refreshAudit({ video_id });
+
+    return this.getTranscript(video_id, language);
+  }
+
+  /**
+   * Delete transcript
+   */
+  async deleteTranscript(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    language: string
+  ) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage transcripts for this video"
+    );
+
+    const { count } = await prisma.videoTranscript.deleteMany({
+      where: { video_id, language },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Transcript not found");
+    }
+
+    accessibilityAuditService.refreshAudit({ video_id });
+
+    return { video_id, language, deleted: true };
+  }
+
+  /**
+   * Search transcripts of a course, returning jump-to timestamps
+   */
+  async searchCourseTranscripts(
+    user_id: string,
+    user_role: string,
+    course_id: string,
+    query: string,
+    filters: TranscriptSearchFilters = {}
+  ) {
+    const { page = 1, limit = 20 } = filters;
+    const skip = (page - 1) * limit;
+
+    await this.assertCourseAccess(user_id, user_role, course_id);
+
+    const where = {
+      text: { contains: query, mode: "insensitive" },
+      transcript: {
+        status: TRANSCRIPT_STATUS.COMPLETED,
+        video: {
+          material: {
+            section: { course_id },
+          },
+        },
+      },
+    };
+
+    const [segments, total] = await Promise.all([
+      prisma.transcriptSegment.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ transcript_id: "asc" }, { position: "asc" }],
+        select: {
+          start_ms: true,
+          end_ms: true,
+          text: true,
+          transcript: {
+            select: {
+              language: true,
+              video_id: true,
+              video: {
+                select: {
+                  material: {
+                    select: { id: true, title: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.transcriptSegment.count({ where }),
+    ]);
+
+    return {
+      data: segments.map((segment: any) => ({
+        material_id: segment.transcript.video.material?.id,
+        material_title: segment.transcript.video.material?.title,
+        video_id: segment.transcript.video_id,
+        language: segment.transcript.language,
+        text: segment.text,
+        start_ms: segment.start_ms,
+        end_ms: segment.end_ms,
+        jump_to: Math.floor(segment.start_ms / 1000),
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Replace all segments of a transcript
+   */
+  private async replaceSegments(transcript_id: string, segments: CaptionCue[]) {
+    await prisma.$transaction([
+      prisma.transcriptSegment.deleteMany({ where: { transcript_id } }),
+      prisma.transcriptSegment.createMany({
+        data: segments.map((segment, index) => ({
+          transcript_id,
+          position: index,
+          start_ms: Math.round(segment.start),
+          end_ms: Math.round(segment.end),
+          text: segment.text,
+        })),
+      }),
+    ]);
+  }
+
+  /**
+   * Check user can read the course transcripts
+   */
+  private async assertCourseAccess(
+    user_id: string,
+    user_role: string,
+    course_id: string
+  ) {
+    if (user_role === USER_ROLES.ADMIN) return;
+
+    const course = await prisma.course.findUnique({
+      where: { id: course_id },
+      select: { mentor: { select: { user_id: true } } },
+    });
+
+    if (!course) {
+      throw new NotFoundError("Course not found");
+    }
+
+    if (course.mentor.user_id === user_id) return;
+
+    await courseAccessService.getActiveEnrollment(user_id, course_id);
+  }
+}
+
+const transcriptService = new TranscriptService();
+export default transcriptService;
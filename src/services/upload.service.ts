@@ -14,7 +14,7 @@ import { AppError } from "@/utils/error.util";
 import { HTTP_STATUS } from "@/lib/constants";
 
 // Tambahkan interface untuk Express Multer File
-interface MulterFile {
+export interface MulterFile {
   fieldname: string;
   originalname: string;
   encoding: string;
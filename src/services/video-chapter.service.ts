@@ -0,0 +1,341 @@
+import prisma from "@/lib/prisma";
+import { storage } from "@/lib/storage";
+import { videoConfig } from "@/config/video.config";
+import streamingService from "./streaming.service";
+import transcriptService from "./transcript.service";
+import courseAccessService from "./course-access.service";
+import { formatSeconds } from "@/utils/date.util";
+import type { GeneratedThumbnail } from "@/types/video.types";
+import { ValidationError } from "@/utils/error.util";
+import { TRANSCRIPT_STATUS } from "@/lib/constants";
+
+/**
+ * Chapter Data
+ */
+interface ChapterData {
+  title: string;
+  start_time: number;
+}
+
+/**
+ * Stored chapter
+ */
+interface ChapterRecord {
+  id: string;
+  title: string;
+  start_time: number;
+  thumbnail: string | null;
+  is_suggested: boolean;
+}
+
+/**
+ * Video Chapter Service
+ * Handles chapter markers and player data with large jump targets
+ */
+export class VideoChapterService {
+  /**
+   * Get chapters of a video the user can watch
+   */
+  async getChapters(user_id: string, user_role: string, video_id: string) {
+    const video = await courseAccessService.getAccessibleVideo(
+      video_id,
+      user_id,
+      user_role
+    );
+    const chapters = await this.findChapters(video_id);
+
+    return this.mapChapters(chapters, video.duration);
+  }
+
+  /**
+   * Replace chapters with mentor-defined ones
+   */
+  async replaceChapters(
+    user_id: string,
+    user_role: string,
+    video_id: string,
+    chapters: ChapterData[]
+  ) {
+    const video = await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage chapters for this video"
+    );
+    const sorted = [...chapters].sort((a, b) => a.start_time - b.start_time);
+
+    if (sorted[0].start_time !== 0) {
+      throw new ValidationError("First chapter must start at 0:00");
+    }
+
+    sorted.forEach((chapter, index) => {
+      if (video.duration > 0 && chapter.start_time >= video.duration) {
+        throw new ValidationError(
+          `Chapter ${index + 1}: start time is past the end of the video`
+        );
+      }
+
+      const gap =
+        index > 0 ? chapter.start_time - sorted[index - 1].start_time : null;
+      if (gap !== null && gap < videoConfig.chapters.minLength) {
+        throw new ValidationError(
+          `Chapter ${index + 1}: chapters must be at least ${
+            videoConfig.chapters.minLength
+          } seconds apart`
+        );
+      }
+    });
+
+    // Keep thumbnails of chapters that stay at the same time
+    const existing = await this.findChapters(video_id);
+    const thumbnails = new Map<number, string | null>(
+      existing.map((chapter) => [chapter.start_time, chapter.thumbnail])
+    );
+
+    await prisma.$transaction([
+      prisma.videoChapter.deleteMany({ where: { video_id } }),
+      prisma.videoChapter.createMany({
+        data: sorted.map((chapter) => ({
+          video_id,
+          title: chapter.title,
+          start_time: chapter.start_time,
+          thumbnail: thumbnails.get(chapter.start_time) ?? null,
+          is_suggested: false,
+          created_by: user_id,
+        })),
+      }),
+    ]);
+
+    return this.mapChapters(await this.findChapters(video_id), video.duration);
+  }
+
+  /**
+   * Delete all chapters of a video
+   */
+  async deleteChapters(user_id: string, user_role: string, video_id: string) {
+    await courseAccessService.getManageableVideo(
+      video_id,
+      user_id,
+      user_role,
+      "You do not have permission to manage chapters for this video"
+    );
+
+    const { count } = await prisma.videoChapter.deleteMany({
+      where: { video_id },
+    });
+
+    return { video_id, deleted: count };
+  }
+
+  /**
+   * Save chapter suggestions from thumbnail timestamps
+   * Skipped once a mentor has defined chapters
+   */
+  async saveSuggestedChapters(
+    video_id: string,
+    thumbnails: GeneratedThumbnail[]
+  ) {
+    const manual = await prisma.videoChapter.count({
+      where: { video_id, is_suggested: false },
+    });
+
+    if (manual > 0) return [];
+
+    // Always start at 0:00, then one chapter per thumbnail
+    const starts = [
+      { start_time: 0, thumbnail: null as string | null },
+      ...thumbnails
+        .map((thumbnail) => ({
+          start_time: Math.floor(thumbnail.timestamp),
+          thumbnail: thumbnail.path as string | null,
+        }))
+        .sort((a, b) => a.start_time - b.start_time),
+    ].filter(
+      (chapter, index, list) =>
+        index === 0 ||
+        chapter.start_time - list[index - 1].start_time >=
+          videoConfig.chapters.minLength
+    );
+
+    await prisma.$transaction([
+      prisma.videoChapter.deleteMany({
+        where: { video_id, is_suggested: true },
+      }),
+      prisma.videoChapter.createMany({
+        data: starts.map((chapter, index) => ({
+          video_id,
+          title: `Part ${index + 1}`,
+          start_time: chapter.start_time,
+          thumbnail: chapter.thumbnail,
+          is_suggested: true,
+        })),
+      }),
+    ]);
+
+    return starts;
+  }
+
+  /**
+   * Get player data: chapters, resume position, captions and transcript
+   */
+  async getPlayerData(user_id: string, user_role: string, video_id: string) {
+    const video = await courseAccessService.getAccessibleVideo(
+      video_id,
+      user_id,
+      user_role
+    );
+    const chapters = this.mapChapters(
+      await this.findChapters(video_id),
+      video.duration
+    );
+
+    const [progress, preferences, captions, variants] = await Promise.all([
+      video.material
+        ? prisma.progress.findFirst({
+            where: { user_id, material_id: video.material.id },
+            select: {
+              last_position: true,
+              watched_duration: true,
+              is_completed: true,
+            },
+          })
+        : null,
+      streamingService.getPlayerPreferences(user_id),
+      streamingService.getCaptionTracks(video_id, user_id),
+      streamingService.getVideoVariants(video_id, user_id),
+    ]);
+
+    // Start over when the learner had (almost) reached the end
+    const finished =
+      progress &&
+      video.duration > 0 &&
+      progress.last_position >=
+        video.duration - videoConfig.chapters.restartThreshold;
+    const position = progress && !finished ? progress.last_position : 0;
+
+    return {
+      video_id: video.id,
+      material_id: video.material?.id ?? null,
+      title: video.material?.title ?? video.original_name,
+      duration: video.duration,
+      thumbnail_url: video.thumbnail ? storage.getUrl(video.thumbnail) : null,
+      chapters,
+      resume: {
+        position,
+        position_label: formatSeconds(position),
+        chapter_index: this.findChapterIndex(chapters, position),
+        watched_duration: progress?.watched_duration ?? 0,
+        is_completed: progress?.is_completed ?? false,
+      },
+      captions,
+      transcript: await this.getInteractiveTranscript(
+        video_id,
+        preferences.caption_language,
+        chapters
+      ),
+      variants,
+      sources: await streamingService.getPlaybackSources(
+        video_id,
+        user_id,
+        variants.default_variant
+      ),
+      preferences,
+    };
+  }
+
+  /**
+   * Get completed transcript (preferred language first) with segments
+   * linked to chapters
+   */
+  private async getInteractiveTranscript(
+    video_id: string,
+    language: string,
+    chapters: Array<{ start_time: number }>
+  ) {
+    const available = await prisma.videoTranscript.findMany({
+      where: { video_id, status: TRANSCRIPT_STATUS.COMPLETED },
+      orderBy: { updated_at: "desc" },
+      select: { language: true },
+    });
+
+    if (available.length === 0) return null;
+
+    const languages: string[] = available.map((t: any) => t.language);
+    const selected = languages.includes(language) ? language : languages[0];
+    const transcript = await transcriptService.getTranscript(
+      video_id,
+      selected
+    );
+
+    return {
+      language: selected,
+      available_languages: languages,
+      segments: transcript.segments.map((segment: any) => ({
+        ...segment,
+        chapter_index: this.findChapterIndex(
+          chapters,
+          Math.floor(segment.start_ms / 1000)
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Add end times, labels and thumbnail URLs to chapters
+   */
+  private mapChapters(chapters: ChapterRecord[], duration: number) {
+    return chapters.map((chapter, index) => {
+      const end_time = chapters[index + 1]?.start_time ?? duration;
+
+      return {
+        id: chapter.id,
+        index,
+        title: chapter.title,
+        start_time: chapter.start_time,
+        end_time,
+        start_label: formatSeconds(chapter.start_time),
+        duration: Math.max(end_time - chapter.start_time, 0),
+        thumbnail_url: chapter.thumbnail
+          ? storage.getUrl(chapter.thumbnail)
+          : null,
+        is_suggested: chapter.is_suggested,
+      };
+    });
+  }
+
+  /**
+   * Index of the chapter containing a position (seconds)
+   */
+  private findChapterIndex(
+    chapters: Array<{ start_time: number }>,
+    position: number
+  ): number | null {
+    let found: number | null = null;
+
+    chapters.forEach((chapter, index) => {
+      if (chapter.start_time <= position) found = index;
+    });
+
+    return found;
+  }
+
+  /**
+   * Get chapters ordered by start time
+   */
+  private async findChapters(video_id: string): Promise<ChapterRecord[]> {
+    return prisma.videoChapter.findMany({
+      where: { video_id },
+      orderBy: { start_time: "asc" },
+      select: {
+        id: true,
+        title: true,
+        start_time: true,
+        thumbnail: true,
+        is_suggested: true,
+      },
+    });
+  }
+}
+
+const videoChapterService = new VideoChapterService();
+export default videoChapterService;
@@ -0,0 +1,177 @@
+import path from "path";
+import prisma from "@/lib/prisma";
+import { videoConfig } from "@/config/video.config";
+import videoProcessor from "@/utils/video-processor.util";
+import {
+  toPrismaQuality,
+  fromPrismaQuality,
+  compareQualities,
+} from "@/utils/video-quality.util";
+import { VIDEO_VARIANT } from "@/lib/constants";
+import type {
+  VideoQuality,
+  VideoVariant,
+  VideoMetadata,
+} from "@/types/video.types";
+
+/**
+ * Rendition in the catalogue (quality as "720p", not the Prisma enum)
+ */
+export interface RenditionRecord {
+  quality: VideoQuality;
+  variant: VideoVariant;
+  path: string;
+  size: number;
+  bitrate: string;
+  resolution: string; // WxH of the encoded file
+  width: number;
+  height: number;
+}
+
+/**
+ * Video Rendition Service
+ * Catalogue of encoded renditions, probed after encoding
+ */
+export class VideoRenditionService {
+  /**
+   * Pick qualities to encode without upscaling the source.
+   * Compares the shorter side so portrait videos are handled too;
+   * a source below every quality still gets the lowest one.
+   */
+  planQualities(
+    source: Pick<VideoMetadata, "width" | "height">,
+    requested: VideoQuality[]
+  ): { qualities: VideoQuality[]; skipped: VideoQuality[] } {
+    const sourceHeight = Math.min(source.width, source.height);
+    const sorted = [...new Set(requested)].sort(compareQualities);
+
+    const qualities = sorted.filter((quality) => {
+      const resolution = videoConfig.resolutions.find(
+        (r) => r.name === quality
+      );
+      return !!resolution && resolution.height <= sourceHeight;
+    });
+
+    if (qualities.length === 0 && sorted.length > 0) {
+      qualities.push(sorted[0]);
+    }
+
+    return {
+      qualities,
+      skipped: sorted.filter((quality) => !qualities.includes(quality)),
+    };
+  }
+
+  /**
+   * Probe an encoded file and save it in the catalogue
+   */
+  async recordRendition(
+    videoId: string,
+    quality: VideoQuality,
+    variant: VideoVariant,
+    filePath: string
+  ): Promise<RenditionRecord> {
+    const metadata = await videoProcessor.getMetadata(
+      path.join(process.cwd(), "uploads", filePath)
+    );
+
+    const data = {
+      path: filePath,
+      size: metadata.size,
+      bitrate: metadata.bitrate,
+      resolution: `${metadata.width}x${metadata.height}`,
+    };
+
+    const rendition = await prisma.videoQuality_Model.upsert({
+      where: {
+        video_id_quality_variant: {
+          video_id: videoId,
+          quality: toPrismaQuality(quality),
+          variant,
+        },
+      },
+      create: {
+        video_id: videoId,
+        quality: toPrismaQuality(quality),
+        variant,
+        ...data,
+      },
+      update: data,
+    });
+
+    return this.mapRendition(rendition);
+  }
+
+  /**
+   * Get renditions of a video variant, lowest quality first
+   */
+  async getRenditions(
+    videoId: string,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ): Promise<RenditionRecord[]> {
+    const renditions = await prisma.videoQuality_Model.findMany({
+      where: { video_id: videoId, variant },
+    });
+
+    return renditions
+      .map((rendition: any) => this.mapRendition(rendition))
+      .sort((a: RenditionRecord, b: RenditionRecord) =>
+        compareQualities(a.quality, b.quality)
+      );
+  }
+
+  /**
+   * Get one rendition, null when it was never produced
+   */
+  async getRendition(
+    videoId: string,
+    quality: VideoQuality,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ): Promise<RenditionRecord | null> {
+    const rendition = await prisma.videoQuality_Model.findUnique({
+      where: {
+        video_id_quality_variant: {
+          video_id: videoId,
+          quality: toPrismaQuality(quality),
+          variant,
+        },
+      },
+    });
+
+    return rendition ? this.mapRendition(rendition) : null;
+  }
+
+  /**
+   * Get qualities that exist for a video variant, lowest first
+   */
+  async getAvailableQualities(
+    videoId: string,
+    variant: VideoVariant = VIDEO_VARIANT.STANDARD
+  ): Promise<VideoQuality[]> {
+    const renditions = await this.getRenditions(videoId, variant);
+    return renditions.map((rendition) => rendition.quality);
+  }
+
+  /**
+   * Map a stored rendition (Prisma enum quality, "WxH" resolution)
+   */
+  private mapRendition(rendition: any): RenditionRecord {
+    const [width, height] = String(rendition.resolution)
+      .split("x")
+      .map((value) => parseInt(value, 10) || 0);
+
+    return {
+      quality: fromPrismaQuality(rendition.quality),
+      variant: rendition.variant,
+      path: rendition.path,
+      size: rendition.size,
+      bitrate: rendition.bitrate,
+      resolution: rendition.resolution,
+      width: width ?? 0,
+      height: height ?? 0,
+    };
+  }
+}
+
+const videoRenditionService = new VideoRenditionService();
+export default videoRenditionService;
@@ -0,0 +1,577 @@
+import path from "path";
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { createHash } from "crypto";
+import { once } from "events";
+import prisma from "@/lib/prisma";
+import { storage } from "@/lib/storage";
+import { videoConfig } from "@/config/video.config";
+import videoService from "./video.service";
+import {
+  generateUniqueFilename,
+  getFileExtension,
+  formatFileSize,
+  ensureDirectoryExists,
+  deleteFile,
+  deleteDirectory,
+} from "@/utils/file.util";
+import { logInfo, logError } from "@/utils/logger.util";
+import {
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from "@/utils/error.util";
+import {
+  HTTP_STATUS,
+  USER_ROLES,
+  VIDEO_STATUS,
+  UPLOAD_SESSION_STATUS,
+} from "@/lib/constants";
+
+/**
+ * Initiate Upload Data
+ */
+interface InitiateUploadData {
+  filename: string;
+  mime_type: string;
+  size: number;
+  checksum: string;
+}
+
+/**
+ * Byte range of a chunk (inclusive end, as in Content-Range)
+ */
+interface ChunkRange {
+  start: number;
+  end: number;
+  total: number;
+}
+
+/**
+ * Stored session fields used by the upload protocol
+ */
+interface UploadSessionRecord {
+  id: string;
+  user_id: string;
+  original_name: string;
+  mime_type: string;
+  total_size: number;
+  chunk_size: number;
+  checksum: string;
+  status: string;
+  video_id: string | null;
+  expires_at: Date;
+}
+
+/**
+ * Video Upload Service
+ * Resumable chunked upload: initiate, PUT chunks, status, complete, abort
+ */
+export class VideoUploadService {
+  /**
+   * Start an upload session (mentor or admin)
+   */
+  async initiateUpload(
+    user_id: string,
+    user_role: string,
+    data: InitiateUploadData
+  ) {
+    if (user_role !== USER_ROLES.MENTOR && user_role !== USER_ROLES.ADMIN) {
+      throw new ForbiddenError("Only mentors can upload videos");
+    }
+
+    const { maxFileSize, allowedFormats, allowedMimeTypes, chunkSize } =
+      videoConfig.upload;
+
+    const extension = getFileExtension(data.filename).replace(".", "");
+    if (
+      !(allowedFormats as readonly string[]).includes(extension) ||
+      !(allowedMimeTypes as readonly string[]).includes(data.mime_type)
+    ) {
+      throw new ValidationError(
+        `Unsupported video format. Allowed: ${allowedFormats.join(", ")}`
+      );
+    }
+
+    if (data.size > maxFileSize) {
+      throw new ValidationError(
+        `Video file too large. Max size: ${formatFileSize(maxFileSize)}`
+      );
+    }
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        user_id,
+        original_name: path.basename(data.filename),
+        mime_type: data.mime_type,
+        total_size: data.size,
+        chunk_size: chunkSize,
+        checksum: data.checksum.toLowerCase(),
+        expires_at: new Date(Date.now() + videoConfig.upload.sessionTtl),
+      },
+    });
+
+    await ensureDirectoryExists(this.getChunkDirectory(session.id));
+
+    return this.buildStatus(session, []);
+  }
+
+  /**
+   * Store one chunk. Content-Range: bytes <start>-<end>/<total>
+   * Chunks start on chunk_size boundaries; re-sending a chunk replaces it
+   */
+  async uploadChunk(
+    user_id: string,
+    user_role: string,
+    session_id: string,
+    content_range: string | null,
+    data: Buffer
+  ) {
+    const session = await this.getOwnSession(user_id, user_role, session_id);
+    this.assertActive(session);
+
+    const range = this.parseContentRange(content_range);
+
+    if (range.total !== session.total_size) {
+      throw new ValidationError(
+        `Total size must match the session size (${session.total_size})`
+      );
+    }
+
+    if (range.start % session.chunk_size !== 0) {
+      throw new ValidationError(
+        `Chunk must start at a multiple of ${session.chunk_size} bytes`
+      );
+    }
+
+    const index = range.start / session.chunk_size;
+    const expectedEnd =
+      Math.min(range.start + session.chunk_size, session.total_size) - 1;
+
+    if (range.end !== expectedEnd) {
+      throw new ValidationError(
+        `Chunk ${index} must end at byte ${expectedEnd}`
+      );
+    }
+
+    const size = range.end - range.start + 1;
+    if (data.length !== size) {
+      throw new ValidationError(
+        `Chunk body is ${data.length} bytes, Content-Range declares ${size}`
+      );
+    }
+
+    // Write to a temp file first so a broken request never leaves half a chunk
+    const chunkPath = this.getChunkPath(session.id, index);
+    await ensureDirectoryExists(path.dirname(chunkPath));
+    await fs.writeFile(`${chunkPath}.tmp`, data);
+    await fs.rename(`${chunkPath}.tmp`, chunkPath);
+
+    await prisma.uploadChunk.upsert({
+      where: { session_id_index: { session_id: session.id, index } },
+      create: { session_id: session.id, index, offset: range.start, size },
+      update: { offset: range.start, size },
+    });
+
+    return this.getUploadStatus(user_id, user_role, session_id);
+  }
+
+  /**
+   * Get session status with received byte ranges (for resuming)
+   */
+  async getUploadStatus(
+    user_id: string,
+    user_role: string,
+    session_id: string
+  ) {
+    const session = await this.getOwnSession(user_id, user_role, session_id);
+    const chunks = await this.findChunks(session.id);
+
+    return this.buildStatus(session, chunks);
+  }
+
+  /**
+   * Assemble chunks into videos/originals, verify the checksum,
+   * create the Video (UPLOADING) and queue it for processing
+   */
+  async completeUpload(
+    user_id: string,
+    user_role: string,
+    session_id: string
+  ) {
+    const session = await this.getOwnSession(user_id, user_role, session_id);
+
+    // Completing again only retries the hand-off to processing
+    if (
+      session.status === UPLOAD_SESSION_STATUS.COMPLETED &&
+      session.video_id
+    ) {
+      return this.handOff(session.video_id);
+    }
+
+    this.assertActive(session);
+
+    const chunks = await this.findChunks(session.id);
+    const missing = this.countChunks(session) - chunks.length;
+    if (missing > 0) {
+      throw new ValidationError(
+        `Upload incomplete: ${missing} chunk(s) missing`
+      );
+    }
+
+    // Claim the session so parallel complete calls assemble only once
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: UPLOAD_SESSION_STATUS.ACTIVE },
+      data: { status: UPLOAD_SESSION_STATUS.ASSEMBLING },
+    });
+    if (count === 0) {
+      throw new ConflictError("Upload is already being completed");
+    }
+
+    const filename = generateUniqueFilename(session.original_name);
+    const filePath = path.join("videos", "originals", filename);
+    const fullPath = path.join(process.cwd(), "uploads", filePath);
+
+    let checksum: string;
+    try {
+      checksum = await this.assembleChunks(session, fullPath);
+    } catch (error) {
+      await this.releaseSession(session.id);
+      await deleteFile(fullPath);
+      throw error;
+    }
+
+    if (checksum !== session.checksum) {
+      await this.releaseSession(session.id);
+      await deleteFile(fullPath);
+      throw new AppError(
+        "Checksum mismatch, re-send the chunks and complete again",
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      );
+    }
+
+    // Video row and session completion in one write
+    const { video } = await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: {
+        status: UPLOAD_SESSION_STATUS.COMPLETED,
+        completed_at: new Date(),
+        video: {
+          create: {
+            original_name: session.original_name,
+            filename,
+            path: filePath,
+            size: session.total_size,
+            mime_type: session.mime_type,
+            status: VIDEO_STATUS.UPLOADING,
+          },
+        },
+      },
+      include: { video: true },
+    });
+
+    await this.removeChunks(session.id);
+
+    logInfo(`Chunked upload completed`, {
+      sessionId: session.id,
+      videoId: video.id,
+      size: session.total_size,
+    });
+
+    return this.handOff(video.id);
+  }
+
+  /**
+   * Abort an upload and discard received chunks
+   */
+  async abortUpload(user_id: string, user_role: string, session_id: string) {
+    const session = await this.getOwnSession(user_id, user_role, session_id);
+    this.assertActive(session);
+
+    await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { status: UPLOAD_SESSION_STATUS.ABORTED },
+    });
+    await this.removeChunks(session.id);
+
+    return { id: session.id, status: UPLOAD_SESSION_STATUS.ABORTED };
+  }
+
+  /**
+   * Expire unfinished sessions past expires_at and free their disk space.
+   * Sessions left ASSEMBLING by an interrupted completion are released
+   * so the client can complete again, or expired once past expires_at.
+   */
+  async cleanupExpiredSessions(): Promise<number> {
+    const now = new Date();
+    const staleAssembly = {
+      status: UPLOAD_SESSION_STATUS.ASSEMBLING,
+      updated_at: {
+        lt: new Date(now.getTime() - videoConfig.upload.assemblyTimeout),
+      },
+    };
+
+    await prisma.uploadSession.updateMany({
+      where: { ...staleAssembly, expires_at: { gte: now } },
+      data: { status: UPLOAD_SESSION_STATUS.ACTIVE },
+    });
+
+    const sessions = await prisma.uploadSession.findMany({
+      where: {
+        OR: [
+          { status: UPLOAD_SESSION_STATUS.ACTIVE, expires_at: { lt: now } },
+          { ...staleAssembly, expires_at: { lt: now } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    for (const session of sessions) {
+      try {
+        await prisma.uploadSession.update({
+          where: { id: session.id },
+          data: { status: UPLOAD_SESSION_STATUS.EXPIRED },
+        });
+        await this.removeChunks(session.id);
+      } catch (error) {
+        logError(`Failed to expire upload session ${session.id}`, error);
+      }
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Queue the uploaded video for processing, left in UPLOADING on failure
+   * so completing the session again can retry
+   */
+  private async handOff(video_id: string) {
+    let video = await prisma.video.findUnique({ where: { id: video_id } });
+
+    if (!video) {
+      throw new NotFoundError("Video not found");
+    }
+
+    if (video.status === VIDEO_STATUS.UPLOADING) {
+      try {
+        await videoService.enqueueProcessing(
+          video.id,
+          path.join(process.cwd(), "uploads", video.path)
+        );
+        video = await prisma.video.findUnique({ where: { id: video_id } });
+      } catch (error) {
+        logError(`Failed to queue uploaded video ${video.id}`, error);
+      }
+    }
+
+    return {
+      video_id: video.id,
+      filename: video.filename,
+      original_name: video.original_name,
+      size: video.size,
+      status: video.status,
+      url: storage.getUrl(video.path),
+    };
+  }
+
+  /**
+   * Concatenate chunks in order into the destination, returns SHA-256 (hex)
+   */
+  private async assembleChunks(
+    session: UploadSessionRecord,
+    destination: string
+  ): Promise<string> {
+    await ensureDirectoryExists(path.dirname(destination));
+
+    const hash = createHash("sha256");
+    const output = createWriteStream(destination);
+
+    try {
+      for (let index = 0; index < this.countChunks(session); index++) {
+        for await (const data of createReadStream(
+          this.getChunkPath(session.id, index)
+        )) {
+          hash.update(data);
+          if (!output.write(data)) {
+            await once(output, "drain");
+          }
+        }
+      }
+    } finally {
+      output.end();
+      await once(output, "close");
+    }
+
+    return hash.digest("hex");
+  }
+
+  /**
+   * Put a session back to ACTIVE after a failed completion
+   */
+  private async releaseSession(session_id: string) {
+    await prisma.uploadSession.update({
+      where: { id: session_id },
+      data: { status: UPLOAD_SESSION_STATUS.ACTIVE },
+    });
+  }
+
+  /**
+   * Build status response: received ranges merged, next missing offset
+   */
+  private buildStatus(
+    session: UploadSessionRecord,
+    chunks: Array<{ index: number; offset: number; size: number }>
+  ) {
+    const ranges: Array<{ start: number; end: number }> = [];
+    let received = 0;
+
+    for (const chunk of chunks) {
+      const end = chunk.offset + chunk.size - 1;
+      const last = ranges[ranges.length - 1];
+
+      if (last && last.end + 1 === chunk.offset) {
+        last.end = end;
+      } else {
+        ranges.push({ start: chunk.offset, end });
+      }
+      received += chunk.size;
+    }
+
+    const totalChunks = this.countChunks(session);
+    const receivedIndexes = new Set(chunks.map((chunk) => chunk.index));
+    const missing = Array.from({ length: totalChunks }, (_, i) => i).filter(
+      (index) => !receivedIndexes.has(index)
+    );
+
+    return {
+      id: session.id,
+      status: session.status,
+      original_name: session.original_name,
+      mime_type: session.mime_type,
+      total_size: session.total_size,
+      chunk_size: session.chunk_size,
+      total_chunks: totalChunks,
+      received_bytes: received,
+      received_ranges: ranges,
+      missing_chunks: missing,
+      next_offset:
+        missing.length > 0 ? missing[0] * session.chunk_size : null,
+      video_id: session.video_id,
+      expires_at: session.expires_at,
+    };
+  }
+
+  /**
+   * Parse "bytes <start>-<end>/<total>"
+   */
+  private parseContentRange(header: string | null): ChunkRange {
+    const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+
+    if (!match) {
+      throw new ValidationError(
+        "Content-Range header must be: bytes <start>-<end>/<total>"
+      );
+    }
+
+    const [start, end, total] = match.slice(1).map(Number);
+
+    if (start > end || end >= total) {
+      throw new ValidationError("Invalid Content-Range");
+    }
+
+    return { start, end, total };
+  }
+
+  /**
+   * Number of chunks of a session
+   */
+  private countChunks(session: UploadSessionRecord): number {
+    return Math.ceil(session.total_size / session.chunk_size);
+  }
+
+  /**
+   * Reject changes to sessions that are no longer active
+   */
+  private assertActive(session: UploadSessionRecord) {
+    if (session.status !== UPLOAD_SESSION_STATUS.ACTIVE) {
+      throw new ConflictError(
+        `Upload session is ${session.status.toLowerCase()}`
+      );
+    }
+
+    if (session.expires_at < new Date()) {
+      throw new ConflictError("Upload session has expired");
+    }
+  }
+
+  /**
+   * Get received chunks ordered by index
+   */
+  private async findChunks(session_id: string) {
+    return prisma.uploadChunk.findMany({
+      where: { session_id },
+      orderBy: { index: "asc" },
+      select: { index: true, offset: true, size: true },
+    });
+  }
+
+  /**
+   * Delete chunk files and records of a session
+   */
+  private async removeChunks(session_id: string) {
+    await deleteDirectory(this.getChunkDirectory(session_id));
+    await prisma.uploadChunk.deleteMany({ where: { session_id } });
+  }
+
+  /**
+   * Absolute directory holding the chunks of a session
+   */
+  private getChunkDirectory(session_id: string): string {
+    return path.join(
+      process.cwd(),
+      "uploads",
+      videoConfig.upload.chunkDirectory,
+      session_id
+    );
+  }
+
+  /**
+   * Absolute path of one chunk file
+   */
+  private getChunkPath(session_id: string, index: number): string {
+    return path.join(
+      this.getChunkDirectory(session_id),
+      `${String(index).padStart(6, "0")}.part`
+    );
+  }
+
+  /**
+   * Get session owned by the user (admins can access all sessions)
+   */
+  private async getOwnSession(
+    user_id: string,
+    user_role: string,
+    session_id: string
+  ): Promise<UploadSessionRecord> {
+    const session = await prisma.uploadSession.findUnique({
+      where: { id: session_id },
+    });
+
+    if (!session) {
+      throw new NotFoundError("Upload session not found");
+    }
+
+    if (user_role !== USER_ROLES.ADMIN && session.user_id !== user_id) {
+      throw new ForbiddenError(
+        "You do not have permission to access this upload"
+      );
+    }
+
+    return session;
+  }
+}
+
+const videoUploadService = new VideoUploadService();
+export default videoUploadService;
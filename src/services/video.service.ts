@@ -9,21 +9,50 @@ import {
   fileExists,
 } from "@/utils/file.util";
 import { logInfo, logError } from "@/utils/logger.util";
-import type { VideoQuality, VideoProcessingOptions } from "@/types/video.types";
+import type {
+  VideoQuality,
+  VideoProcessingOptions,
+  VideoProcessingProgress,
+  ProgressCallback,
+  GeneratedThumbnail,
+  VideoJobData,
+} from "@/types/video.types";
 import prisma from "@/lib/prisma";
+import {
+  getVideoQueue,
+  getVideoJobId,
+  addUniqueJob,
+  VIDEO_JOBS,
+} from "@/lib/queue";
+import { VIDEO_STATUS, VIDEO_VARIANT } from "@/lib/constants";
+import { videoStreaming } from "@/lib/streaming";
+import videoChapterService from "./video-chapter.service";
+import videoRenditionService from "./video-rendition.service";
+import courseAccessService from "./course-access.service";
+
+/**
+ * Progress listener (receives a snapshot on every persisted update)
+ */
+type ProgressListener = (
+  progress: VideoProcessingProgress
+) => void | Promise<void>;
 
 /**
  * Video Service
- * Menangani upload, processing, dan manajemen video secara synchronous
+ * Menangani upload, processing (via queue), dan manajemen video
  */
 export class VideoService {
   /**
-   * Process video secara synchronous (tanpa queue)
+   * Process video (dijalankan oleh worker queue, lihat enqueueProcessing)
+   * The video is only marked FAILED on the final attempt, earlier
+   * failures keep it PROCESSING for the retry and record the error
    */
   async processVideo(
     videoId: string,
     inputPath: string,
-    options?: VideoProcessingOptions
+    options?: VideoProcessingOptions,
+    onProgress?: ProgressListener,
+    finalAttempt: boolean = true
   ): Promise<void> {
     const video = await prisma.video.findUnique({
       where: { id: videoId },
@@ -39,7 +68,12 @@ export class VideoService {
       // Update status to PROCESSING
       await prisma.video.update({
         where: { id: videoId },
-        data: { status: "PROCESSING" },
+        data: {
+          status: "PROCESSING",
+          processing_progress: 0,
+          processing_heartbeat: new Date(),
+          processing_error: null,
+        },
       });
 
       // Get video metadata
@@ -55,68 +89,115 @@ export class VideoService {
         },
       });
 
-      // Process different qualities
-      const qualities =
-        options?.qualities || (["360p", "720p"] as VideoQuality[]);
-      const processedQualities = [];
+      // Process different qualities (tanpa upscaling di atas resolusi sumber)
+      const { qualities, skipped } = videoRenditionService.planQualities(
+        metadata,
+        options?.qualities || (["360p", "720p"] as VideoQuality[])
+      );
+      if (skipped.length > 0) {
+        logInfo(`Skipping qualities above source resolution`, {
+          videoId,
+          skipped,
+        });
+      }
+
+      const hlsQualities = videoConfig.streaming.hls.enabled
+        ? videoRenditionService.planQualities(
+            metadata,
+            videoConfig.resolutions
+              .filter((r) => r.enabled)
+              .map((r) => r.name as VideoQuality)
+          ).qualities
+        : [];
+      const progress = this.createProgressReporter(
+        videoId,
+        qualities,
+        hlsQualities,
+        onProgress
+      );
+      let renditions = 0;
 
       for (const quality of qualities) {
         try {
           const outputPath = await this.convertToQuality(
             videoId,
             inputPath,
-            quality
+            quality,
+            {
+              duration: metadata.duration,
+              onProgress: (percent) =>
+                progress.update("qualities", quality, percent),
+            }
           );
 
-          processedQualities.push({
+          // Simpan ukuran, bitrate dan dimensi hasil encode yang sebenarnya
+          await videoRenditionService.recordRendition(
+            videoId,
             quality,
-            path: outputPath,
-            size: metadata.size, // Akan diupdate nanti
-            bitrate:
-              videoConfig.resolutions.find((r) => r.name === quality)
-                ?.bitrate || "1000k",
-            resolution: quality,
-          });
+            VIDEO_VARIANT.STANDARD,
+            outputPath
+          );
+          renditions++;
 
           logInfo(`Video quality processed`, { videoId, quality });
         } catch (error) {
           logError(`Failed to process quality ${quality}`, error);
           // Continue with other qualities
+        } finally {
+          progress.update("qualities", quality, 100);
+        }
+      }
+
+      // Paket HLS untuk adaptive bitrate (MP4 tetap sebagai fallback)
+      let hlsPath: string | undefined;
+      if (hlsQualities.length > 0) {
+        progress.stage("packaging");
+        try {
+          hlsPath = await this.generateHls(videoId, inputPath, hlsQualities, {
+            duration: metadata.duration,
+            onProgress: (quality, percent) =>
+              progress.update("hls", quality, percent),
+          });
+          logInfo(`HLS packaging completed`, { videoId });
+        } catch (error) {
+          logError("Failed to package HLS", error);
         }
       }
 
+      if (renditions === 0 && !hlsPath) {
+        throw new Error("No playable rendition could be produced");
+      }
+
       // Generate thumbnails jika diperlukan
-      let thumbnailPath: string | undefined;
+      let thumbnails: GeneratedThumbnail[] = [];
       if (options?.generateThumbnails !== false) {
+        progress.stage("thumbnails");
         try {
-          thumbnailPath = await this.generateThumbnails(videoId, inputPath);
+          thumbnails = await this.generateThumbnails(videoId, inputPath);
         } catch (error) {
           logError("Failed to generate thumbnails", error);
         }
       }
 
-      // Simpan data qualities ke database
-      for (const qualityData of processedQualities) {
-        await prisma.videoQuality_Model.create({
-          data: {
-            video_id: videoId,
-            quality: qualityData.quality,
-            path: qualityData.path,
-            size: qualityData.size,
-            bitrate: qualityData.bitrate,
-            resolution: qualityData.resolution,
-          },
-        });
-      }
-
       // Update video status to COMPLETED
       await prisma.video.update({
         where: { id: videoId },
         data: {
           status: "COMPLETED",
-          thumbnail: thumbnailPath,
+          thumbnail: thumbnails[0]?.path,
+          hls_path: hlsPath,
+          processing_progress: 100,
+          processing_heartbeat: new Date(),
         },
       });
+      progress.stage("completed");
+
+      // Saran chapter dari timestamp thumbnail
+      try {
+        await videoChapterService.saveSuggestedChapters(videoId, thumbnails);
+      } catch (error) {
+        logError("Failed to save suggested chapters", error);
+      }
 
       // Delete original file jika diperlukan
       if (options?.deleteOriginal) {
@@ -131,11 +212,10 @@ export class VideoService {
     } catch (error) {
       logError(`Video processing failed`, error);
 
-      // Update status to FAILED
       await prisma.video.update({
         where: { id: videoId },
         data: {
-          status: "FAILED",
+          ...(finalAttempt && { status: "FAILED" }),
           processing_error:
             error instanceof Error ? error.message : "Unknown error",
         },
@@ -145,38 +225,287 @@ export class VideoService {
     }
   }
 
+  /**
+   * Queue video for background processing
+   * A finished or failed job of the same video is replaced
+   */
+  async enqueueProcessing(
+    videoId: string,
+    inputPath: string,
+    options?: VideoProcessingOptions
+  ) {
+    const jobId = getVideoJobId(videoId);
+    const { job, added } = await addUniqueJob(
+      VIDEO_JOBS.PROCESS,
+      { videoId, inputPath, options },
+      jobId
+    );
+
+    if (!added) {
+      return job;
+    }
+
+    // Set after the job exists, so a failed add does not leave the video
+    // PROCESSING without a job
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        status: "PROCESSING",
+        processing_progress: 0,
+        processing_heartbeat: new Date(),
+        processing_error: null,
+      },
+    });
+
+    await job.updateProgress({
+      stage: "queued",
+      percent: 0,
+      qualities: {},
+      hls: {},
+    } satisfies VideoProcessingProgress);
+
+    logInfo(`Video queued for processing`, { videoId, jobId });
+
+    return job;
+  }
+
+  /**
+   * Get processing status and queue job of a video
+   */
+  async getProcessingStatus(videoId: string, userId: string, userRole: string) {
+    const video = await courseAccessService.getManageableVideo(
+      videoId,
+      userId,
+      userRole,
+      "You do not have permission to view processing of this video"
+    );
+    const job = await getVideoQueue().getJob(getVideoJobId(videoId));
+
+    return {
+      video_id: video.id,
+      status: video.status,
+      progress: video.processing_progress,
+      error: video.processing_error,
+      last_heartbeat: video.processing_heartbeat,
+      job: job
+        ? {
+            id: job.id,
+            state: await job.getState(),
+            attempts_made: job.attemptsMade,
+            max_attempts: job.opts.attempts ?? 1,
+            failed_reason: job.failedReason ?? null,
+            progress: job.progress,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Recover videos stuck in PROCESSING (no heartbeat within timeout)
+   * Lost jobs are queued again, hung jobs are marked as failed
+   */
+  async recoverStuckVideos(): Promise<number> {
+    const threshold = new Date(Date.now() - videoConfig.processing.timeout);
+    const videos = await prisma.video.findMany({
+      where: {
+        status: VIDEO_STATUS.PROCESSING,
+        OR: [
+          { processing_heartbeat: { lt: threshold } },
+          { processing_heartbeat: null, updated_at: { lt: threshold } },
+        ],
+      },
+      select: { id: true, path: true },
+    });
+
+    const queue = getVideoQueue();
+    let recovered = 0;
+
+    for (const video of videos) {
+      try {
+        const job = await queue.getJob(getVideoJobId(video.id));
+        const state = job ? await job.getState() : null;
+
+        // Still waiting for a free worker
+        if (state === "waiting" || state === "delayed") continue;
+
+        const inputPath = path.join(process.cwd(), "uploads", video.path);
+
+        if (state === "active" || !(await fileExists(inputPath))) {
+          await prisma.video.update({
+            where: { id: video.id },
+            data: {
+              status: VIDEO_STATUS.FAILED,
+              processing_error:
+                state === "active"
+                  ? "Processing timed out"
+                  : "Original file not found",
+            },
+          });
+          logError(`Stuck video marked as failed`, { videoId: video.id });
+          continue;
+        }
+
+        await this.enqueueProcessing(
+          video.id,
+          inputPath,
+          (job?.data as VideoJobData | undefined)?.options
+        );
+        recovered++;
+      } catch (error) {
+        logError(`Failed to recover video ${video.id}`, error);
+      }
+    }
+
+    if (recovered > 0) {
+      logInfo(`Stuck videos queued again`, { count: recovered });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Track per-quality progress, save it (throttled) as heartbeat
+   * and pass a snapshot to the listener
+   */
+  private createProgressReporter(
+    videoId: string,
+    qualities: VideoQuality[],
+    hlsQualities: VideoQuality[],
+    onProgress?: ProgressListener
+  ) {
+    const progress: VideoProcessingProgress = {
+      stage: "transcoding",
+      percent: 0,
+      qualities: Object.fromEntries(qualities.map((q) => [q, 0])),
+      hls: Object.fromEntries(hlsQualities.map((q) => [q, 0])),
+    };
+    const units = Math.max(qualities.length + hlsQualities.length, 1);
+    const { progressInterval } = videoConfig.processing;
+    let lastReport = 0;
+
+    const report = (force: boolean) => {
+      const now = Date.now();
+      if (!force && now - lastReport < progressInterval) return;
+      lastReport = now;
+
+      const done = [
+        ...Object.values(progress.qualities),
+        ...Object.values(progress.hls),
+      ].reduce((sum, percent) => sum + (percent ?? 0), 0);
+      progress.percent =
+        progress.stage === "completed"
+          ? 100
+          : Math.min(Math.floor(done / units), 99);
+
+      if (progress.stage !== "completed") {
+        prisma.video
+          .update({
+            where: { id: videoId },
+            data: {
+              processing_progress: progress.percent,
+              processing_heartbeat: new Date(),
+            },
+          })
+          .catch((error: unknown) =>
+            logError("Failed to save processing progress", error)
+          );
+      }
+
+      const snapshot: VideoProcessingProgress = {
+        ...progress,
+        qualities: { ...progress.qualities },
+        hls: { ...progress.hls },
+      };
+      Promise.resolve()
+        .then(() => onProgress?.(snapshot))
+        .catch((error: unknown) =>
+          logError("Failed to report processing progress", error)
+        );
+    };
+
+    return {
+      update(
+        kind: "qualities" | "hls",
+        quality: VideoQuality,
+        percent: number
+      ) {
+        progress[kind][quality] = percent;
+        report(percent === 100);
+      },
+      stage(stage: VideoProcessingProgress["stage"]) {
+        progress.stage = stage;
+        report(true);
+      },
+    };
+  }
+
   /**
    * Convert video to specific quality
+   * Written where the streaming layer looks for standard renditions
    */
   private async convertToQuality(
     videoId: string,
     inputPath: string,
-    quality: VideoQuality
+    quality: VideoQuality,
+    progress?: { duration: number; onProgress: ProgressCallback }
   ): Promise<string> {
-    const outputFilename = `${videoId}-${quality}.mp4`;
-    const outputPath = path.join(
-      "videos",
-      "processed",
-      quality,
-      outputFilename
-    );
+    const outputPath = videoStreaming.getVideoPath(videoId, quality);
 
     const fullOutputPath = path.join(process.cwd(), "uploads", outputPath);
 
     await ensureDirectoryExists(path.dirname(fullOutputPath));
 
-    await videoProcessor.convertToQuality(inputPath, fullOutputPath, quality);
+    await videoProcessor.convertToQuality(
+      inputPath,
+      fullOutputPath,
+      quality,
+      progress
+    );
 
     return outputPath;
   }
 
+  /**
+   * Generate HLS renditions and master playlist
+   */
+  private async generateHls(
+    videoId: string,
+    inputPath: string,
+    qualities: VideoQuality[],
+    progress?: {
+      duration: number;
+      onProgress: (quality: VideoQuality, percent: number) => void;
+    }
+  ): Promise<string> {
+    const outputDir = path.join(
+      process.cwd(),
+      "uploads",
+      videoConfig.streaming.hls.directory,
+      videoId
+    );
+
+    // Start clean so stale segments are not served
+    await fs.rm(outputDir, { recursive: true, force: true });
+    await ensureDirectoryExists(outputDir);
+
+    const { masterPlaylist } = await videoProcessor.generateHls(
+      inputPath,
+      outputDir,
+      qualities,
+      progress
+    );
+
+    // Return master playlist path relative to uploads directory
+    return path.relative(path.join(process.cwd(), "uploads"), masterPlaylist);
+  }
+
   /**
    * Generate thumbnails
    */
   private async generateThumbnails(
     videoId: string,
     inputPath: string
-  ): Promise<string> {
+  ): Promise<GeneratedThumbnail[]> {
     const outputDir = path.join(
       process.cwd(),
       "uploads",
@@ -198,10 +527,11 @@ export class VideoService {
       }
     );
 
-    // Return first thumbnail path relative to uploads directory
-    return thumbnails[0]
-      ? path.relative(path.join(process.cwd(), "uploads"), thumbnails[0])
-      : "";
+    // Paths relative to uploads directory
+    return thumbnails.map((thumbnail) => ({
+      ...thumbnail,
+      path: path.relative(path.join(process.cwd(), "uploads"), thumbnail.path),
+    }));
   }
 
   /**
@@ -211,12 +541,10 @@ export class VideoService {
     let videoPath: string;
 
     if (quality) {
-      const qualityRecord = await prisma.videoQuality_Model.findFirst({
-        where: {
-          video_id: videoId,
-          quality: quality,
-        },
-      });
+      const qualityRecord = await videoRenditionService.getRendition(
+        videoId,
+        quality
+      );
 
       if (!qualityRecord) {
         throw new Error(`Quality ${quality} not found for video ${videoId}`);
@@ -256,6 +584,7 @@ export class VideoService {
       where: { id: videoId },
       include: {
         qualities: true,
+        captions: true,
       },
     });
 
@@ -269,6 +598,9 @@ export class VideoService {
       ...video.qualities.map((q: any) =>
         path.join(process.cwd(), "uploads", q.path)
       ),
+      ...video.captions.map((c: any) =>
+        path.join(process.cwd(), "uploads", c.path)
+      ),
     ];
 
     if (video.thumbnail) {
@@ -283,11 +615,27 @@ export class VideoService {
       }
     }
 
+    // HLS playlists and segments live in one directory per video
+    if (video.hls_path) {
+      const hlsDir = path.dirname(
+        path.join(process.cwd(), "uploads", video.hls_path)
+      );
+      try {
+        await fs.rm(hlsDir, { recursive: true, force: true });
+      } catch (error) {
+        logError(`Failed to delete HLS files: ${hlsDir}`, error);
+      }
+    }
+
     // Delete from database
     await prisma.videoQuality_Model.deleteMany({
       where: { video_id: videoId },
     });
 
+    await prisma.videoCaption.deleteMany({
+      where: { video_id: videoId },
+    });
+
     await prisma.video.delete({
       where: { id: videoId },
     });
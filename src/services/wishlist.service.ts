@@ -0,0 +1,219 @@
+import prisma from "@/lib/prisma";
+import courseService from "./course.service";
+import transactionService from "./transaction.service";
+import { AppError, NotFoundError, ConflictError } from "@/utils/error.util";
+import { HTTP_STATUS, COURSE_STATUS, ENROLLMENT_STATUS } from "@/lib/constants";
+
+/**
+ * Wishlist Enroll Data
+ */
+interface WishlistEnrollData {
+  paymentMethod?: string;
+  couponCode?: string;
+}
+
+/**
+ * Wishlist Service
+ * Handles saved courses and enrolling from the wishlist
+ */
+export class WishlistService {
+  /**
+   * Add course to wishlist
+   */
+  async addToWishlist(userId: string, courseId: string) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: { id: true, status: true },
+    });
+
+    // Unpublished courses can be saved to get an alert once they go live
+    if (!course || course.status === COURSE_STATUS.ARCHIVED) {
+      throw new NotFoundError("Course not found");
+    }
+
+    const enrollment = await prisma.enrollment.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id: userId,
+          course_id: courseId,
+        },
+      },
+      select: { status: true },
+    });
+
+    if (
+      enrollment &&
+      (enrollment.status === ENROLLMENT_STATUS.ACTIVE ||
+        enrollment.status === ENROLLMENT_STATUS.COMPLETED)
+    ) {
+      throw new ConflictError("You are already enrolled in this course");
+    }
+
+    const existing = await prisma.wishlist.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id: userId,
+          course_id: courseId,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictError("Course is already in your wishlist");
+    }
+
+    return prisma.wishlist.create({
+      data: {
+        user_id: userId,
+        course_id: courseId,
+      },
+    });
+  }
+
+  /**
+   * Remove course from wishlist
+   */
+  async removeFromWishlist(userId: string, courseId: string) {
+    const { count } = await prisma.wishlist.deleteMany({
+      where: {
+        user_id: userId,
+        course_id: courseId,
+      },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Course is not in your wishlist");
+    }
+
+    return { course_id: courseId, removed: true };
+  }
+
+  /**
+   * Get user wishlist with current pricing
+   */
+  async getWishlist(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ) {
+    const { page = 1, limit = 10 } = options;
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      prisma.wishlist.findMany({
+        where: { user_id: userId },
+        skip,
+        take: limit,
+        orderBy: { created_at: "desc" },
+        include: {
+          course: {
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              thumbnail: true,
+              short_description: true,
+              level: true,
+              price: true,
+              discount_price: true,
+              is_free: true,
+              status: true,
+              average_rating: true,
+              total_students: true,
+              mentor: {
+                select: {
+                  user: {
+                    select: {
+                      full_name: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.wishlist.count({ where: { user_id: userId } }),
+    ]);
+
+    const data = entries.map((entry: any) => {
+      const effectivePrice = courseService.getEffectivePrice(entry.course);
+
+      return {
+        id: entry.id,
+        added_at: entry.created_at,
+        course: {
+          ...entry.course,
+          effective_price: effectivePrice,
+          has_discount: effectivePrice < entry.course.price,
+          is_available: entry.course.status === COURSE_STATUS.PUBLISHED,
+        },
+      };
+    });
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Enroll (free) or start checkout (paid) for a wishlisted course
+   */
+  async enrollFromWishlist(
+    userId: string,
+    courseId: string,
+    data: WishlistEnrollData = {}
+  ) {
+    const entry = await prisma.wishlist.findUnique({
+      where: {
+        user_id_course_id: {
+          user_id: userId,
+          course_id: courseId,
+        },
+      },
+      include: {
+        course: {
+          select: {
+            id: true,
+            price: true,
+            discount_price: true,
+            is_free: true,
+          },
+        },
+      },
+    });
+
+    if (!entry) {
+      throw new NotFoundError("Course is not in your wishlist");
+    }
+
+    if (courseService.getEffectivePrice(entry.course) <= 0) {
+      const enrollment = await courseService.enrollCourse(courseId, userId);
+      return { enrolled: true, enrollment, checkout: null };
+    }
+
+    if (!data.paymentMethod) {
+      throw new AppError(
+        "Payment method is required for paid courses",
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    // Wishlist entry is removed once the payment settles and enrollment runs
+    const checkout = await transactionService.checkout(userId, {
+      courseId,
+      paymentMethod: data.paymentMethod,
+      couponCode: data.couponCode,
+    });
+
+    return { enrolled: false, enrollment: null, checkout };
+  }
+}
+
+const wishlistService = new WishlistService();
+export default wishlistService;
@@ -29,7 +29,7 @@ export interface RegistrationData {
   email: string;
   password: string;
   name: string;
-  disability_type?: 'BUTA_WARNA' | 'DISLEKSIA' | 'KOGNITIF' | 'LOW_VISION' | 'MENTOR' | 'MOTORIK' | 'TUNARUNGU';
+  disability_type?: 'BUTA_WARNA' | 'DISLEKSIA' | 'KOGNITIF' | 'LOW_VISION' | 'MENTOR' | 'MOTORIK' | 'TUNANETRA' | 'TUNARUNGU';
   role?: 'STUDENT' | 'MENTOR';
 }
 
@@ -17,7 +17,9 @@ export type NotificationType =
   | 'REVIEW_RECEIVED'
   | 'MENTOR_APPROVED'
   | 'MENTOR_REJECTED'
-  | 'SYSTEM_ANNOUNCEMENT';
+  | 'SYSTEM_ANNOUNCEMENT'
+  | 'ASSIGNMENT_GRADED'
+  | 'ACCOMMODATION_REVIEWED';
 
 /**
  * Notification Status
@@ -84,6 +84,11 @@ export interface PaymentWebhookData {
   signatureKey?: string;
 }
 
+/**
+ * Refund Request Status
+ */
+export type RefundStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'FAILED';
+
 /**
  * Refund Request
  */
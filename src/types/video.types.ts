@@ -2,6 +2,8 @@ export type VideoStatus = 'UPLOADING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
 
 export type VideoQuality = '360p' | '480p' | '720p' | '1080p';
 
+export type VideoVariant = 'STANDARD' | 'AUDIO_DESCRIPTION' | 'SIGN_LANGUAGE';
+
 export interface VideoMetadata {
   duration: number; // in seconds
   width: number;
@@ -71,6 +73,75 @@ export interface ThumbnailOptions {
   timestamps?: string[];
 }
 
+export interface GeneratedThumbnail {
+  path: string;
+  timestamp: number; // seconds
+}
+
+export type ProgressCallback = (percent: number) => void;
+
+export interface VideoProcessingProgress {
+  stage: 'queued' | 'transcoding' | 'packaging' | 'thumbnails' | 'completed';
+  percent: number;
+  qualities: Partial<Record<VideoQuality, number>>; // MP4 renditions
+  hls: Partial<Record<VideoQuality, number>>;
+}
+
+export interface VideoJobData {
+  videoId: string;
+  inputPath: string;
+  options?: VideoProcessingOptions;
+}
+
+export interface TranscriptJobData {
+  transcriptId: string;
+  videoId: string;
+  videoPath: string; // relative to uploads/
+  language: string;
+}
+
+export interface AudioDescriptionJobData {
+  videoId: string;
+  sourcePath: string; // relative to uploads/
+  kind: 'audio' | 'video'; // narration track or full narrated video
+  renditions: Array<{ quality: VideoQuality; path: string }>;
+}
+
+export interface SignLanguageJobData {
+  videoId: string;
+  sourcePath: string; // interpreter video, relative to uploads/
+  renditions: Array<{ quality: VideoQuality; path: string }>;
+}
+
+// Data of any job on the video processing queue
+export type VideoQueueJobData =
+  | VideoJobData
+  | TranscriptJobData
+  | AudioDescriptionJobData
+  | SignLanguageJobData;
+
+export interface StreamTokenPayload {
+  userId: string;
+  videoId: string;
+  quality: VideoQuality | 'hls'; // 'hls' covers all playlists and segments
+  variant: VideoVariant;
+  streamId: string; // Counted once per playback for concurrent stream limits
+  nonce: string; // Per issuance, a newer token for the stream replaces it
+  expiresAt: number; // Unix time in seconds
+}
+
+export interface HlsRendition {
+  quality: VideoQuality;
+  playlist: string; // relative to the master playlist
+  bandwidth: number; // bits per second
+  resolution: string; // WIDTHxHEIGHT
+}
+
+export interface HlsOutput {
+  masterPlaylist: string;
+  renditions: HlsRendition[];
+}
+
 export interface VideoProcessingOptions {
   qualities?: VideoQuality[];
   generateThumbnails?: boolean;
@@ -88,3 +159,26 @@ export interface VideoStreamInfo {
     total: number;
   };
 }
+
+export type CaptionFormat = 'SRT' | 'VTT';
+
+export interface CaptionCue {
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  text: string;
+}
+
+export interface CaptionValidationResult {
+  valid: boolean;
+  errors: string[];
+  cues: CaptionCue[];
+}
+
+export interface TranscriptionOptions {
+  language: string;
+}
+
+export interface TranscriptionResult {
+  language: string;
+  segments: CaptionCue[];
+}
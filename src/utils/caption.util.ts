@@ -0,0 +1,230 @@
+import type {
+  CaptionCue,
+  CaptionFormat,
+  CaptionValidationResult,
+} from '@/types/video.types';
+
+const SRT_TIMING =
+  /^(\d{1,2}):(\d{2}):(\d{2})[,.](\d{3})\s*-->\s*(\d{1,2}):(\d{2}):(\d{2})[,.](\d{3})\s*$/;
+const VTT_TIMESTAMP = /^(?:(\d{2,}):)?(\d{2}):(\d{2})\.(\d{3})$/;
+
+/**
+ * Normalize caption text (BOM, line endings)
+ */
+export function normalizeCaptionText(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+}
+
+/**
+ * Detect caption format from filename or content
+ */
+export function detectCaptionFormat(
+  filename: string,
+  content: string
+): CaptionFormat | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.srt')) return 'SRT';
+  if (lower.endsWith('.vtt')) return 'VTT';
+
+  const text = normalizeCaptionText(content);
+  if (/^WEBVTT(?:[ \t]|$)/.test(text)) return 'VTT';
+  if (/^\d+\n\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->/.test(text)) return 'SRT';
+  return null;
+}
+
+/**
+ * Format milliseconds as caption timestamp (HH:MM:SS.mmm)
+ */
+export function formatCaptionTimestamp(ms: number, separator: '.' | ',' = '.'): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (value: number, size = 2) => value.toString().padStart(size, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Parse SubRip (.srt) content
+ */
+export function parseSrt(content: string): CaptionValidationResult {
+  const errors: string[] = [];
+  const cues: CaptionCue[] = [];
+  const text = normalizeCaptionText(content);
+
+  if (!text) {
+    return { valid: false, errors: ['Caption file is empty'], cues };
+  }
+
+  const blocks = text.split(/\n{2,}/);
+
+  blocks.forEach((block, index) => {
+    const lines = block.split('\n');
+    const position = index + 1;
+
+    // Sequence number is optional in practice
+    if (/^\d+$/.test(lines[0].trim())) {
+      lines.shift();
+    }
+
+    const match = lines.shift()?.trim().match(SRT_TIMING);
+    if (!match) {
+      errors.push(`Cue ${position}: invalid timing line`);
+      return;
+    }
+
+    const start = toMilliseconds(match[1], match[2], match[3], match[4]);
+    const end = toMilliseconds(match[5], match[6], match[7], match[8]);
+
+    cues.push({ start, end, text: lines.join('\n').trim() });
+  });
+
+  return validateCues(cues, errors);
+}
+
+/**
+ * Parse WebVTT (.vtt) content
+ */
+export function parseVtt(content: string): CaptionValidationResult {
+  const errors: string[] = [];
+  const cues: CaptionCue[] = [];
+  const text = normalizeCaptionText(content);
+
+  if (!/^WEBVTT(?:[ \t]|$)/.test(text)) {
+    return {
+      valid: false,
+      errors: ['WebVTT file must start with "WEBVTT"'],
+      cues,
+    };
+  }
+
+  // First block is the header
+  const blocks = text.split(/\n{2,}/).slice(1);
+  let position = 0;
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+
+    if (/^(NOTE|STYLE|REGION)(?:[ \t]|$)/.test(lines[0])) {
+      continue;
+    }
+
+    position++;
+
+    // Optional cue identifier
+    if (!lines[0].includes('-->')) {
+      lines.shift();
+    }
+
+    const timing = lines.shift();
+    const [startRaw, rest] = timing ? timing.split('-->') : [];
+    const endRaw = rest?.trim().split(/\s+/)[0];
+
+    const start = parseVttTimestamp(startRaw?.trim());
+    const end = parseVttTimestamp(endRaw);
+
+    if (start === null || end === null) {
+      errors.push(`Cue ${position}: invalid timing line`);
+      continue;
+    }
+
+    cues.push({ start, end, text: lines.join('\n').trim() });
+  }
+
+  return validateCues(cues, errors);
+}
+
+/**
+ * Validate caption content of the given format
+ */
+export function validateCaption(
+  content: string,
+  format: CaptionFormat
+): CaptionValidationResult {
+  return format === 'SRT' ? parseSrt(content) : parseVtt(content);
+}
+
+/**
+ * Serialize cues as WebVTT
+ */
+export function cuesToVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatCaptionTimestamp(cue.start)} --> ${formatCaptionTimestamp(cue.end)}\n${cue.text}`
+    )
+    .join('\n\n');
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Convert SubRip content to WebVTT
+ */
+export function srtToVtt(content: string): string {
+  const { cues } = parseSrt(content);
+
+  // WebVTT has no <font> tag, keep the text only
+  return cuesToVtt(
+    cues.map((cue) => ({
+      ...cue,
+      text: cue.text.replace(/<\/?font[^>]*>/gi, ''),
+    }))
+  );
+}
+
+/**
+ * Convert timestamp parts to milliseconds
+ */
+function toMilliseconds(
+  hours: string,
+  minutes: string,
+  seconds: string,
+  millis: string
+): number {
+  return (
+    parseInt(hours, 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    parseInt(millis, 10)
+  );
+}
+
+/**
+ * Parse WebVTT timestamp ([HH:]MM:SS.mmm)
+ */
+function parseVttTimestamp(value?: string): number | null {
+  const match = value?.match(VTT_TIMESTAMP);
+  if (!match) return null;
+
+  return toMilliseconds(match[1] || '0', match[2], match[3], match[4]);
+}
+
+/**
+ * Check cue timings and text
+ */
+function validateCues(
+  cues: CaptionCue[],
+  errors: string[]
+): CaptionValidationResult {
+  cues.forEach((cue, index) => {
+    const position = index + 1;
+
+    if (cue.end <= cue.start) {
+      errors.push(`Cue ${position}: end time must be after start time`);
+    }
+    if (!cue.text) {
+      errors.push(`Cue ${position}: text is empty`);
+    }
+    if (index > 0 && cue.start < cues[index - 1].start) {
+      errors.push(`Cue ${position}: cues must be in chronological order`);
+    }
+  });
+
+  if (cues.length === 0 && errors.length === 0) {
+    errors.push('Caption file has no cues');
+  }
+
+  return { valid: errors.length === 0, errors, cues };
+}
@@ -0,0 +1,208 @@
+import { escapeHtml } from './string.util';
+
+export type TemplateData = Record<string, unknown>;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&#039;': "'",
+  '&copy;': '©',
+};
+
+/**
+ * Resolve dotted key (e.g. "theme.primary") from template data
+ */
+function getValue(data: TemplateData, key: string): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>(
+      (value, part) =>
+        value && typeof value === 'object'
+          ? (value as Record<string, unknown>)[part]
+          : undefined,
+      data
+    );
+}
+
+/**
+ * Decode the HTML entities used by templates
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(nbsp|amp|lt|gt|quot|#0?39|copy);/g,
+    (entity) => HTML_ENTITIES[entity] ?? entity
+  );
+}
+
+// Comment | {{#if}} block | {{{raw}}} | {{escaped}}, matched in one pass
+const TEMPLATE_TOKEN =
+  /\{\{!--[\s\S]*?--\}\}|\{\{#if\s+([\w.]+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}|\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Render template string
+ * {{var}} is HTML-escaped, {{{var}}} is inserted raw,
+ * {{#if var}}...{{else}}...{{/if}} blocks (not nested), {{!-- comments --}}
+ * Single pass, so inserted values are never parsed as template syntax
+ */
+export function renderTemplate(
+  template: string,
+  data: TemplateData,
+  options: { escape?: boolean } = {}
+): string {
+  const escape = options.escape ?? true;
+  const toText = (value: unknown) =>
+    value === undefined || value === null ? '' : String(value);
+
+  return template.replace(
+    TEMPLATE_TOKEN,
+    (match, ifKey, truthy, falsy = '', rawKey, key) => {
+      if (ifKey) {
+        return renderTemplate(getValue(data, ifKey) ? truthy : falsy, data, options);
+      }
+      if (rawKey) {
+        return toText(getValue(data, rawKey));
+      }
+      if (key) {
+        const value = toText(getValue(data, key));
+        return escape ? escapeHtml(value) : value;
+      }
+      return ''; // comment
+    }
+  );
+}
+
+/**
+ * Convert HTML email to plain text, keeping link URLs and image alt text
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(
+        /<a\b[^>]*\bhref\s*=\s*"([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+        (_, href: string, inner: string) => {
+          const label = inner.replace(/<[^>]*>/g, '').trim();
+          const url = href.replace(/^mailto:/i, '');
+          return !label || label === url ? url : `${label} (${url})`;
+        }
+      )
+      .replace(
+        /<img\b[^>]*\balt\s*=\s*"([^"]*)"[^>]*>/gi,
+        (_, alt: string) => alt
+      )
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/li>\s*/gi, '')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<h[1-6]\b[^>]*>/gi, '\n\n')
+      .replace(/<\/(h[1-6]|p|div|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Relative luminance of a hex color (WCAG 2.x)
+ */
+function luminance(hex: string): number {
+  const value = hex.replace('#', '');
+  const full =
+    value.length === 3
+      ? value
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : value;
+
+  const [r, g, b] = [0, 2, 4].map((i) => {
+    const channel = parseInt(full.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928
+      ? channel / 12.92
+      : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Contrast ratio between two hex colors (1 - 21)
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort(
+    (a, b) => b - a
+  );
+  return Math.round(((lighter + 0.05) / (darker + 0.05)) * 100) / 100;
+}
+
+/**
+ * Check rendered email against basic accessibility rules
+ * Returns a list of issues (empty when the email passes)
+ */
+export function checkEmailAccessibility(
+  html: string,
+  minContrast: number = 4.5
+): string[] {
+  const issues: string[] = [];
+
+  if (!/<html\b[^>]*\blang\s*=\s*"[a-z]{2}/i.test(html)) {
+    issues.push('Missing lang attribute on <html>');
+  }
+
+  if (!/<title>\s*\S[\s\S]*?<\/title>/i.test(html)) {
+    issues.push('Missing document <title>');
+  }
+
+  const levels = [...html.matchAll(/<h([1-6])\b/gi)].map((m) => Number(m[1]));
+  if (levels.filter((level) => level === 1).length !== 1) {
+    issues.push('Email must have exactly one <h1>');
+  }
+  levels.forEach((level, index) => {
+    if (index > 0 && level > levels[index - 1] + 1) {
+      issues.push(`Heading level skipped: <h${levels[index - 1]}> to <h${level}>`);
+    }
+  });
+
+  for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+    if (!/\balt\s*=/i.test(tag)) {
+      issues.push(`Image without alt attribute: ${tag}`);
+    }
+  }
+
+  for (const [, inner] of html.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)) {
+    const text = inner.replace(/<img\b[^>]*\balt\s*=\s*"([^"]*)"[^>]*>/gi, '$1');
+    if (!text.replace(/<[^>]*>/g, '').trim()) {
+      issues.push('Link without text');
+    }
+  }
+
+  for (const [tag] of html.matchAll(/<table\b[^>]*>/gi)) {
+    if (!/\brole\s*=\s*"presentation"/i.test(tag)) {
+      issues.push('Layout table without role="presentation"');
+    }
+  }
+
+  for (const [, style] of html.matchAll(/\bstyle\s*=\s*"([^"]*)"/gi)) {
+    const color = style.match(/(?:^|;)\s*color\s*:\s*(#[0-9a-f]{3,6})\b/i)?.[1];
+    const background = style.match(
+      /background(?:-color)?\s*:\s*(#[0-9a-f]{3,6})\b/i
+    )?.[1];
+    if (!color || !background) continue;
+
+    const ratio = contrastRatio(color, background);
+    if (ratio < minContrast) {
+      issues.push(
+        `Insufficient contrast ${ratio}:1 between ${color} and ${background}`
+      );
+    }
+  }
+
+  return issues;
+}
@@ -1,14 +1,29 @@
 import { spawn } from "child_process";
 import { promisify } from "util";
+import fs from "fs/promises";
+import path from "path";
 import { videoConfig } from "@/config/video.config";
 import type {
   VideoMetadata,
   VideoQuality,
   ThumbnailOptions,
+  GeneratedThumbnail,
+  HlsOutput,
+  HlsRendition,
+  ProgressCallback,
 } from "@/types/video.types";
 
 const exec = promisify(require("child_process").exec);
 
+// FFmpeg overlay coordinates (shared by watermark and picture-in-picture)
+const OVERLAY_POSITIONS: Record<string, string> = {
+  topleft: "10:10",
+  topright: "main_w-overlay_w-10:10",
+  bottomleft: "10:main_h-overlay_h-10",
+  bottomright: "main_w-overlay_w-10:main_h-overlay_h-10",
+  center: "(main_w-overlay_w)/2:(main_h-overlay_h)/2",
+};
+
 /**
  * Video Processor Utility
  * Handles video processing using FFmpeg
@@ -69,11 +84,13 @@ export class VideoProcessor {
 
   /**
    * Convert video to specific quality
+   * Progress needs the source duration (seconds) to compute percentages
    */
   async convertToQuality(
     inputPath: string,
     outputPath: string,
-    quality: VideoQuality
+    quality: VideoQuality,
+    progress?: { duration: number; onProgress: ProgressCallback }
   ): Promise<void> {
     const resolution = videoConfig.resolutions.find((r) => r.name === quality);
     if (!resolution) {
@@ -114,6 +131,7 @@ export class VideoProcessor {
 
       ffmpeg.stderr.on("data", (data) => {
         stderr += data.toString();
+        if (progress) this.reportProgress(data.toString(), progress);
       });
 
       ffmpeg.on("close", (code) => {
@@ -134,6 +152,176 @@ export class VideoProcessor {
     });
   }
 
+  /**
+   * Package video as HLS: one segmented rendition per enabled resolution
+   * plus a master playlist for adaptive bitrate switching
+   */
+  async generateHls(
+    inputPath: string,
+    outputDir: string,
+    qualities?: VideoQuality[],
+    progress?: {
+      duration: number;
+      onProgress: (quality: VideoQuality, percent: number) => void;
+    }
+  ): Promise<HlsOutput> {
+    const resolutions = videoConfig.resolutions.filter(
+      (r) =>
+        r.enabled && (!qualities || qualities.includes(r.name as VideoQuality))
+    );
+
+    if (resolutions.length === 0) {
+      throw new Error("No enabled resolutions for HLS packaging");
+    }
+
+    const audioBitrate = this.parseBitrate(videoConfig.ffmpeg.audioBitrate);
+    const renditions: HlsRendition[] = [];
+
+    for (const resolution of resolutions) {
+      const renditionDir = path.join(outputDir, resolution.name);
+      await fs.mkdir(renditionDir, { recursive: true });
+      await this.packageHlsRendition(
+        inputPath,
+        renditionDir,
+        resolution,
+        progress && {
+          duration: progress.duration,
+          onProgress: (percent) =>
+            progress.onProgress(resolution.name as VideoQuality, percent),
+        }
+      );
+
+      renditions.push({
+        quality: resolution.name as VideoQuality,
+        playlist: `${resolution.name}/index.m3u8`,
+        bandwidth: this.parseBitrate(resolution.bitrate) + audioBitrate,
+        resolution: `${resolution.width}x${resolution.height}`,
+      });
+    }
+
+    const master = [
+      "#EXTM3U",
+      "#EXT-X-VERSION:3",
+      ...renditions.flatMap((rendition) => [
+        `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},` +
+          `RESOLUTION=${rendition.resolution},NAME="${rendition.quality}"`,
+        rendition.playlist,
+      ]),
+      "",
+    ].join("\n");
+
+    const masterPlaylist = path.join(
+      outputDir,
+      videoConfig.streaming.hls.masterPlaylist
+    );
+    await fs.writeFile(masterPlaylist, master, "utf-8");
+
+    return { masterPlaylist, renditions };
+  }
+
+  /**
+   * Encode one HLS rendition (index.m3u8 + segment_NNN.ts)
+   * Keyframes are forced on segment boundaries so renditions stay aligned
+   */
+  private async packageHlsRendition(
+    inputPath: string,
+    outputDir: string,
+    resolution: { width: number; height: number; bitrate: string },
+    progress?: { duration: number; onProgress: ProgressCallback }
+  ): Promise<void> {
+    const { segmentDuration, playlistType } = videoConfig.streaming.hls;
+
+    const args = [
+      "-i",
+      inputPath,
+      "-c:v",
+      videoConfig.ffmpeg.videoCodec,
+      "-preset",
+      videoConfig.ffmpeg.preset,
+      "-crf",
+      videoConfig.ffmpeg.crf.toString(),
+      "-maxrate",
+      resolution.bitrate,
+      "-bufsize",
+      "2M",
+      "-vf",
+      `scale=${resolution.width}:${resolution.height}`,
+      "-pix_fmt",
+      videoConfig.ffmpeg.pixelFormat,
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${segmentDuration})`,
+      "-sc_threshold",
+      "0",
+      "-c:a",
+      videoConfig.ffmpeg.audioCodec,
+      "-b:a",
+      videoConfig.ffmpeg.audioBitrate,
+      "-ac",
+      videoConfig.ffmpeg.audioChannels.toString(),
+      "-f",
+      "hls",
+      "-hls_time",
+      segmentDuration.toString(),
+      "-hls_playlist_type",
+      playlistType,
+      "-hls_segment_filename",
+      path.join(outputDir, "segment_%03d.ts"),
+      "-y",
+      path.join(outputDir, "index.m3u8"),
+    ];
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn("ffmpeg", args);
+
+      let stderr = "";
+
+      ffmpeg.stderr.on("data", (data) => {
+        stderr += data.toString();
+        if (progress) this.reportProgress(data.toString(), progress);
+      });
+
+      ffmpeg.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Failed to package HLS. Error: ${stderr}`));
+        }
+      });
+
+      ffmpeg.on("error", reject);
+    });
+  }
+
+  /**
+   * Report encoding percentage from ffmpeg "time=HH:MM:SS.ms" output
+   */
+  private reportProgress(
+    output: string,
+    progress: { duration: number; onProgress: ProgressCallback }
+  ): void {
+    const times = [...output.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)];
+    const last = times[times.length - 1];
+    if (!last || progress.duration <= 0) return;
+
+    const seconds =
+      Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3]);
+
+    // 100 is reported by the caller once ffmpeg exits successfully
+    progress.onProgress(
+      Math.min(Math.floor((seconds / progress.duration) * 100), 99)
+    );
+  }
+
+  /**
+   * Parse bitrate string (e.g. "2500k") to bits per second
+   */
+  private parseBitrate(bitrate: string): number {
+    const value = parseFloat(bitrate);
+    if (/m$/i.test(bitrate)) return Math.round(value * 1000000);
+    if (/k$/i.test(bitrate)) return Math.round(value * 1000);
+    return Math.round(value);
+  }
+
   /**
    * Generate thumbnails from video
    */
@@ -141,9 +329,9 @@ export class VideoProcessor {
     inputPath: string,
     outputDir: string,
     options: ThumbnailOptions
-  ): Promise<string[]> {
+  ): Promise<GeneratedThumbnail[]> {
     const { count, size, format, quality, timestamps } = options;
-    const thumbnails: string[] = [];
+    const thumbnails: GeneratedThumbnail[] = [];
 
     try {
       // Use provided timestamps or generate evenly spaced ones
@@ -185,7 +373,10 @@ export class VideoProcessor {
 
           ffmpeg.on("close", (code) => {
             if (code === 0) {
-              thumbnails.push(outputPath);
+              thumbnails.push({
+                path: outputPath,
+                timestamp: this.parseTimestamp(timestamp),
+              });
               resolve(outputPath);
             } else {
               reject(
@@ -251,6 +442,15 @@ export class VideoProcessor {
     ].join(":");
   }
 
+  /**
+   * Parse HH:MM:SS (or plain seconds) to seconds
+   */
+  private parseTimestamp(timestamp: string): number {
+    return timestamp
+      .split(":")
+      .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+  }
+
   /**
    * Add watermark to video
    */
@@ -261,15 +461,8 @@ export class VideoProcessor {
     position: string = "bottomright",
     opacity: number = 0.3
   ): Promise<void> {
-    const positionMap: Record<string, string> = {
-      topleft: "10:10",
-      topright: "main_w-overlay_w-10:10",
-      bottomleft: "10:main_h-overlay_h-10",
-      bottomright: "main_w-overlay_w-10:main_h-overlay_h-10",
-      center: "(main_w-overlay_w)/2:(main_h-overlay_h)/2",
-    };
-
-    const positionValue = positionMap[position] || positionMap.bottomright;
+    const positionValue =
+      OVERLAY_POSITIONS[position] || OVERLAY_POSITIONS.bottomright;
 
     const args = [
       "-i",
@@ -305,11 +498,87 @@ export class VideoProcessor {
     });
   }
 
+  /**
+   * Composite a video as picture-in-picture overlay (e.g. sign-language
+   * interpreter). The main video keeps playing after the overlay ends.
+   */
+  async overlayVideo(
+    inputPath: string,
+    overlayPath: string,
+    outputPath: string,
+    options: { position?: string; width: number }
+  ): Promise<void> {
+    const positionValue =
+      OVERLAY_POSITIONS[options.position || "bottomright"] ||
+      OVERLAY_POSITIONS.bottomright;
+    // Even dimensions are required by libx264
+    const overlayWidth = Math.floor(options.width / 2) * 2;
+
+    const args = [
+      "-i",
+      inputPath,
+      "-i",
+      overlayPath,
+      "-filter_complex",
+      `[1:v]scale=${overlayWidth}:-2[pip];` +
+        `[0:v][pip]overlay=${positionValue}:eof_action=pass[out]`,
+      "-map",
+      "[out]",
+      "-map",
+      "0:a?",
+      "-c:v",
+      videoConfig.ffmpeg.videoCodec,
+      "-preset",
+      videoConfig.ffmpeg.preset,
+      "-crf",
+      videoConfig.ffmpeg.crf.toString(),
+      "-c:a",
+      "copy",
+      "-movflags",
+      "+faststart",
+      "-y",
+      outputPath,
+    ];
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn("ffmpeg", args);
+
+      let stderr = "";
+
+      ffmpeg.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      ffmpeg.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Failed to overlay video. Error: ${stderr}`));
+        }
+      });
+
+      ffmpeg.on("error", reject);
+    });
+  }
+
   /**
    * Extract audio from video
+   * sampleRate/channels resample the track (e.g. 16kHz mono for speech)
    */
-  async extractAudio(inputPath: string, outputPath: string): Promise<void> {
-    const args = ["-i", inputPath, "-q:a", "0", "-map", "a", "-y", outputPath];
+  async extractAudio(
+    inputPath: string,
+    outputPath: string,
+    options: { sampleRate?: number; channels?: number } = {}
+  ): Promise<void> {
+    const args = ["-i", inputPath, "-q:a", "0", "-map", "a"];
+
+    if (options.sampleRate) {
+      args.push("-ar", options.sampleRate.toString());
+    }
+    if (options.channels) {
+      args.push("-ac", options.channels.toString());
+    }
+    args.push("-y", outputPath);
 
     return new Promise((resolve, reject) => {
       const ffmpeg = spawn("ffmpeg", args);
@@ -332,6 +601,57 @@ export class VideoProcessor {
     });
   }
 
+  /**
+   * Replace the audio track of a video (video stream is copied)
+   */
+  async muxAudioTrack(
+    videoPath: string,
+    audioPath: string,
+    outputPath: string
+  ): Promise<void> {
+    const args = [
+      "-i",
+      videoPath,
+      "-i",
+      audioPath,
+      "-map",
+      "0:v:0",
+      "-map",
+      "1:a:0",
+      "-c:v",
+      "copy",
+      "-c:a",
+      videoConfig.ffmpeg.audioCodec,
+      "-b:a",
+      videoConfig.ffmpeg.audioBitrate,
+      "-shortest",
+      "-movflags",
+      "+faststart",
+      "-y",
+      outputPath,
+    ];
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn("ffmpeg", args);
+
+      let stderr = "";
+
+      ffmpeg.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      ffmpeg.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Failed to mux audio track. Error: ${stderr}`));
+        }
+      });
+
+      ffmpeg.on("error", reject);
+    });
+  }
+
   /**
    * Check if FFmpeg is available
    */
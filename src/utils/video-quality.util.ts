@@ -0,0 +1,43 @@
+import { VIDEO_QUALITY } from '@/lib/constants';
+import type { VideoQuality } from '@/types/video.types';
+
+/**
+ * Prisma VideoQuality enum value ('Q720P')
+ */
+export type PrismaVideoQuality = keyof typeof VIDEO_QUALITY;
+
+// Lowest to highest
+const QUALITY_ORDER = Object.values(VIDEO_QUALITY) as VideoQuality[];
+
+/**
+ * Map quality ('720p') to the Prisma enum value ('Q720P')
+ */
+export function toPrismaQuality(quality: VideoQuality): PrismaVideoQuality {
+  const value = (Object.keys(VIDEO_QUALITY) as PrismaVideoQuality[]).find(
+    (key) => VIDEO_QUALITY[key] === quality
+  );
+
+  if (!value) {
+    throw new Error(`Unknown video quality: ${quality}`);
+  }
+
+  return value;
+}
+
+/**
+ * Map Prisma enum value ('Q720P') back to quality ('720p')
+ */
+export function fromPrismaQuality(value: string): VideoQuality {
+  if (value in VIDEO_QUALITY) {
+    return VIDEO_QUALITY[value as PrismaVideoQuality];
+  }
+
+  throw new Error(`Unknown video quality: ${value}`);
+}
+
+/**
+ * Compare qualities for sorting, lowest first
+ */
+export function compareQualities(a: VideoQuality, b: VideoQuality): number {
+  return QUALITY_ORDER.indexOf(a) - QUALITY_ORDER.indexOf(b);
+}
@@ -0,0 +1,151 @@
+import { Worker, type Job } from "bullmq";
+import { videoConfig } from "@/config/video.config";
+import { getRedisConnection } from "@/lib/redis";
+import { QUEUE_NAMES, VIDEO_JOBS } from "@/lib/queue";
+import videoService from "@/services/video.service";
+import videoUploadService from "@/services/video-upload.service";
+import transcriptService from "@/services/transcript.service";
+import audioDescriptionService from "@/services/audio-description.service";
+import signLanguageService from "@/services/sign-language.service";
+import { logInfo, logError } from "@/utils/logger.util";
+import type {
+  VideoJobData,
+  TranscriptJobData,
+  AudioDescriptionJobData,
+  SignLanguageJobData,
+  VideoQueueJobData,
+} from "@/types/video.types";
+
+/**
+ * Job handlers by job name (new pipelines register here)
+ */
+const handlers: Record<
+  string,
+  (job: Job<VideoQueueJobData>) => Promise<void>
+> = {
+  [VIDEO_JOBS.PROCESS]: (job) => {
+    const data = job.data as VideoJobData;
+    return videoService.processVideo(
+      data.videoId,
+      data.inputPath,
+      data.options,
+      (progress) => job.updateProgress(progress),
+      job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+    );
+  },
+  [VIDEO_JOBS.TRANSCRIBE]: (job) => {
+    const data = job.data as TranscriptJobData;
+    return transcriptService.runTranscription(
+      data.transcriptId,
+      data.videoPath,
+      data.videoId,
+      data.language
+    );
+  },
+  [VIDEO_JOBS.AUDIO_DESCRIPTION]: (job) => {
+    const data = job.data as AudioDescriptionJobData;
+    return audioDescriptionService.processAudioDescription(
+      data.videoId,
+      data.sourcePath,
+      data.kind,
+      data.renditions
+    );
+  },
+  [VIDEO_JOBS.SIGN_LANGUAGE]: (job) => {
+    const data = job.data as SignLanguageJobData;
+    return signLanguageService.processOverlay(
+      data.videoId,
+      data.sourcePath,
+      data.renditions
+    );
+  },
+};
+
+let worker: Worker<VideoQueueJobData> | null = null;
+let recoveryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Recover stuck videos and expire abandoned uploads, errors are only logged
+ */
+async function runMaintenance(): Promise<void> {
+  try {
+    await videoService.recoverStuckVideos();
+  } catch (error) {
+    logError("Stuck video recovery failed", error);
+  }
+
+  try {
+    await videoUploadService.cleanupExpiredSessions();
+  } catch (error) {
+    logError("Upload session cleanup failed", error);
+  }
+}
+
+/**
+ * Start video worker (max videoConfig.processing.maxConcurrent jobs)
+ * and periodic recovery of stuck videos and expired uploads
+ */
+export function startVideoWorker(): Worker<VideoQueueJobData> {
+  if (worker) return worker;
+
+  worker = new Worker<VideoQueueJobData>(
+    QUEUE_NAMES.VIDEO_PROCESSING,
+    async (job) => {
+      const handler = handlers[job.name];
+      if (!handler) {
+        throw new Error(`Unknown video job: ${job.name}`);
+      }
+
+      await handler(job);
+    },
+    {
+      connection: getRedisConnection(),
+      concurrency: videoConfig.processing.maxConcurrent,
+    }
+  );
+
+  worker.on("completed", (job) => {
+    logInfo(`Video job completed`, { jobId: job.id, name: job.name });
+  });
+
+  worker.on("failed", (job, error) => {
+    logError(`Video job failed`, {
+      jobId: job?.id,
+      name: job?.name,
+      attemptsMade: job?.attemptsMade,
+      error: error.message,
+    });
+  });
+
+  worker.on("error", (error) => {
+    logError("Video worker error", error);
+  });
+
+  void runMaintenance();
+  recoveryTimer = setInterval(
+    runMaintenance,
+    videoConfig.processing.recoveryInterval
+  );
+  recoveryTimer.unref();
+
+  logInfo(`Video worker started`, {
+    concurrency: videoConfig.processing.maxConcurrent,
+  });
+
+  return worker;
+}
+
+/**
+ * Stop video worker, waiting for running jobs to finish
+ */
+export async function stopVideoWorker(): Promise<void> {
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = null;
+  }
+
+  if (worker) {
+    await worker.close();
+    worker = null;
+  }
+}